@@ -1,7 +1,8 @@
-import React from 'react';
+import React, {useEffect, useState} from 'react';
 import {GestureHandlerRootView} from 'react-native-gesture-handler';
 import {StyleSheet} from 'react-native';
 import SolarSystemView from './src/screens/SolarSystemView';
+import {installNativeStorage} from './src/utils/nativeStorage';
 
 /**
  * Main App component
@@ -17,11 +18,21 @@ import SolarSystemView from './src/screens/SolarSystemView';
  * - Safe area handling
  * - Smooth 60fps animations using react-native-reanimated
  * - Responsive layout
+ *
+ * Stored settings, the in-progress session and history are loaded from
+ * device storage before the screen mounts, so a running session resumes
+ * after the app restarts.
  */
 function App(): React.JSX.Element {
+  const [storageReady, setStorageReady] = useState(false);
+
+  useEffect(() => {
+    installNativeStorage().then(() => setStorageReady(true));
+  }, []);
+
   return (
     <GestureHandlerRootView style={styles.container}>
-      <SolarSystemView />
+      {storageReady && <SolarSystemView />}
     </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,55 @@
+import {describe, expect, it} from '@jest/globals';
+import {NoiseColor, fillNoise, getBinauralFrequencies} from '../src/audio/ambientGenerators';
+
+// Deterministic random source (linear congruential generator)
+const seeded = (seed: number) => {
+  let value = seed;
+  return () => {
+    value = (value * 1664525 + 1013904223) % 4294967296;
+    return value / 4294967296;
+  };
+};
+
+const noise = (color: NoiseColor, length = 48000) => {
+  const output = new Float32Array(length);
+  fillNoise(color, output, seeded(42));
+  return output;
+};
+
+// Average step between neighbouring samples, including the loop point
+const meanStep = (samples: Float32Array) => {
+  let total = 0;
+  for (let i = 0; i < samples.length; i++) {
+    total += Math.abs(samples[(i + 1) % samples.length] - samples[i]);
+  }
+  return total / samples.length;
+};
+
+describe('ambientGenerators', () => {
+  it('keeps every noise color within -1..1 and audible', () => {
+    (['white', 'pink', 'brown'] as NoiseColor[]).forEach(color => {
+      const samples = noise(color);
+      const peak = samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+      expect(peak).toBeLessThanOrEqual(1);
+      expect(peak).toBeGreaterThan(0.05);
+    });
+  });
+
+  it('gets smoother from white to pink to brown', () => {
+    const white = meanStep(noise('white'));
+    const pink = meanStep(noise('pink'));
+    const brown = meanStep(noise('brown'));
+    expect(pink).toBeLessThan(white);
+    expect(brown).toBeLessThan(pink);
+  });
+
+  it('loops brown noise without a jump at the seam', () => {
+    const samples = noise('brown');
+    const seam = Math.abs(samples[0] - samples[samples.length - 1]);
+    expect(seam).toBeLessThan(meanStep(samples) * 10);
+  });
+
+  it('splits binaural beats around the carrier', () => {
+    expect(getBinauralFrequencies(200, 10)).toEqual({left: 195, right: 205});
+  });
+});
@@ -0,0 +1,66 @@
+import {describe, expect, it} from '@jest/globals';
+import {BELTS, createBeltShells, getBeltPeriod} from '../src/astronomy/belts';
+import {COMETS, getTailScale} from '../src/astronomy/comets';
+import {getOrbitPosition} from '../src/astronomy/orbit';
+
+// Repeatable random source for the particle scatter
+const createRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+describe('belts', () => {
+  it('follows Kepler\'s third law across the belt', () => {
+    const belt = BELTS.main;
+    expect(getBeltPeriod(belt, belt.inner)).toBe(belt.innerPeriod);
+    expect(getBeltPeriod(belt, belt.inner * 4)).toBeCloseTo(belt.innerPeriod * 8, 10);
+  });
+
+  it('scatters every particle within its shell and the belt', () => {
+    const belt = BELTS.main;
+    const shells = createBeltShells(belt, createRandom(42));
+    expect(shells).toHaveLength(belt.shells);
+    expect(shells.reduce((total, shell) => total + shell.particles.length, 0)).toBe(belt.count);
+
+    const width = (belt.outer - belt.inner) / belt.shells;
+    shells.forEach(shell => {
+      shell.particles.forEach(particle => {
+        const distance = Math.hypot(particle.x - shell.radius, particle.y - shell.radius);
+        expect(distance).toBeGreaterThanOrEqual(shell.radius - width - 1e-9);
+        expect(distance).toBeLessThanOrEqual(shell.radius + 1e-9);
+        expect(belt.colors).toContain(particle.color);
+      });
+    });
+  });
+
+  it('turns inner shells faster than outer ones', () => {
+    const shells = createBeltShells(BELTS.kuiper, createRandom(7));
+    shells.slice(1).forEach((shell, index) => {
+      expect(shell.period).toBeGreaterThan(shells[index].period);
+    });
+  });
+
+  it('keeps the main belt between Mars and Jupiter, and the Kuiper belt past Neptune', () => {
+    expect(BELTS.main.inner).toBeGreaterThan(85);
+    expect(BELTS.main.outer).toBeLessThan(115);
+    expect(BELTS.kuiper.inner).toBeGreaterThan(190);
+  });
+});
+
+describe('comets', () => {
+  it('grows the tail to full length at perihelion and shrinks it towards aphelion', () => {
+    const halley = COMETS[0];
+    const perihelion = halley.distance * (1 - halley.eccentricity);
+    const aphelion = halley.distance * (1 + halley.eccentricity);
+    expect(getTailScale(halley, perihelion)).toBeCloseTo(1, 10);
+    expect(getTailScale(halley, perihelion * 2)).toBeCloseTo(0.25, 10);
+    expect(getTailScale(halley, aphelion)).toBeLessThan(0.01);
+  });
+
+  it('keeps every perihelion clear of the Sun\'s glow', () => {
+    COMETS.forEach(comet => {
+      const {x, y} = getOrbitPosition(comet, 0);
+      expect(Math.hypot(x, y)).toBeGreaterThan(25);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {describe, expect, it} from '@jest/globals';
+import {PLANETS} from '../src/astronomy/bodies';
+import {PLANET_ELEMENTS} from '../src/astronomy/ephemeris';
+
+describe('bodies', () => {
+  it('lists every planet the ephemeris knows, from the Sun outwards', () => {
+    expect(PLANETS.map(planet => planet.name)).toEqual(Object.keys(PLANET_ELEMENTS));
+    PLANETS.slice(1).forEach((planet, index) => {
+      expect(planet.distance).toBeGreaterThan(PLANETS[index].distance);
+    });
+  });
+
+  it('keeps satellites clear of their planet, its rings and each other', () => {
+    PLANETS.forEach(planet => {
+      const ringEdge = Math.max(0, ...(planet.rings?.bands ?? []).map(band => band.outer));
+      let inner = (planet.size / 2) * Math.max(1, ringEdge);
+      planet.satellites.forEach(satellite => {
+        expect(satellite.distance - satellite.size / 2).toBeGreaterThan(inner);
+        inner = satellite.distance + satellite.size / 2;
+      });
+    });
+  });
+
+  it('carries the major moons', () => {
+    const moons = Object.fromEntries(
+      PLANETS.map(planet => [planet.name, planet.satellites.map(satellite => satellite.name)]),
+    );
+    expect(moons.Earth).toEqual(['Moon']);
+    expect(moons.Jupiter).toEqual(['Io', 'Europa', 'Ganymede', 'Callisto']);
+    expect(moons.Saturn).toEqual(['Titan']);
+    expect(moons.Neptune).toEqual(['Triton']);
+  });
+
+  it('gives Saturn and Uranus rings that sit outside the disc', () => {
+    expect(PLANETS.filter(planet => planet.rings).map(planet => planet.name)).toEqual([
+      'Saturn',
+      'Uranus',
+    ]);
+    PLANETS.forEach(planet =>
+      planet.rings?.bands.forEach(band => {
+        expect(band.inner).toBeGreaterThan(1);
+        expect(band.outer).toBeGreaterThan(band.inner);
+      }),
+    );
+  });
+
+  it('sends Triton round backwards', () => {
+    const neptune = PLANETS.find(planet => planet.name === 'Neptune');
+    expect(neptune?.satellites[0].speed).toBeLessThan(0);
+  });
+});
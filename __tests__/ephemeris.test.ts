@@ -0,0 +1,65 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  PLANET_ELEMENTS,
+  PlanetName,
+  getHeliocentricPosition,
+  getJulianDate,
+  solveKepler,
+} from '../src/astronomy/ephemeris';
+
+// Smallest difference between two angles in degrees
+const angleBetween = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % 360;
+  return Math.min(difference, 360 - difference);
+};
+
+// Refer a longitude for the equinox of date to the J2000 equinox the
+// elements use, adding the general precession since then (5029.0966" per century)
+const toJ2000 = (longitude: number, date: Date): number =>
+  longitude - ((getJulianDate(date) - 2451545) / 36525) * (5029.0966 / 3600);
+
+describe('ephemeris', () => {
+  it('converts dates to Julian dates', () => {
+    expect(getJulianDate(new Date(Date.UTC(2000, 0, 1, 12)))).toBe(2451545);
+    // Meeus, Astronomical Algorithms, example 7.a: 1957 October 4.81
+    expect(getJulianDate(new Date(Date.UTC(1957, 9, 4, 19, 26, 24)))).toBeCloseTo(2436116.31, 5);
+  });
+
+  it("solves Kepler's equation", () => {
+    // Meeus example 30.a: M = 5°, e = 0.1 gives E = 5.554589°
+    const E = solveKepler((5 * Math.PI) / 180, 0.1);
+    expect((E * 180) / Math.PI).toBeCloseTo(5.554589, 5);
+    // Highly eccentric orbits converge too
+    const M = 0.2;
+    const eccentric = solveKepler(M, 0.97);
+    expect(eccentric - 0.97 * Math.sin(eccentric)).toBeCloseTo(M, 10);
+  });
+
+  it('matches reference positions', () => {
+    // Meeus example 32.a (VSOP87): Venus on 1992 December 20 at 0h
+    const venusDate = new Date(Date.UTC(1992, 11, 20));
+    const venus = getHeliocentricPosition('Venus', venusDate);
+    expect(angleBetween(venus.longitude, toJ2000(26.11428, venusDate))).toBeLessThan(0.02);
+    expect(venus.latitude).toBeCloseTo(-2.6207, 1);
+    expect(venus.distance).toBeCloseTo(0.724603, 3);
+
+    // Meeus example 25.b (VSOP87): Earth on 1992 October 13 at 0h
+    const earthDate = new Date(Date.UTC(1992, 9, 13));
+    const earth = getHeliocentricPosition('Earth', earthDate);
+    expect(angleBetween(earth.longitude, toJ2000(19.907372, earthDate))).toBeLessThan(0.02);
+    expect(earth.distance).toBeCloseTo(0.99760775, 3);
+  });
+
+  it('keeps every planet near its known distance from the Sun', () => {
+    const date = new Date(Date.UTC(2026, 9, 19));
+    (Object.keys(PLANET_ELEMENTS) as PlanetName[]).forEach(planet => {
+      const [a] = PLANET_ELEMENTS[planet].semiMajorAxis;
+      const [e] = PLANET_ELEMENTS[planet].eccentricity;
+      const {distance, longitude} = getHeliocentricPosition(planet, date);
+      expect(distance).toBeGreaterThanOrEqual(a * (1 - e) - 0.01);
+      expect(distance).toBeLessThanOrEqual(a * (1 + e) + 0.01);
+      expect(longitude).toBeGreaterThanOrEqual(0);
+      expect(longitude).toBeLessThan(360);
+    });
+  });
+});
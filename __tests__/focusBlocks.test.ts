@@ -0,0 +1,86 @@
+import {describe, expect, it} from '@jest/globals';
+import {IcsEvent} from '../src/calendar/ics';
+import {
+  FocusBlock,
+  eventsToFocusBlocks,
+  getDueBlock,
+  getUnsupportedRepeats,
+  hasTag,
+  mergeFocusBlocks,
+} from '../src/calendar/focusBlocks';
+
+const HOUR = 60 * 60 * 1000;
+
+const event = (overrides: Partial<IcsEvent>): IcsEvent => ({
+  uid: 'event',
+  summary: 'Event',
+  description: '',
+  categories: [],
+  start: 10 * HOUR,
+  end: 11 * HOUR,
+  allDay: false,
+  ...overrides,
+});
+
+const block = (overrides: Partial<FocusBlock>): FocusBlock => ({
+  id: 'block',
+  title: 'Block',
+  startsAt: 10 * HOUR,
+  endsAt: 11 * HOUR,
+  started: false,
+  ...overrides,
+});
+
+describe('focusBlocks', () => {
+  it('matches tags in categories and as hashtags', () => {
+    expect(hasTag(event({categories: ['Focus']}), 'focus')).toBe(true);
+    expect(hasTag(event({summary: 'Write #focus'}), '#Focus')).toBe(true);
+    expect(hasTag(event({description: 'Plan\n#focus'}), 'focus')).toBe(true);
+    expect(hasTag(event({summary: 'Write #focused'}), 'focus')).toBe(false);
+    expect(hasTag(event({summary: 'Focus time'}), 'focus')).toBe(false);
+  });
+
+  it('turns tagged, timed events into focus blocks', () => {
+    const blocks = eventsToFocusBlocks(
+      [
+        event({uid: 'a', summary: 'Report #focus'}),
+        event({uid: 'b', summary: 'Lunch'}),
+        event({uid: 'c', summary: 'Offsite #focus', allDay: true}),
+      ],
+      'focus',
+    );
+    expect(blocks).toEqual([
+      {id: 'a', title: 'Report #focus', startsAt: 10 * HOUR, endsAt: 11 * HOUR, started: false},
+    ]);
+  });
+
+  it('reports tagged repeats it cannot schedule instead of scheduling them', () => {
+    const events = [
+      event({uid: 'a', summary: 'Review #focus', unsupportedRule: 'FREQ=MONTHLY'}),
+      event({uid: 'b', summary: 'Rent', unsupportedRule: 'FREQ=MONTHLY'}),
+    ];
+    expect(eventsToFocusBlocks(events, 'focus')).toEqual([]);
+    expect(getUnsupportedRepeats(events, 'focus')).toEqual(['Review #focus']);
+  });
+
+  it('replaces re-imported blocks and drops finished ones', () => {
+    const merged = mergeFocusBlocks(
+      [
+        block({id: 'a', started: true}),
+        block({id: 'old', startsAt: HOUR, endsAt: 2 * HOUR}),
+      ],
+      [block({id: 'a', title: 'Renamed'}), block({id: 'b', startsAt: 9 * HOUR})],
+      5 * HOUR,
+    );
+    expect(merged.map(b => b.id)).toEqual(['b', 'a']);
+    expect(merged[1]).toMatchObject({title: 'Renamed', started: true});
+  });
+
+  it('finds the block that has begun and not started yet', () => {
+    const blocks = [block({id: 'a', started: true}), block({id: 'b', startsAt: 10.5 * HOUR})];
+    expect(getDueBlock(blocks, 9 * HOUR)).toBeNull();
+    expect(getDueBlock(blocks, 10.25 * HOUR)).toBeNull();
+    expect(getDueBlock(blocks, 10.5 * HOUR)?.id).toBe('b');
+    expect(getDueBlock(blocks, 11 * HOUR)).toBeNull();
+  });
+});
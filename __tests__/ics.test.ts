@@ -0,0 +1,192 @@
+import {describe, expect, it} from '@jest/globals';
+import {IcsEvent, parseIcs, writeIcs} from '../src/calendar/ics';
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('ics', () => {
+  it('parses events with UTC times, escaped text and categories', () => {
+    const [event] = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:abc@example.com',
+        'DTSTART:20240105T083000Z',
+        'DTEND:20240105T100000Z',
+        'SUMMARY:Write report\\, part 1',
+        'DESCRIPTION:Line one\\nLine two',
+        'CATEGORIES:Work,Focus',
+        'END:VEVENT',
+      ),
+    );
+    expect(event).toEqual({
+      uid: 'abc@example.com',
+      summary: 'Write report, part 1',
+      description: 'Line one\nLine two',
+      categories: ['Work', 'Focus'],
+      start: Date.UTC(2024, 0, 5, 8, 30),
+      end: Date.UTC(2024, 0, 5, 10, 0),
+      allDay: false,
+    });
+  });
+
+  it('unfolds continuation lines and ignores nested components', () => {
+    const [event] = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:1',
+        'DTSTART:20240105T083000Z',
+        'DURATION:PT1H30M',
+        'SUMMARY:Deep',
+        '  work',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+      ),
+    );
+    expect(event.summary).toBe('Deep work');
+    expect(event.description).toBe('');
+    expect(event.end).toBe(Date.UTC(2024, 0, 5, 10, 0));
+  });
+
+  it('converts TZID times to UTC', () => {
+    const [event] = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:1',
+        'DTSTART;TZID="America/New_York":20240705T090000',
+        'DTEND;TZID=America/New_York:20240705T100000',
+        'END:VEVENT',
+      ),
+    );
+    expect(event.start).toBe(Date.UTC(2024, 6, 5, 13, 0));
+    expect(event.end).toBe(Date.UTC(2024, 6, 5, 14, 0));
+  });
+
+  it('reads all-day events and skips events without a start', () => {
+    const events = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:1',
+        'DTSTART;VALUE=DATE:20240105',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:2',
+        'SUMMARY:No start',
+        'END:VEVENT',
+      ),
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0].allDay).toBe(true);
+    expect(events[0].end - events[0].start).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('expands daily and weekly rules with COUNT, UNTIL and EXDATE', () => {
+    const daily = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:daily',
+        'DTSTART:20240105T083000Z',
+        'DTEND:20240105T100000Z',
+        'RRULE:FREQ=DAILY;INTERVAL=2;COUNT=3',
+        'EXDATE:20240107T083000Z',
+        'END:VEVENT',
+      ),
+    );
+    expect(daily.map(event => [event.uid, event.start, event.end])).toEqual([
+      [`daily#${Date.UTC(2024, 0, 5, 8, 30)}`, Date.UTC(2024, 0, 5, 8, 30), Date.UTC(2024, 0, 5, 10)],
+      [`daily#${Date.UTC(2024, 0, 9, 8, 30)}`, Date.UTC(2024, 0, 9, 8, 30), Date.UTC(2024, 0, 9, 10)],
+    ]);
+
+    // Mondays and Wednesdays, starting Monday 1 July
+    const weekly = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'DTSTART:20240701T090000Z',
+        'DURATION:PT1H',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240710',
+        'END:VEVENT',
+      ),
+    );
+    expect(weekly.map(event => new Date(event.start).getUTCDate())).toEqual([1, 3, 8, 10]);
+  });
+
+  it('keeps the wall-clock time of TZID repeats across DST', () => {
+    const events = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:1',
+        'DTSTART;TZID=America/New_York:20240308T090000',
+        'DURATION:PT1H',
+        'RRULE:FREQ=DAILY;COUNT=3',
+        'END:VEVENT',
+      ),
+    );
+    expect(events.map(event => event.start)).toEqual([
+      Date.UTC(2024, 2, 8, 14),
+      Date.UTC(2024, 2, 9, 14),
+      Date.UTC(2024, 2, 10, 13),
+    ]);
+  });
+
+  it('replaces moved occurrences and stops open-ended rules at the horizon', () => {
+    const events = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:1',
+        'DTSTART:20240101T090000Z',
+        'DURATION:PT1H',
+        'RRULE:FREQ=WEEKLY',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:1',
+        'RECURRENCE-ID:20240108T090000Z',
+        'DTSTART:20240109T150000Z',
+        'DURATION:PT1H',
+        'END:VEVENT',
+      ),
+      Date.UTC(2024, 0, 20),
+    );
+    expect(events.map(event => event.start).sort((a, b) => a - b)).toEqual([
+      Date.UTC(2024, 0, 1, 9),
+      Date.UTC(2024, 0, 9, 15),
+      Date.UTC(2024, 0, 15, 9),
+    ]);
+    expect(events.find(event => event.start === Date.UTC(2024, 0, 9, 15))?.uid).toBe(
+      `1#${Date.UTC(2024, 0, 8, 9)}`,
+    );
+  });
+
+  it('reads events with unsupported rules once and flags them', () => {
+    const events = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:1',
+        'DTSTART:20240105T083000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=1FR',
+        'END:VEVENT',
+      ),
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0].unsupportedRule).toBe('FREQ=MONTHLY;BYDAY=1FR');
+  });
+
+  it('writes events that parse back to the same values', () => {
+    const event: IcsEvent = {
+      uid: 'session-1@motivation-watch',
+      summary: 'Focus; session, with "quotes"',
+      description: 'A long description '.repeat(10).trim(),
+      categories: ['Focus'],
+      start: Date.UTC(2024, 0, 5, 8, 30),
+      end: Date.UTC(2024, 0, 5, 8, 55),
+      allDay: false,
+    };
+    const ics = writeIcs([event], Date.UTC(2024, 0, 6));
+
+    expect(ics).toContain('DTSTART:20240105T083000Z\r\n');
+    expect(ics).toContain('DTSTAMP:20240106T000000Z\r\n');
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+    expect(parseIcs(ics)).toEqual([event]);
+  });
+});
@@ -0,0 +1,110 @@
+import {afterEach, describe, expect, it, jest} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  EMPTY_MUSIC_LIBRARY,
+  LibraryTrack,
+  PlaylistTrack,
+  RESTART_THRESHOLD_SECONDS,
+  clampGain,
+  createLibraryTrack,
+  getNextPosition,
+  getPlayOrder,
+  getPlaylist,
+  getSkipPosition,
+  getTrackVolume,
+  loadMusicLibrary,
+  moveTrack,
+  saveMusicLibrary,
+} from '../src/audio/musicLibrary';
+import {installNativeStorage} from '../src/utils/nativeStorage';
+import {setStorageBackend} from '../src/utils/storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const track = (id: string, mood: 'focus' | 'break'): LibraryTrack => ({
+  ...createLibraryTrack(id, `uri-${id}`, mood, 0),
+  id,
+});
+
+const bundled: PlaylistTrack[] = [
+  {id: 'b1', title: 'Bundled', artist: 'Deep Zen', source: 1, gainDb: 0, imported: false},
+];
+
+describe('musicLibrary', () => {
+  it('plays imported tracks for a session type, or the bundled ones without any', () => {
+    const tracks = [track('a', 'focus'), track('b', 'focus')];
+    expect(getPlaylist(tracks, 'focus', bundled).map(t => t.id)).toEqual(['a', 'b']);
+    expect(getPlaylist(tracks, 'focus', bundled)[0]).toMatchObject({
+      source: 'uri-a',
+      imported: true,
+    });
+    expect(getPlaylist(tracks, 'break', bundled)).toBe(bundled);
+  });
+
+  it('moves tracks within their own playlist', () => {
+    const tracks = [track('a', 'focus'), track('b', 'break'), track('c', 'focus')];
+    expect(moveTrack(tracks, 'c', -1).map(t => t.id)).toEqual(['c', 'b', 'a']);
+    expect(moveTrack(tracks, 'a', -1)).toBe(tracks);
+    expect(moveTrack(tracks, 'b', 1)).toBe(tracks);
+    expect(moveTrack(tracks, 'missing', 1)).toBe(tracks);
+  });
+
+  it('applies gain in decibels and clamps it', () => {
+    expect(getTrackVolume(0.5, 0)).toBeCloseTo(0.5);
+    expect(getTrackVolume(0.5, 6)).toBeCloseTo(0.998, 2);
+    expect(getTrackVolume(0.5, -6)).toBeCloseTo(0.25, 2);
+    expect(getTrackVolume(0.8, 6)).toBe(1);
+    expect(clampGain(-20)).toBe(-12);
+    expect(clampGain(9)).toBe(6);
+  });
+
+  it('shuffles the play order with the random source', () => {
+    expect(getPlayOrder(4, false)).toEqual([0, 1, 2, 3]);
+    const shuffled = getPlayOrder(4, true, () => 0);
+    expect(shuffled).toEqual([1, 2, 3, 0]);
+    expect([...shuffled].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('picks the next position for each repeat mode', () => {
+    expect(getNextPosition(0, 3, 'off')).toBe(1);
+    expect(getNextPosition(2, 3, 'off')).toBeNull();
+    expect(getNextPosition(2, 3, 'all')).toBe(0);
+    expect(getNextPosition(1, 3, 'one')).toBe(1);
+    expect(getNextPosition(0, 0, 'all')).toBeNull();
+  });
+
+  it('skips tracks with wrap-around and restarts the current one when well into it', () => {
+    expect(getSkipPosition(2, 3, 'next')).toBe(0);
+    expect(getSkipPosition(0, 3, 'previous')).toBe(2);
+    expect(getSkipPosition(1, 3, 'previous', RESTART_THRESHOLD_SECONDS)).toBe(0);
+    expect(getSkipPosition(1, 3, 'previous', RESTART_THRESHOLD_SECONDS + 1)).toBe(1);
+    expect(getSkipPosition(0, 0, 'next')).toBe(0);
+  });
+
+  it('starts the music at a moderate volume', () => {
+    expect(EMPTY_MUSIC_LIBRARY.volume).toBe(0.3);
+  });
+});
+
+describe('musicLibrary on native', () => {
+  afterEach(() => {
+    setStorageBackend(null);
+  });
+
+  it('keeps imported tracks in device storage across a restart', async () => {
+    await AsyncStorage.clear();
+    await installNativeStorage();
+    expect(loadMusicLibrary()).toEqual(EMPTY_MUSIC_LIBRARY);
+    saveMusicLibrary({...EMPTY_MUSIC_LIBRARY, tracks: [track('a', 'focus')], shuffle: true});
+
+    // Let the background write land, then relaunch
+    await new Promise(resolve => setTimeout(resolve, 0));
+    setStorageBackend(null);
+    await installNativeStorage();
+    const library = loadMusicLibrary();
+    expect(library.tracks.map(t => t.uri)).toEqual(['uri-a']);
+    expect(library.shuffle).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  GAPLESS_LEAD_SECONDS,
+  getFadeVolume,
+  getMusicMood,
+  getTrackCrossfadeProgress,
+  shouldPlayMusic,
+} from '../src/audio/musicSession';
+
+describe('musicSession', () => {
+  it('plays the focus playlist for work and the break playlist for any break', () => {
+    expect(getMusicMood('work')).toBe('focus');
+    expect(getMusicMood('break')).toBe('break');
+    expect(getMusicMood('longBreak')).toBe('break');
+  });
+
+  it('follows the timer only when music should pause while idle', () => {
+    expect(shouldPlayMusic(true, 'idle', false)).toBe(true);
+    expect(shouldPlayMusic(true, 'paused', false)).toBe(true);
+    expect(shouldPlayMusic(false, 'running', false)).toBe(false);
+
+    expect(shouldPlayMusic(true, 'running', true)).toBe(true);
+    expect(shouldPlayMusic(true, 'paused', true)).toBe(false);
+    expect(shouldPlayMusic(true, 'idle', true)).toBe(false);
+    expect(shouldPlayMusic(true, 'ready', true)).toBe(false);
+  });
+
+  it('fades between volumes with equal power at the midpoint', () => {
+    expect(getFadeVolume(0, 0.8, 0)).toBe(0);
+    expect(getFadeVolume(0, 0.8, 1)).toBeCloseTo(0.8);
+    expect(getFadeVolume(0.8, 0, 1)).toBeCloseTo(0);
+
+    const incoming = getFadeVolume(0, 1, 0.5);
+    const outgoing = getFadeVolume(1, 0, 0.5);
+    expect(incoming ** 2 + outgoing ** 2).toBeCloseTo(1);
+  });
+
+  it('clamps progress and volume', () => {
+    expect(getFadeVolume(0.2, 0.6, 2)).toBeCloseTo(0.6);
+    expect(getFadeVolume(0.2, 0.6, -1)).toBeCloseTo(0.2);
+    expect(getFadeVolume(0.5, 1.5, 1)).toBe(1);
+  });
+
+  it('crossfades into the next track over the last seconds of the current one', () => {
+    expect(getTrackCrossfadeProgress(100, 200, 10)).toBe(0);
+    expect(getTrackCrossfadeProgress(190, 200, 10)).toBe(0);
+    expect(getTrackCrossfadeProgress(195, 200, 10)).toBeCloseTo(0.5);
+    expect(getTrackCrossfadeProgress(200, 200, 10)).toBe(1);
+  });
+
+  it('keeps a short overlap when gapless and limits the crossfade on short tracks', () => {
+    expect(getTrackCrossfadeProgress(200 - GAPLESS_LEAD_SECONDS / 2, 200, 0)).toBeCloseTo(0.5);
+    expect(getTrackCrossfadeProgress(5, 8, 10)).toBeCloseTo(0.25);
+    expect(getTrackCrossfadeProgress(5, 0, 10)).toBe(0);
+    expect(getTrackCrossfadeProgress(5, NaN, 10)).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {installNativeStorage} from '../src/utils/nativeStorage';
+import {loadItem, saveItem, setStorageBackend} from '../src/utils/storage';
+import {loadTimerSnapshot, saveTimerSnapshot} from '../src/timer/timerPersistence';
+import {PomodoroSnapshot} from '../src/timer/pomodoroEngine';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// Let the background AsyncStorage writes land
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const RUNNING: PomodoroSnapshot = {
+  sessionType: 'work',
+  timerState: 'running',
+  sessionDuration: 25,
+  timeRemaining: 1500,
+  endsAt: 1_700_000_000_000,
+  startedAt: 1_699_999_000_000,
+  extendedBy: 0,
+  interruptions: [],
+  completedSessions: 2,
+  cycleCount: 2,
+  segmentIndex: 0,
+  countUp: false,
+  timeElapsed: 0,
+  countedFrom: null,
+  laps: [],
+};
+
+describe('nativeStorage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await installNativeStorage();
+  });
+
+  afterEach(() => {
+    setStorageBackend(null);
+  });
+
+  it('keeps saved items across a restart', async () => {
+    saveItem('answer', {value: 42});
+    expect(loadItem('answer')).toEqual({value: 42});
+    await flushWrites();
+
+    // A relaunch starts with nothing in memory and loads from device storage
+    setStorageBackend(null);
+    expect(loadItem('answer')).toBeNull();
+    await installNativeStorage();
+    expect(loadItem('answer')).toEqual({value: 42});
+  });
+
+  it('resumes a running session after the app restarts', async () => {
+    saveTimerSnapshot(RUNNING);
+    await flushWrites();
+    await installNativeStorage();
+    expect(loadTimerSnapshot()).toEqual(RUNNING);
+
+    // Going idle clears the stored session on the device too
+    saveTimerSnapshot({...RUNNING, timerState: 'idle', endsAt: null, startedAt: null});
+    await flushWrites();
+    await installNativeStorage();
+    expect(loadTimerSnapshot()).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  OrbitShape,
+  getOrbitEllipse,
+  getOrbitPoint,
+  getOrbitPosition,
+  getPerihelionLongitude,
+  getTrueAnomaly,
+} from '../src/astronomy/orbit';
+
+const MERCURY: OrbitShape = {
+  distance: 40,
+  eccentricity: 0.206,
+  perihelionArgument: 29.1,
+  ascendingNode: 48.3,
+};
+
+const distanceFromSun = ({x, y}: {x: number; y: number}) => Math.sqrt(x * x + y * y);
+
+describe('orbit', () => {
+  it('matches circular motion when the eccentricity is 0', () => {
+    const circle = {...MERCURY, eccentricity: 0};
+    expect(getTrueAnomaly(1.2, 0)).toBeCloseTo(1.2, 10);
+    const point = getOrbitPosition(circle, 1);
+    const longitude = getPerihelionLongitude(circle) + 1;
+    expect(point.x).toBeCloseTo(Math.cos(longitude) * 40, 10);
+    expect(point.y).toBeCloseTo(-Math.sin(longitude) * 40, 10);
+  });
+
+  it('is closest to the Sun at perihelion and farthest at aphelion', () => {
+    const a = MERCURY.distance;
+    const e = MERCURY.eccentricity;
+    expect(distanceFromSun(getOrbitPosition(MERCURY, 0))).toBeCloseTo(a * (1 - e), 10);
+    expect(distanceFromSun(getOrbitPosition(MERCURY, Math.PI))).toBeCloseTo(a * (1 + e), 10);
+  });
+
+  it('points perihelion along the longitude of perihelion, counterclockwise on screen', () => {
+    const perihelion = getOrbitPosition(MERCURY, 0);
+    expect(Math.atan2(-perihelion.y, perihelion.x)).toBeCloseTo(((29.1 + 48.3) * Math.PI) / 180, 10);
+    // A little later the body is further round, which is upwards on screen from the x axis
+    const circle = {...MERCURY, perihelionArgument: 0, ascendingNode: 0};
+    expect(getOrbitPosition(circle, 0.1).y).toBeLessThan(0);
+  });
+
+  it('sweeps faster near perihelion than near aphelion', () => {
+    const step = 0.01;
+    const sweep = (meanAnomaly: number) =>
+      getTrueAnomaly(meanAnomaly + step, MERCURY.eccentricity) -
+      getTrueAnomaly(meanAnomaly, MERCURY.eccentricity);
+    expect(sweep(0)).toBeGreaterThan(step);
+    expect(sweep(Math.PI - step / 2)).toBeLessThan(step);
+    expect(sweep(0) / sweep(Math.PI - step / 2)).toBeCloseTo(((1 + 0.206) / (1 - 0.206)) ** 2, 2);
+  });
+
+  it('places fixed longitudes on the same ellipse the body travels', () => {
+    const moving = getOrbitPosition(MERCURY, 2);
+    const longitude = Math.atan2(-moving.y, moving.x);
+    const fixed = getOrbitPoint(MERCURY, longitude);
+    expect(fixed.x).toBeCloseTo(moving.x, 8);
+    expect(fixed.y).toBeCloseTo(moving.y, 8);
+  });
+
+  it('draws the ellipse around the orbit with the Sun at a focus', () => {
+    const ellipse = getOrbitEllipse(MERCURY);
+    const a = ellipse.width / 2;
+    const b = ellipse.height / 2;
+    expect(a).toBe(40);
+    expect(b).toBeCloseTo(40 * Math.sqrt(1 - 0.206 ** 2), 10);
+
+    // Every point on the orbit satisfies the ellipse equation in its own frame
+    [0, 1, 2.5, 4].forEach(meanAnomaly => {
+      const {x, y} = getOrbitPosition(MERCURY, meanAnomaly);
+      const dx = x - ellipse.centerX;
+      const dy = y - ellipse.centerY;
+      const u = dx * Math.cos(ellipse.rotation) + dy * Math.sin(ellipse.rotation);
+      const v = -dx * Math.sin(ellipse.rotation) + dy * Math.cos(ellipse.rotation);
+      expect((u / a) ** 2 + (v / b) ** 2).toBeCloseTo(1, 8);
+    });
+  });
+});
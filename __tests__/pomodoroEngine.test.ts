@@ -0,0 +1,567 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  PomodoroEvent,
+  PomodoroState,
+  createInitialState,
+  formatStopwatch,
+  formatTime,
+  getCurrentSegment,
+  getEarnedBreak,
+  getCycleProgress,
+  getSnapshot,
+  pomodoroReducer,
+} from '../src/timer/pomodoroEngine';
+import {IntervalProgram} from '../src/timer/intervalPrograms';
+
+const MINUTE = 60 * 1000;
+
+const config = (
+  workDuration: number,
+  breakDuration: number,
+  longBreakDuration = 15,
+  sessionsBeforeLongBreak = 4,
+  autoStart = true,
+) => ({
+  workDuration,
+  breakDuration,
+  longBreakDuration,
+  sessionsBeforeLongBreak,
+  autoStartBreaks: autoStart,
+  autoStartWork: autoStart,
+  program: null as IntervalProgram | null,
+  flowtime: false,
+  flowtimeBreakRatio: 0.2,
+});
+
+const program: IntervalProgram = {
+  id: 'test-program',
+  name: 'Warm-up',
+  segments: [
+    {id: 'warm-up', label: 'Warm-up', type: 'work', duration: 1, color: '#DAA520'},
+    {id: 'focus', label: 'Focus', type: 'work', duration: 2, color: '#4169E1'},
+    {id: 'rest', label: 'Rest', type: 'break', duration: 1, color: '#4CAF50'},
+  ],
+};
+
+/**
+ * Fake clock: replays events against the reducer while advancing time
+ * by hand, so session transitions can be checked without real timers.
+ */
+const createFakeClock = (state: PomodoroState, start = 0) => {
+  let now = start;
+  let current = state;
+  return {
+    dispatch(event: PomodoroEvent) {
+      current = pomodoroReducer(current, event);
+      return current;
+    },
+    advance(ms: number, step = 100) {
+      const target = now + ms;
+      while (now < target) {
+        now = Math.min(now + step, target);
+        current = pomodoroReducer(current, {type: 'tick', now});
+      }
+      return current;
+    },
+    now: () => now,
+    get state() {
+      return current;
+    },
+  };
+};
+
+describe('pomodoroEngine', () => {
+  it('starts idle with the configured work duration', () => {
+    const state = createInitialState(config(25, 5));
+    expect(state.timerState).toBe('idle');
+    expect(state.sessionType).toBe('work');
+    expect(state.timeRemaining).toBe(25 * 60);
+  });
+
+  it('counts down while running and holds while paused', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(MINUTE);
+    expect(clock.state.timeRemaining).toBeCloseTo(24 * 60);
+
+    clock.dispatch({type: 'pause', now: clock.now()});
+    clock.advance(5 * MINUTE);
+    expect(clock.state.timerState).toBe('paused');
+    expect(clock.state.timeRemaining).toBeCloseTo(24 * 60);
+
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(MINUTE);
+    expect(clock.state.timeRemaining).toBeCloseTo(23 * 60);
+  });
+
+  it('rolls work → break → work and keeps running', () => {
+    const clock = createFakeClock(createInitialState(config(2, 1)));
+    clock.dispatch({type: 'start', now: clock.now()});
+
+    clock.advance(2 * MINUTE);
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.timerState).toBe('running');
+    expect(clock.state.timeRemaining).toBe(60);
+    expect(clock.state.completedSessions).toBe(1);
+
+    clock.advance(MINUTE);
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.timeRemaining).toBe(2 * 60);
+    expect(clock.state.completedSessions).toBe(2);
+  });
+
+  it('applies duration changes to the next session only', () => {
+    const clock = createFakeClock(createInitialState(config(2, 1)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.dispatch({type: 'configure', config: config(10, 3)});
+    expect(clock.state.timeRemaining).toBe(2 * 60);
+
+    clock.advance(2 * MINUTE);
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.sessionDuration).toBe(3);
+  });
+
+  it('updates the display immediately when idle', () => {
+    const state = pomodoroReducer(createInitialState(config(25, 5)), {
+      type: 'configure',
+      config: config(50, 10),
+    });
+    expect(state.timeRemaining).toBe(50 * 60);
+  });
+
+  it('resets back to an idle work session', () => {
+    const clock = createFakeClock(createInitialState(config(1, 1)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(MINUTE + 500);
+    clock.dispatch({type: 'reset', now: clock.now()});
+    expect(clock.state.timerState).toBe('idle');
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.timeRemaining).toBe(60);
+    expect(clock.state.completedSessions).toBe(0);
+  });
+
+  it('skips to the next session on demand', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.dispatch({type: 'skip', now: clock.now()});
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.timeRemaining).toBe(5 * 60);
+  });
+
+  it('does not count a session skipped while running as completed', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5, 15, 2)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.dispatch({type: 'skip', now: clock.now()});
+    clock.dispatch({type: 'skip', now: clock.now()});
+    expect(clock.state.completedSessions).toBe(0);
+    expect(clock.state.cycleCount).toBe(0);
+
+    // Skipped work earns no long break
+    clock.dispatch({type: 'skip', now: clock.now()});
+    expect(clock.state.sessionType).toBe('break');
+  });
+
+  it('does not count a session skipped while ready as completed', () => {
+    const clock = createFakeClock(createInitialState(config(1, 5, 15, 2, false)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(MINUTE);
+    expect(clock.state.timerState).toBe('ready');
+    expect(clock.state.completedSessions).toBe(1);
+    expect(clock.state.cycleCount).toBe(1);
+
+    // Skip the break, then the work session waiting after it
+    clock.dispatch({type: 'skip', now: clock.now()});
+    clock.dispatch({type: 'skip', now: clock.now()});
+    expect(clock.state.completedSessions).toBe(1);
+    expect(clock.state.cycleCount).toBe(1);
+    expect(clock.state.sessionType).toBe('break');
+  });
+
+  it('runs a focus session until the given end instead of the work length', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(25 * MINUTE);
+    expect(clock.state.sessionType).toBe('break');
+
+    // A 90 minute focus block starting during the break
+    clock.dispatch({type: 'startFocus', endsAt: clock.now() + 90 * MINUTE, now: clock.now()});
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.timerState).toBe('running');
+    expect(clock.state.sessionDuration).toBe(90);
+    expect(clock.state.log.map(record => record.outcome)).toEqual(['completed', 'reset']);
+
+    clock.advance(90 * MINUTE);
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.log[2].plannedDuration).toBe(90 * 60);
+  });
+
+  it('stays anchored to the end timestamp when ticks are throttled', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+    expect(clock.state.endsAt).toBe(25 * MINUTE);
+
+    // A single late tick, e.g. after the tab was throttled for 10 minutes
+    clock.advance(10 * MINUTE, 10 * MINUTE);
+    expect(clock.state.timeRemaining).toBe(15 * 60);
+  });
+
+  it('rolls over every session that ended while in the background', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+
+    // Work (25) + break (5) + 10 minutes into the next work session
+    clock.advance(40 * MINUTE, 40 * MINUTE);
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.completedSessions).toBe(2);
+    expect(clock.state.endsAt).toBe(55 * MINUTE);
+    expect(clock.state.timeRemaining).toBe(15 * 60);
+  });
+
+  it('re-anchors the paused remainder on resume', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(5 * MINUTE);
+    clock.dispatch({type: 'pause', now: clock.now()});
+    expect(clock.state.endsAt).toBeNull();
+
+    clock.advance(MINUTE);
+    clock.dispatch({type: 'start', now: clock.now()});
+    expect(clock.state.endsAt).toBe(clock.now() + 20 * MINUTE);
+  });
+
+  it('restores a running session from a snapshot after relaunch', () => {
+    const settings = config(25, 5);
+    const running = pomodoroReducer(createInitialState(settings), {type: 'start', now: 0});
+    const snapshot = getSnapshot(running);
+
+    const restored = pomodoroReducer(createInitialState(settings), {
+      type: 'restore',
+      snapshot,
+      now: 12 * MINUTE,
+    });
+    expect(restored.timerState).toBe('running');
+    expect(restored.endsAt).toBe(25 * MINUTE);
+    expect(restored.timeRemaining).toBe(13 * 60);
+  });
+
+  it('restores a paused session with its remainder', () => {
+    const settings = config(25, 5);
+    let state = pomodoroReducer(createInitialState(settings), {type: 'start', now: 0});
+    state = pomodoroReducer(state, {type: 'pause', now: 5 * MINUTE});
+
+    const restored = pomodoroReducer(createInitialState(settings), {
+      type: 'restore',
+      snapshot: getSnapshot(state),
+      now: 60 * MINUTE,
+    });
+    expect(restored.timerState).toBe('paused');
+    expect(restored.timeRemaining).toBe(20 * 60);
+  });
+
+  it('takes a long break after the configured number of work sessions', () => {
+    const clock = createFakeClock(createInitialState(config(1, 1, 3, 2)));
+    clock.dispatch({type: 'start', now: 0});
+    expect(getCycleProgress(clock.state)).toEqual({current: 1, total: 2});
+
+    clock.advance(MINUTE); // work 1 done
+    expect(clock.state.sessionType).toBe('break');
+    clock.advance(MINUTE); // break done
+    expect(getCycleProgress(clock.state)).toEqual({current: 2, total: 2});
+
+    clock.advance(MINUTE); // work 2 done
+    expect(clock.state.sessionType).toBe('longBreak');
+    expect(clock.state.timeRemaining).toBe(3 * 60);
+    expect(getCycleProgress(clock.state)).toEqual({current: 2, total: 2});
+
+    clock.advance(3 * MINUTE); // long break done, new cycle
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.cycleCount).toBe(0);
+    expect(getCycleProgress(clock.state)).toEqual({current: 1, total: 2});
+  });
+
+  it('restarts the cycle on reset', () => {
+    const clock = createFakeClock(createInitialState(config(1, 1)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(2 * MINUTE);
+    expect(clock.state.cycleCount).toBe(1);
+    clock.dispatch({type: 'reset', now: clock.now()});
+    expect(clock.state.cycleCount).toBe(0);
+  });
+
+  it('logs completed sessions with planned and actual durations', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(30 * MINUTE, 30 * MINUTE);
+
+    expect(clock.state.logCount).toBe(2);
+    expect(clock.state.log).toEqual([
+      {
+        sessionType: 'work',
+        startedAt: 0,
+        endedAt: 25 * MINUTE,
+        plannedDuration: 25 * 60,
+        actualDuration: 25 * 60,
+        outcome: 'completed',
+        extendedBy: 0,
+        interruptions: [],
+      },
+      {
+        sessionType: 'break',
+        startedAt: 25 * MINUTE,
+        endedAt: 30 * MINUTE,
+        plannedDuration: 5 * 60,
+        actualDuration: 5 * 60,
+        outcome: 'completed',
+        extendedBy: 0,
+        interruptions: [],
+      },
+    ]);
+  });
+
+  it('logs skipped and reset sessions with the time actually spent', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(10 * MINUTE);
+    clock.dispatch({type: 'skip', now: clock.now()});
+    clock.advance(2 * MINUTE);
+    clock.dispatch({type: 'reset', now: clock.now()});
+
+    expect(clock.state.log.map(record => [record.outcome, record.actualDuration])).toEqual([
+      ['skipped', 10 * 60],
+      ['reset', 2 * 60],
+    ]);
+    expect(clock.state.logCount).toBe(2);
+  });
+
+  it('does not count paused time towards the actual duration', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(5 * MINUTE);
+    clock.dispatch({type: 'pause', now: clock.now()});
+    clock.advance(30 * MINUTE);
+    clock.dispatch({type: 'reset', now: clock.now()});
+
+    expect(clock.state.log[0].actualDuration).toBe(5 * 60);
+  });
+
+  it('waits in the ready state at each boundary when auto-start is off', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5, 15, 4, false)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(30 * MINUTE, 30 * MINUTE);
+
+    expect(clock.state.timerState).toBe('ready');
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.timeRemaining).toBe(5 * 60);
+    expect(clock.state.endsAt).toBeNull();
+    expect(clock.state.completedSessions).toBe(1);
+
+    clock.dispatch({type: 'start', now: clock.now()});
+    expect(clock.state.timerState).toBe('running');
+    expect(clock.state.startedAt).toBe(30 * MINUTE);
+    expect(clock.state.endsAt).toBe(35 * MINUTE);
+  });
+
+  it('applies the auto-start policy per session type', () => {
+    const settings = {...config(25, 5), autoStartBreaks: true, autoStartWork: false};
+    const clock = createFakeClock(createInitialState(settings));
+    clock.dispatch({type: 'start', now: 0});
+
+    clock.advance(25 * MINUTE);
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.timerState).toBe('running');
+
+    clock.advance(5 * MINUTE);
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.timerState).toBe('ready');
+  });
+
+  it('extends the running session and records the extension', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(20 * MINUTE);
+    clock.dispatch({type: 'extend', minutes: 5, now: clock.now()});
+    expect(clock.state.endsAt).toBe(30 * MINUTE);
+    expect(clock.state.timeRemaining).toBe(10 * 60);
+
+    clock.advance(10 * MINUTE);
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.extendedBy).toBe(0);
+    expect(clock.state.log[0]).toMatchObject({
+      plannedDuration: 25 * 60,
+      actualDuration: 30 * 60,
+      extendedBy: 5 * 60,
+    });
+  });
+
+  it('extends a paused session', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'start', now: 0});
+    clock.dispatch({type: 'pause', now: MINUTE});
+    clock.dispatch({type: 'extend', minutes: 5, now: 2 * MINUTE});
+    expect(clock.state.timeRemaining).toBe(29 * 60);
+  });
+
+  it('records interruptions against the current session only', () => {
+    const clock = createFakeClock(createInitialState(config(25, 5)));
+    clock.dispatch({type: 'interrupt', kind: 'internal', now: 0});
+    expect(clock.state.interruptions).toEqual([]);
+
+    clock.dispatch({type: 'start', now: 0});
+    clock.dispatch({type: 'interrupt', kind: 'internal', now: MINUTE});
+    clock.dispatch({type: 'interrupt', kind: 'external', now: 2 * MINUTE});
+    clock.advance(25 * MINUTE);
+
+    expect(clock.state.interruptions).toEqual([]);
+    expect(clock.state.log[0].interruptions).toEqual([
+      {kind: 'internal', at: MINUTE},
+      {kind: 'external', at: 2 * MINUTE},
+    ]);
+  });
+
+  it('steps through program segments in a loop', () => {
+    const clock = createFakeClock(createInitialState({...config(25, 5), program}));
+    expect(getCurrentSegment(clock.state)?.label).toBe('Warm-up');
+    expect(clock.state.timeRemaining).toBe(60);
+
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(MINUTE);
+    expect(getCurrentSegment(clock.state)?.label).toBe('Focus');
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.timeRemaining).toBe(2 * 60);
+    expect(getCycleProgress(clock.state)).toEqual({current: 2, total: 3});
+
+    clock.advance(2 * MINUTE);
+    expect(getCurrentSegment(clock.state)?.label).toBe('Rest');
+    expect(clock.state.sessionType).toBe('break');
+
+    clock.advance(MINUTE);
+    expect(getCurrentSegment(clock.state)?.label).toBe('Warm-up');
+    expect(clock.state.log.map(record => record.plannedDuration)).toEqual([60, 120, 60]);
+  });
+
+  it('starts a program chosen mid-session after the current session', () => {
+    const clock = createFakeClock(createInitialState(config(2, 1)));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.dispatch({type: 'configure', config: {...config(2, 1), program}});
+    expect(getCurrentSegment(clock.state)).toBeNull();
+    expect(clock.state.timeRemaining).toBe(2 * 60);
+
+    clock.advance(2 * MINUTE);
+    expect(getCurrentSegment(clock.state)?.label).toBe('Warm-up');
+    expect(clock.state.timeRemaining).toBe(60);
+  });
+
+  it('keeps its place in a program across a relaunch', () => {
+    const settings = {...config(25, 5, 15, 4, false), program};
+    const clock = createFakeClock(createInitialState(settings));
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(MINUTE);
+    expect(clock.state.timerState).toBe('ready');
+    const ready = getSnapshot(clock.state);
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.dispatch({type: 'pause', now: clock.now() + 30 * 1000});
+    const paused = getSnapshot(clock.state);
+
+    // Relaunch: restore with the saved settings, then apply them as the
+    // screen does on mount
+    const relaunch = (snapshot: typeof ready) => {
+      const restored = pomodoroReducer(createInitialState(settings), {
+        type: 'restore',
+        snapshot,
+        now: 10 * MINUTE,
+      });
+      return pomodoroReducer(restored, {type: 'configure', config: settings});
+    };
+    expect(getCurrentSegment(relaunch(ready))?.label).toBe('Focus');
+    expect(relaunch(ready).timeRemaining).toBe(2 * 60);
+    expect(getCurrentSegment(relaunch(paused))?.label).toBe('Focus');
+    expect(relaunch(paused).timeRemaining).toBe(90);
+  });
+
+  it('switches to a program immediately while idle', () => {
+    const state = pomodoroReducer(createInitialState(config(25, 5)), {
+      type: 'configure',
+      config: {...config(25, 5), program},
+    });
+    expect(getCurrentSegment(state)?.label).toBe('Warm-up');
+    expect(state.timeRemaining).toBe(60);
+  });
+
+  it('counts a flowtime session up and earns a proportional break', () => {
+    const clock = createFakeClock(createInitialState({...config(25, 5), flowtime: true}));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(40 * MINUTE);
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.timeElapsed).toBe(40 * 60);
+    expect(getEarnedBreak(clock.state)).toBe(8 * 60);
+
+    clock.dispatch({type: 'finish', now: clock.now()});
+    expect(clock.state.sessionType).toBe('break');
+    expect(clock.state.timeRemaining).toBe(8 * 60);
+    expect(clock.state.log[0]).toMatchObject({
+      sessionType: 'work',
+      outcome: 'completed',
+      plannedDuration: 0,
+      actualDuration: 40 * 60,
+    });
+
+    clock.advance(8 * MINUTE);
+    expect(clock.state.sessionType).toBe('work');
+    expect(clock.state.countUp).toBe(true);
+    expect(clock.state.countedFrom).toBe(48 * MINUTE);
+  });
+
+  it('keeps the earned flowtime break when waiting to start it', () => {
+    const clock = createFakeClock(
+      createInitialState({...config(25, 5, 15, 4, false), flowtime: true}),
+    );
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(10 * MINUTE);
+    clock.dispatch({type: 'finish', now: clock.now()});
+    expect(clock.state.timerState).toBe('ready');
+
+    clock.dispatch({type: 'start', now: clock.now()});
+    expect(clock.state.timeRemaining).toBe(2 * 60);
+  });
+
+  it('excludes paused time from flowtime sessions and records laps', () => {
+    const clock = createFakeClock(createInitialState({...config(25, 5), flowtime: true}));
+    clock.dispatch({type: 'start', now: 0});
+    clock.advance(5 * MINUTE);
+    clock.dispatch({type: 'lap', now: clock.now()});
+    clock.dispatch({type: 'pause', now: clock.now()});
+    clock.advance(10 * MINUTE);
+    expect(clock.state.timeElapsed).toBe(5 * 60);
+
+    clock.dispatch({type: 'start', now: clock.now()});
+    clock.advance(MINUTE);
+    clock.dispatch({type: 'lap', now: clock.now()});
+    expect(clock.state.timeElapsed).toBe(6 * 60);
+    expect(clock.state.laps).toEqual([5 * 60, 6 * 60]);
+  });
+
+  it('restores a running flowtime session from a snapshot', () => {
+    const settings = {...config(25, 5), flowtime: true};
+    const running = pomodoroReducer(createInitialState(settings), {type: 'start', now: 0});
+
+    const restored = pomodoroReducer(createInitialState(settings), {
+      type: 'restore',
+      snapshot: getSnapshot(running),
+      now: 30 * MINUTE,
+    });
+    expect(restored.timerState).toBe('running');
+    expect(restored.timeElapsed).toBe(30 * 60);
+  });
+
+  it('formats stopwatch time as MM:SS.cc', () => {
+    expect(formatStopwatch(0)).toBe('00:00.00');
+    expect(formatStopwatch(75.5)).toBe('01:15.50');
+    expect(formatStopwatch(95 * 60 + 1.25)).toBe('95:01.25');
+  });
+
+  it('formats time as MM:SS', () => {
+    expect(formatTime(25 * 60)).toBe('25:00');
+    expect(formatTime(61.9)).toBe('01:01');
+    expect(formatTime(-3)).toBe('00:00');
+  });
+});
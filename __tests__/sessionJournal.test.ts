@@ -0,0 +1,80 @@
+import {afterEach, describe, expect, it, jest} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  JournalEntry,
+  getDayKey,
+  getTotalDuration,
+  groupByDay,
+  loadJournal,
+  querySessions,
+  recordSession,
+} from '../src/history/sessionJournal';
+import {installNativeStorage} from '../src/utils/nativeStorage';
+import {setStorageBackend} from '../src/utils/storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const entry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+  id: 'entry',
+  sessionType: 'work',
+  startedAt: 0,
+  endedAt: 0,
+  plannedDuration: 25 * 60,
+  actualDuration: 25 * 60,
+  outcome: 'completed',
+  extendedBy: 0,
+  interruptions: [],
+  ...overrides,
+});
+
+describe('sessionJournal', () => {
+  const day1 = new Date(2026, 0, 5, 9).getTime();
+  const day2 = new Date(2026, 0, 6, 14).getTime();
+  const entries = [
+    entry({id: 'a', startedAt: day1}),
+    entry({id: 'b', startedAt: day1 + 1, sessionType: 'break', actualDuration: 300}),
+    entry({id: 'c', startedAt: day2, outcome: 'reset', actualDuration: 600}),
+  ];
+
+  it('filters by type, outcome and time range', () => {
+    expect(querySessions(entries, {sessionType: 'work'}).map(e => e.id)).toEqual(['a', 'c']);
+    expect(querySessions(entries, {outcome: 'completed'}).map(e => e.id)).toEqual(['a', 'b']);
+    expect(querySessions(entries, {from: day2}).map(e => e.id)).toEqual(['c']);
+    expect(querySessions(entries, {to: day2}).map(e => e.id)).toEqual(['a', 'b']);
+  });
+
+  it('sums actual durations', () => {
+    expect(getTotalDuration(querySessions(entries, {sessionType: 'work'}))).toBe(25 * 60 + 600);
+  });
+
+  it('groups entries by local day', () => {
+    const groups = groupByDay(entries);
+    expect(Object.keys(groups)).toEqual(['2026-01-05', '2026-01-06']);
+    expect(groups[getDayKey(day1)]).toHaveLength(2);
+  });
+});
+
+describe('sessionJournal on native', () => {
+  afterEach(() => {
+    setStorageBackend(null);
+  });
+
+  it('journals sessions to device storage and reads them back after a restart', async () => {
+    await AsyncStorage.clear();
+    await installNativeStorage();
+    const record = entry({startedAt: 1000, endedAt: 1000 + 25 * 60 * 1000});
+    recordSession(record, 'task-1');
+    recordSession({...record, sessionType: 'break', startedAt: 2000, actualDuration: 300});
+    expect(loadJournal()).toHaveLength(2);
+
+    // Let the background write land, then relaunch
+    await new Promise(resolve => setTimeout(resolve, 0));
+    setStorageBackend(null);
+    await installNativeStorage();
+    const journal = loadJournal();
+    expect(journal.map(e => e.sessionType)).toEqual(['work', 'break']);
+    expect(journal[0].taskId).toBe('task-1');
+  });
+});
@@ -0,0 +1,97 @@
+import {describe, expect, it} from '@jest/globals';
+import {createInitialState, pomodoroReducer} from '../src/timer/pomodoroEngine';
+import {IntervalProgram} from '../src/timer/intervalPrograms';
+import {
+  getSessionEndNotification,
+  getUpcomingNotifications,
+} from '../src/notifications/sessionNotifications';
+
+const MINUTE = 60 * 1000;
+
+const config = {
+  workDuration: 25,
+  breakDuration: 5,
+  longBreakDuration: 15,
+  sessionsBeforeLongBreak: 4,
+  autoStartBreaks: true,
+  autoStartWork: false,
+  program: null as IntervalProgram | null,
+  flowtime: false,
+  flowtimeBreakRatio: 0.2,
+};
+
+describe('sessionNotifications', () => {
+  it('has nothing to schedule unless a session is running towards an end', () => {
+    expect(getSessionEndNotification(createInitialState(config))).toBeNull();
+
+    const flow = pomodoroReducer(createInitialState({...config, flowtime: true}), {
+      type: 'start',
+      now: 0,
+    });
+    expect(getSessionEndNotification(flow)).toBeNull();
+  });
+
+  it('announces the end of work and the upcoming break', () => {
+    const running = pomodoroReducer(createInitialState(config), {type: 'start', now: 0});
+    expect(getSessionEndNotification(running)).toEqual({
+      title: 'Work session complete',
+      body: 'Time for a break.',
+    });
+  });
+
+  it('asks to start the next session when it does not auto-start', () => {
+    let state = pomodoroReducer(createInitialState(config), {type: 'start', now: 0});
+    state = pomodoroReducer(state, {type: 'tick', now: 25 * 60 * 1000});
+    expect(state.sessionType).toBe('break');
+    expect(getSessionEndNotification(state)).toEqual({
+      title: 'Break is over',
+      body: 'Time to focus. Start the next session when you are ready.',
+    });
+  });
+
+  it('uses the program segment label', () => {
+    const program: IntervalProgram = {
+      id: 'p',
+      name: 'P',
+      segments: [
+        {id: 'a', label: 'Warm-up', type: 'work', duration: 10, color: '#DAA520'},
+        {id: 'b', label: 'Focus', type: 'work', duration: 50, color: '#4169E1'},
+      ],
+    };
+    const running = pomodoroReducer(createInitialState({...config, program}), {
+      type: 'start',
+      now: 0,
+    });
+    expect(getSessionEndNotification(running)).toEqual({
+      title: 'Warm-up complete',
+      body: 'Time to focus. Start the next session when you are ready.',
+    });
+  });
+
+  it('schedules the ends of auto-started sessions up to the first manual start', () => {
+    const running = pomodoroReducer(createInitialState(config), {type: 'start', now: 0});
+    // The break starts on its own; work after it waits for the user
+    expect(getUpcomingNotifications(running, 4)).toEqual([
+      {title: 'Work session complete', body: 'Time for a break.', timestamp: 25 * MINUTE},
+      {
+        title: 'Break is over',
+        body: 'Time to focus. Start the next session when you are ready.',
+        timestamp: 30 * MINUTE,
+      },
+    ]);
+  });
+
+  it('schedules a few sessions ahead when everything auto-starts', () => {
+    const settings = {...config, autoStartWork: true};
+    const running = pomodoroReducer(createInitialState(settings), {type: 'start', now: 0});
+    expect(getUpcomingNotifications(running, 4).map(({timestamp}) => timestamp)).toEqual([
+      25 * MINUTE,
+      30 * MINUTE,
+      55 * MINUTE,
+      60 * MINUTE,
+    ]);
+
+    const paused = pomodoroReducer(running, {type: 'pause', now: MINUTE});
+    expect(getUpcomingNotifications(paused, 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import {afterEach, beforeEach, describe, expect, it} from '@jest/globals';
+import {DEFAULT_SETTINGS, loadSettings} from '../src/settings/settings';
+import {PRESET_PROGRAMS, getAllPrograms} from '../src/timer/intervalPrograms';
+import {setStorageBackend} from '../src/utils/storage';
+
+const userProgram = {
+  id: 'program-1',
+  name: 'Mine',
+  segments: [{id: 'a', label: 'Focus', type: 'work' as const, duration: 40, color: '#4169E1'}],
+};
+
+describe('settings', () => {
+  const stored = new Map<string, string>();
+
+  beforeEach(() => {
+    stored.clear();
+    setStorageBackend({
+      getItem: key => stored.get(key) ?? null,
+      setItem: (key, value) => stored.set(key, value),
+      removeItem: key => stored.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    setStorageBackend(null);
+  });
+
+  it('uses the defaults when nothing is saved', () => {
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps only the user programs and offers the current presets', () => {
+    // Older versions saved the presets, here an outdated copy of one
+    const outdated = {...PRESET_PROGRAMS[0], name: 'Old preset name'};
+    stored.set(
+      'motivationWatchSettings',
+      JSON.stringify({programs: [outdated, userProgram], activeProgramId: outdated.id}),
+    );
+    const settings = loadSettings();
+    expect(settings.programs).toEqual([userProgram]);
+    expect(getAllPrograms(settings.programs)).toEqual([...PRESET_PROGRAMS, userProgram]);
+    expect(settings.activeProgramId).toBe(outdated.id);
+  });
+
+  it('fills in nested fields added since the settings were saved', () => {
+    stored.set(
+      'motivationWatchSettings',
+      JSON.stringify({workDuration: 50, ambientMix: {volumes: {rain: 1}, binauralCarrier: 300}}),
+    );
+    const settings = loadSettings();
+    expect(settings.workDuration).toBe(50);
+    expect(settings.ambientMix).toEqual({
+      volumes: {...DEFAULT_SETTINGS.ambientMix.volumes, rain: 1},
+      binauralCarrier: 300,
+      binauralOffset: DEFAULT_SETTINGS.ambientMix.binauralOffset,
+    });
+  });
+});
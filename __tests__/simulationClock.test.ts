@@ -0,0 +1,66 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  DATE_WARPS,
+  DAY_WARP,
+  TIME_WARPS,
+  createSimulationClock,
+  getOrbitAngle,
+  getOrbitClock,
+  getSimulationTime,
+  reverseSimulation,
+  scrubSimulation,
+  setSimulationWarp,
+} from '../src/astronomy/simulationClock';
+
+describe('simulationClock', () => {
+  it('runs at real speed from where it started', () => {
+    const clock = createSimulationClock(0, 1000);
+    expect(getSimulationTime(clock, 1000)).toBe(0);
+    expect(getSimulationTime(clock, 3500)).toBe(2500);
+  });
+
+  it('changes speed without jumping', () => {
+    const clock = setSimulationWarp(createSimulationClock(0, 0), 100, 1000);
+    expect(getSimulationTime(clock, 1000)).toBe(1000);
+    expect(getSimulationTime(clock, 2000)).toBe(101000);
+
+    const paused = setSimulationWarp(clock, 0, 2000);
+    expect(getSimulationTime(paused, 60000)).toBe(101000);
+  });
+
+  it('runs backwards when reversed, keeping the warp', () => {
+    const clock = reverseSimulation(setSimulationWarp(createSimulationClock(0, 0), 10, 0), 1000);
+    expect(clock.warp).toBe(10);
+    expect(getSimulationTime(clock, 1000)).toBe(10000);
+    expect(getSimulationTime(clock, 1500)).toBe(5000);
+    expect(getSimulationTime(clock, 3000)).toBe(-10000);
+    expect(getSimulationTime(reverseSimulation(clock, 1500), 2000)).toBe(10000);
+  });
+
+  it('scrubs to a time and keeps running from there', () => {
+    const clock = scrubSimulation(createSimulationClock(0, 0), 42000, 5000);
+    expect(getSimulationTime(clock, 5000)).toBe(42000);
+    expect(getSimulationTime(clock, 6000)).toBe(43000);
+  });
+
+  it('moves real dates by days per second and caps the stylized bodies', () => {
+    const day = DAY_WARP * 1000;
+    const clock = setSimulationWarp(createSimulationClock(0, 0), DATE_WARPS[2], 0);
+    expect(getSimulationTime(clock, 1000)).toBe(day);
+
+    const fastest = setSimulationWarp(clock, DATE_WARPS[DATE_WARPS.length - 1], 1000);
+    expect(getSimulationTime(fastest, 2000)).toBe(101 * day);
+    const orbits = getOrbitClock(fastest);
+    expect(orbits.warp).toBe(TIME_WARPS[TIME_WARPS.length - 1]);
+    expect(getSimulationTime(orbits, 1000)).toBe(day);
+    expect(getOrbitClock(clock)).not.toBe(clock);
+    expect(getOrbitClock(createSimulationClock(0, 0))).toEqual(createSimulationClock(0, 0));
+  });
+
+  it('places bodies the same way for the same simulation time', () => {
+    expect(getOrbitAngle(0, 12, Math.PI / 4)).toBeCloseTo(Math.PI / 4);
+    expect(getOrbitAngle(3000, 12, 0)).toBeCloseTo(Math.PI / 2);
+    expect(getOrbitAngle(15000, 12, 0)).toBeCloseTo(getOrbitAngle(3000, 12, 0));
+    expect(getOrbitAngle(-3000, 12, 0)).toBeCloseTo(-Math.PI / 2);
+  });
+});
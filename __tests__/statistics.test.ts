@@ -0,0 +1,95 @@
+import {describe, expect, it} from '@jest/globals';
+import {JournalEntry} from '../src/history/sessionJournal';
+import {
+  getCleanPomodoros,
+  getCompletedPomodoros,
+  getInterruptionCounts,
+  getDailyFocus,
+  getHeatmap,
+  getStreaks,
+  getWeeklyFocus,
+} from '../src/history/statistics';
+
+// Wednesday 14 January 2026, 15:00 local time
+const NOW = new Date(2026, 0, 14, 15).getTime();
+
+const work = (
+  day: number,
+  minutes = 25,
+  outcome: JournalEntry['outcome'] = 'completed',
+): JournalEntry => {
+  const startedAt = new Date(2026, 0, day, 10).getTime();
+  return {
+    id: `${startedAt}`,
+    sessionType: 'work',
+    startedAt,
+    endedAt: startedAt + minutes * 60 * 1000,
+    plannedDuration: 25 * 60,
+    actualDuration: minutes * 60,
+    outcome,
+    extendedBy: 0,
+    interruptions: [],
+  };
+};
+
+describe('statistics', () => {
+  const entries: JournalEntry[] = [
+    work(5),
+    work(6),
+    work(7),
+    work(12),
+    work(13),
+    work(13, 10, 'reset'),
+    work(14),
+    {...work(14), sessionType: 'break', actualDuration: 300},
+  ];
+
+  it('totals focus minutes per day, including unfinished sessions', () => {
+    expect(getDailyFocus(entries, 3, NOW)).toEqual([
+      {day: '2026-01-12', minutes: 25},
+      {day: '2026-01-13', minutes: 35},
+      {day: '2026-01-14', minutes: 25},
+    ]);
+  });
+
+  it('totals focus minutes per Monday-based week', () => {
+    expect(getWeeklyFocus(entries, 2, NOW)).toEqual([
+      {day: '2026-01-05', minutes: 75},
+      {day: '2026-01-12', minutes: 85},
+    ]);
+  });
+
+  it('counts only completed work sessions as pomodoros', () => {
+    expect(getCompletedPomodoros(entries)).toBe(6);
+  });
+
+  it('tells clean pomodoros from extended or interrupted ones', () => {
+    const mixed = [
+      ...entries,
+      {...work(14), extendedBy: 300},
+      {...work(14), interruptions: [{kind: 'external' as const, at: 0}]},
+      {...work(14), interruptions: [{kind: 'internal' as const, at: 0}]},
+    ];
+    expect(getCompletedPomodoros(mixed)).toBe(9);
+    expect(getCleanPomodoros(mixed)).toBe(6);
+    expect(getInterruptionCounts(mixed)).toEqual({internal: 1, external: 1});
+  });
+
+  it('computes current and best streaks', () => {
+    expect(getStreaks(entries, NOW)).toEqual({current: 3, best: 3});
+    expect(getStreaks(entries.slice(0, 3), NOW)).toEqual({current: 0, best: 3});
+  });
+
+  it('keeps the current streak alive until the day is over', () => {
+    const tomorrow = new Date(2026, 0, 15, 8).getTime();
+    expect(getStreaks(entries, tomorrow).current).toBe(3);
+  });
+
+  it('lays out the heatmap by week with future days empty', () => {
+    const heatmap = getHeatmap(entries, 2, NOW);
+    expect(heatmap).toHaveLength(2);
+    expect(heatmap[0][0]).toEqual({day: '2026-01-05', minutes: 25});
+    expect(heatmap[1][2]).toEqual({day: '2026-01-14', minutes: 25});
+    expect(heatmap[1][3]).toBeNull();
+  });
+});
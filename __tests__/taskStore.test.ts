@@ -0,0 +1,53 @@
+import {describe, expect, it} from '@jest/globals';
+import {JournalEntry} from '../src/history/sessionJournal';
+import {createTask, getSessionTaskId, getTaskTotals} from '../src/tasks/taskStore';
+
+const session = (overrides: Partial<JournalEntry>): JournalEntry => ({
+  id: 'entry',
+  sessionType: 'work',
+  startedAt: 0,
+  endedAt: 0,
+  plannedDuration: 25 * 60,
+  actualDuration: 25 * 60,
+  outcome: 'completed',
+  extendedBy: 0,
+  interruptions: [],
+  ...overrides,
+});
+
+describe('taskStore', () => {
+  it('creates tasks with a trimmed title', () => {
+    const task = createTask('  Write report ', 3, 1000);
+    expect(task.title).toBe('Write report');
+    expect(task.estimatedPomodoros).toBe(3);
+    expect(task.done).toBe(false);
+  });
+
+  it('derives estimated vs actual pomodoros from the journal', () => {
+    const task = createTask('Write report', 3, 1000);
+    const entries = [
+      session({taskId: task.id}),
+      session({taskId: task.id}),
+      session({taskId: task.id, outcome: 'reset', actualDuration: 10 * 60}),
+      session({taskId: 'other'}),
+      session({}),
+    ];
+
+    expect(getTaskTotals(task, entries)).toEqual({
+      taskId: task.id,
+      estimatedPomodoros: 3,
+      actualPomodoros: 2,
+      focusMinutes: 60,
+    });
+  });
+
+  it('credits a session to the task active when it started', () => {
+    const taskList = {tasks: [], activeTaskId: 'b', session: {startedAt: 1000, taskId: 'a'}};
+    expect(getSessionTaskId(taskList, 1000)).toBe('a');
+    // A start that was never seen falls back to the active task
+    expect(getSessionTaskId(taskList, 5000)).toBe('b');
+    expect(getSessionTaskId({tasks: [], activeTaskId: 'b'}, 1000)).toBe('b');
+    // No task at the start means no credit, even if one was picked since
+    expect(getSessionTaskId({...taskList, session: {startedAt: 1000, taskId: null}}, 1000)).toBeNull();
+  });
+});
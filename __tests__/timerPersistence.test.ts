@@ -0,0 +1,63 @@
+import {afterEach, beforeEach, describe, expect, it} from '@jest/globals';
+import {createInitialState, pomodoroReducer} from '../src/timer/pomodoroEngine';
+import {loadTimerSnapshot} from '../src/timer/timerPersistence';
+import {setStorageBackend} from '../src/utils/storage';
+
+const config = {
+  workDuration: 25,
+  breakDuration: 5,
+  longBreakDuration: 15,
+  sessionsBeforeLongBreak: 4,
+  autoStartBreaks: true,
+  autoStartWork: true,
+  program: null,
+  flowtime: false,
+  flowtimeBreakRatio: 0.2,
+};
+
+describe('timerPersistence', () => {
+  const stored = new Map<string, string>();
+
+  beforeEach(() => {
+    stored.clear();
+    setStorageBackend({
+      getItem: key => stored.get(key) ?? null,
+      setItem: (key, value) => stored.set(key, value),
+      removeItem: key => stored.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    setStorageBackend(null);
+  });
+
+  it('resumes a snapshot saved before extensions, interruptions and programs', () => {
+    // As saved by the first version that persisted the timer
+    stored.set(
+      'motivationWatchTimer',
+      JSON.stringify({
+        sessionType: 'work',
+        timerState: 'running',
+        sessionDuration: 25,
+        timeRemaining: 1500,
+        endsAt: 25 * 60 * 1000,
+        startedAt: 0,
+        completedSessions: 0,
+        cycleCount: 0,
+      }),
+    );
+    const snapshot = loadTimerSnapshot();
+    expect(snapshot).toMatchObject({extendedBy: 0, interruptions: [], segmentIndex: 0, laps: []});
+
+    let state = pomodoroReducer(createInitialState(config), {
+      type: 'restore',
+      snapshot: snapshot!,
+      now: 60 * 1000,
+    });
+    state = pomodoroReducer(state, {type: 'interrupt', kind: 'external', now: 60 * 1000});
+    state = pomodoroReducer(state, {type: 'extend', minutes: 5, now: 60 * 1000});
+    expect(state.interruptions).toHaveLength(1);
+    expect(state.extendedBy).toBe(5 * 60);
+    expect(state.endsAt).toBe(30 * 60 * 1000);
+  });
+});
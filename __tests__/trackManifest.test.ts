@@ -0,0 +1,75 @@
+import {describe, expect, it} from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import {ManifestTrack, TRACK_MANIFEST, validateManifest} from '../src/audio/trackManifest';
+
+const ROOT = path.join(__dirname, '..');
+const ASSET_DIRS = ['assets/audio', 'public/audio'];
+
+// Every source file under a directory
+const listSources = (dir: string): string[] =>
+  fs.readdirSync(dir, {withFileTypes: true}).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listSources(fullPath);
+    }
+    return /\.(ts|tsx|js|jsx)$/.test(entry.name) ? [fullPath] : [];
+  });
+
+const track = (changes: Partial<ManifestTrack>): ManifestTrack => ({
+  id: 'track',
+  title: 'Track',
+  artist: 'Artist',
+  duration: 60,
+  license: 'CC BY 4.0',
+  file: 'track.mp3',
+  mood: 'focus',
+  ...changes,
+});
+
+describe('trackManifest', () => {
+  it('finds every bundled track in assets/audio and public/audio', () => {
+    ASSET_DIRS.forEach(dir => {
+      const problems = validateManifest(TRACK_MANIFEST, file =>
+        fs.existsSync(path.join(ROOT, dir, file)),
+      );
+      expect(problems).toEqual([]);
+    });
+  });
+
+  it('gives every bundled track a native asset', () => {
+    const assets = fs.readFileSync(path.join(ROOT, 'src/audio/trackAssets.ts'), 'utf8');
+    TRACK_MANIFEST.forEach(manifestTrack => {
+      expect(assets).toContain(
+        `'${manifestTrack.file}': require('../../assets/audio/${manifestTrack.file}')`,
+      );
+    });
+  });
+
+  it('only requires assets that exist', () => {
+    const missing: string[] = [];
+    listSources(path.join(ROOT, 'src')).forEach(file => {
+      const source = fs.readFileSync(file, 'utf8');
+      const requires = source.matchAll(/require\(\s*'([^']+\.(?:mp3|wav|png|jpg|ttf))'\s*\)/g);
+      for (const [, asset] of requires) {
+        if (!fs.existsSync(path.resolve(path.dirname(file), asset))) {
+          missing.push(`${path.relative(ROOT, file)}: ${asset}`);
+        }
+      }
+    });
+    expect(missing).toEqual([]);
+  });
+
+  it('reports missing files, duplicates and incomplete entries', () => {
+    const problems = validateManifest(
+      [track({}), track({file: 'gone.mp3'}), track({id: 'other', license: ' ', duration: 0})],
+      file => file === 'track.mp3',
+    );
+    expect(problems).toEqual([
+      'Duplicate track id "track"',
+      'Track "track" is missing its file gone.mp3',
+      'Track "other" needs a title, artist and license',
+      'Track "other" has no duration',
+    ]);
+  });
+});
@@ -3,7 +3,10 @@
  */
 
 import {AppRegistry} from 'react-native';
+import TrackPlayer from 'react-native-track-player';
 import App from './App';
 import {name as appName} from './app.json';
+import {PlaybackService} from './src/audio/playbackService';
 
 AppRegistry.registerComponent(appName, () => App);
+TrackPlayer.registerPlaybackService(() => PlaybackService);
@@ -0,0 +1,54 @@
+import React, {createContext, useContext, useEffect, useMemo} from 'react';
+import {SharedValue, useFrameCallback, useSharedValue} from 'react-native-reanimated';
+import {
+  SimulationClock,
+  getOrbitClock,
+  getSimulationRate,
+  getSimulationTime,
+} from './simulationClock';
+
+const SimulationTimeContext = createContext<SharedValue<number> | null>(null);
+
+interface SimulationTimeProviderProps {
+  simulation: SimulationClock;
+  children: React.ReactNode;
+}
+
+/**
+ * SimulationTimeProvider - Mobile Version
+ *
+ * Runs the simulation clock on the UI thread: one shared value, advanced
+ * every frame by the clock's rate, that every orbiting body reads in its
+ * animated style. It is set from the clock whenever the clock changes.
+ * The date warps are slowed to the fastest orbit warp (getOrbitClock).
+ */
+export const SimulationTimeProvider: React.FC<SimulationTimeProviderProps> = ({
+  simulation: clock,
+  children,
+}) => {
+  const simulation = useMemo(() => getOrbitClock(clock), [clock]);
+  const time = useSharedValue(getSimulationTime(simulation, Date.now()));
+  const rate = useSharedValue(getSimulationRate(simulation));
+
+  useEffect(() => {
+    time.value = getSimulationTime(simulation, Date.now());
+    rate.value = getSimulationRate(simulation);
+  }, [simulation, time, rate]);
+
+  useFrameCallback(frame => {
+    if (frame.timeSincePreviousFrame !== null) {
+      time.value += frame.timeSincePreviousFrame * rate.value;
+    }
+  });
+
+  return <SimulationTimeContext.Provider value={time}>{children}</SimulationTimeContext.Provider>;
+};
+
+// Simulation time in ms, as a shared value for animated styles
+export const useSimulationTime = (): SharedValue<number> => {
+  const time = useContext(SimulationTimeContext);
+  if (!time) {
+    throw new Error('useSimulationTime must be used inside a SimulationTimeProvider');
+  }
+  return time;
+};
@@ -0,0 +1,55 @@
+import React, {createContext, useContext, useEffect, useMemo, useState} from 'react';
+import {
+  SimulationClock,
+  getOrbitClock,
+  getSimulationRate,
+  getSimulationTime,
+} from './simulationClock';
+
+const SimulationTimeContext = createContext<number | null>(null);
+
+interface SimulationTimeProviderProps {
+  simulation: SimulationClock;
+  children: React.ReactNode;
+}
+
+/**
+ * SimulationTimeProvider - Web Version
+ *
+ * Reads the simulation clock once per animation frame and shares the
+ * time with every orbiting body, so they all move from one loop. Nothing
+ * is scheduled while the clock is paused. The date warps are slowed to
+ * the fastest orbit warp (getOrbitClock).
+ */
+export const SimulationTimeProvider: React.FC<SimulationTimeProviderProps> = ({
+  simulation: clock,
+  children,
+}) => {
+  const simulation = useMemo(() => getOrbitClock(clock), [clock]);
+  const [time, setTime] = useState(() => getSimulationTime(simulation, Date.now()));
+
+  useEffect(() => {
+    setTime(getSimulationTime(simulation, Date.now()));
+    if (getSimulationRate(simulation) === 0) {
+      return;
+    }
+    let animationFrameId: number;
+    const animate = () => {
+      setTime(getSimulationTime(simulation, Date.now()));
+      animationFrameId = requestAnimationFrame(animate);
+    };
+    animationFrameId = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [simulation]);
+
+  return <SimulationTimeContext.Provider value={time}>{children}</SimulationTimeContext.Provider>;
+};
+
+// Simulation time in ms
+export const useSimulationTime = (): number => {
+  const time = useContext(SimulationTimeContext);
+  if (time === null) {
+    throw new Error('useSimulationTime must be used inside a SimulationTimeProvider');
+  }
+  return time;
+};
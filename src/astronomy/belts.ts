@@ -0,0 +1,98 @@
+export interface BeltData {
+  name: string;
+  inner: number; // Inner edge, in px from the Sun
+  outer: number; // Outer edge, in px from the Sun
+  count: number; // Particles
+  innerPeriod: number; // Orbital period at the inner edge, in simulation seconds
+  colors: string[];
+  shells: number; // Batches of particles that turn together
+}
+
+export interface BeltParticle {
+  x: number; // in px, from the center of its shell
+  y: number;
+  size: number; // Diameter, in px
+  color: string;
+  opacity: number;
+}
+
+export interface BeltShell {
+  radius: number; // Outer edge of the shell, in px from the Sun
+  period: number; // Orbital period of the shell, in simulation seconds
+  particles: BeltParticle[];
+}
+
+/**
+ * Belts
+ *
+ * Rings of small bodies drawn as particles. Each particle keeps its own
+ * distance from the Sun, but particles are batched into thin concentric
+ * shells that turn as one at the Keplerian period for the shell's middle
+ * distance, so only a handful of views move per frame however many
+ * particles there are. Inner shells still outrun outer ones, so the belt
+ * shears the way a real one drifts.
+ */
+export const BELTS: Record<'main' | 'kuiper', BeltData> = {
+  // Between the aphelion of Mars and the perihelion of Jupiter
+  main: {
+    name: 'Asteroid belt',
+    inner: 95,
+    outer: 107,
+    count: 1200,
+    innerPeriod: 36,
+    colors: ['#8A8078', '#A39A8F', '#6E655C'],
+    shells: 12,
+  },
+  // Past Neptune, wider and icier
+  kuiper: {
+    name: 'Kuiper belt',
+    inner: 202,
+    outer: 240,
+    count: 1600,
+    innerPeriod: 96,
+    colors: ['#7F9DB0', '#A7BCC9', '#5F7A8C'],
+    shells: 16,
+  },
+};
+
+/**
+ * Orbital period at a distance, from Kepler's third law (the period grows
+ * with the distance to the power 3/2), scaled to the belt's inner edge
+ */
+export const getBeltPeriod = (belt: BeltData, distance: number): number =>
+  belt.innerPeriod * Math.pow(distance / belt.inner, 1.5);
+
+/**
+ * Scatter a belt's particles over its shells. Positions are relative to
+ * the top left of each shell's square, so a shell turns about the Sun.
+ */
+export const createBeltShells = (
+  belt: BeltData,
+  random: () => number = Math.random,
+): BeltShell[] => {
+  const width = (belt.outer - belt.inner) / belt.shells;
+  const shells: BeltShell[] = Array.from({length: belt.shells}, (_, index) => {
+    const inner = belt.inner + index * width;
+    return {
+      radius: inner + width,
+      period: getBeltPeriod(belt, inner + width / 2),
+      particles: [],
+    };
+  });
+
+  for (let i = 0; i < belt.count; i++) {
+    // Denser towards the middle of the belt: the mean of two draws
+    const distance = belt.inner + ((random() + random()) / 2) * (belt.outer - belt.inner);
+    const index = Math.min(Math.floor((distance - belt.inner) / width), belt.shells - 1);
+    const shell = shells[index];
+    const angle = random() * Math.PI * 2;
+    shell.particles.push({
+      x: shell.radius + Math.cos(angle) * distance,
+      y: shell.radius - Math.sin(angle) * distance,
+      size: 1 + random() * 1.5,
+      color: belt.colors[Math.floor(random() * belt.colors.length)],
+      opacity: 0.4 + random() * 0.5,
+    });
+  }
+  return shells;
+};
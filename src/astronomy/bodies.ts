@@ -0,0 +1,163 @@
+import {PlanetName} from './ephemeris';
+import {OrbitShape} from './orbit';
+
+export interface SatelliteData {
+  name: string;
+  size: number; // Diameter, in px
+  color: string;
+  distance: number; // Orbit radius around the parent's center, in px
+  speed: number; // Orbital period in simulation seconds; negative for a retrograde orbit
+}
+
+export interface RingBand {
+  inner: number; // Inner edge, in planet radii
+  outer: number; // Outer edge, in planet radii
+  color: string;
+}
+
+export interface RingSystem {
+  inclination: number; // Tilt of the ring plane to the ecliptic, in degrees
+  ascendingNode: number; // Longitude where the ring plane crosses the ecliptic, in degrees
+  bands: RingBand[];
+}
+
+export interface PlanetData extends OrbitShape {
+  name: PlanetName;
+  size: number; // Diameter, in px
+  color: string;
+  speed: number; // Orbital period in simulation seconds
+  bands?: string[]; // Cloud belts of a gas giant, from the edge of the disc inwards
+  rings?: RingSystem;
+  satellites: SatelliteData[]; // Orbit the planet and travel along with it
+}
+
+// Zoom at which satellites appear; below it they would sit on their planet's disc
+export const SATELLITE_ZOOM = 1.5;
+
+/**
+ * Bodies
+ *
+ * The planets and the satellites that orbit them. Distances and speeds are
+ * scaled for a phone screen; each orbit's eccentricity, argument of
+ * perihelion and ascending node (degrees, J2000) are the real ones, so
+ * the ellipses are shaped and turned like the planets' own. Satellite
+ * orbits are circles around the parent with periods compressed to a few
+ * seconds; Triton goes round backwards, as it does.
+ *
+ * Seen from above the ecliptic, a gas giant's cloud belts circle its pole,
+ * so they are drawn as concentric bands. Ring planes are fixed in space:
+ * Saturn's, tilted 28°, show as a wide ellipse; Uranus's, tipped past
+ * upright, as a narrow one.
+ */
+export const PLANETS: PlanetData[] = [
+  {
+    name: 'Mercury',
+    size: 8,
+    color: '#8C7853',
+    distance: 40,
+    speed: 12,
+    eccentricity: 0.206,
+    perihelionArgument: 29.1,
+    ascendingNode: 48.3,
+    satellites: [],
+  },
+  {
+    name: 'Venus',
+    size: 12,
+    color: '#FFC870',
+    distance: 55,
+    speed: 18,
+    eccentricity: 0.007,
+    perihelionArgument: 54.9,
+    ascendingNode: 76.7,
+    satellites: [],
+  },
+  {
+    name: 'Earth',
+    size: 13,
+    color: '#4169E1',
+    distance: 70,
+    speed: 24,
+    eccentricity: 0.017,
+    perihelionArgument: 102.9,
+    ascendingNode: 0,
+    satellites: [{name: 'Moon', size: 3, color: '#C8C8C8', distance: 12, speed: 6}],
+  },
+  {
+    name: 'Mars',
+    size: 10,
+    color: '#CD5C5C',
+    distance: 85,
+    speed: 30,
+    eccentricity: 0.093,
+    perihelionArgument: 286.5,
+    ascendingNode: 49.6,
+    satellites: [],
+  },
+  {
+    name: 'Jupiter',
+    size: 28,
+    color: '#DAA520',
+    distance: 115,
+    speed: 48,
+    eccentricity: 0.048,
+    perihelionArgument: 274.3,
+    ascendingNode: 100.5,
+    bands: ['#C8954A', '#E8D3A6', '#B9824A', '#EADBB8'],
+    // The Galilean moons, with their real 1 : 2 : 4 resonance
+    satellites: [
+      {name: 'Io', size: 3, color: '#E8D26A', distance: 19, speed: 1.8},
+      {name: 'Europa', size: 3, color: '#D9CBB0', distance: 23, speed: 3.6},
+      {name: 'Ganymede', size: 4, color: '#A89F91', distance: 28, speed: 7.2},
+      {name: 'Callisto', size: 4, color: '#6F6659', distance: 34, speed: 16.7},
+    ],
+  },
+  {
+    name: 'Saturn',
+    size: 24,
+    color: '#F4A460',
+    distance: 145,
+    speed: 60,
+    eccentricity: 0.054,
+    perihelionArgument: 338.9,
+    ascendingNode: 113.7,
+    bands: ['#E0B779', '#F5D9A6', '#D9A868'],
+    rings: {
+      inclination: 28.1,
+      ascendingNode: 169.5,
+      bands: [
+        {inner: 1.24, outer: 1.53, color: 'rgba(180, 160, 130, 0.35)'}, // C ring
+        {inner: 1.53, outer: 1.95, color: 'rgba(230, 210, 170, 0.85)'}, // B ring
+        {inner: 2.03, outer: 2.27, color: 'rgba(210, 190, 150, 0.7)'}, // A ring, past the Cassini division
+      ],
+    },
+    satellites: [{name: 'Titan', size: 4, color: '#E3B04B', distance: 32, speed: 8}],
+  },
+  {
+    name: 'Uranus',
+    size: 16,
+    color: '#4FD5D5',
+    distance: 170,
+    speed: 72,
+    eccentricity: 0.047,
+    perihelionArgument: 96.9,
+    ascendingNode: 74.0,
+    rings: {
+      inclination: 97.8,
+      ascendingNode: 167.6,
+      bands: [{inner: 1.6, outer: 2.0, color: 'rgba(200, 225, 235, 0.45)'}],
+    },
+    satellites: [],
+  },
+  {
+    name: 'Neptune',
+    size: 16,
+    color: '#4169E1',
+    distance: 190,
+    speed: 84,
+    eccentricity: 0.009,
+    perihelionArgument: 273.2,
+    ascendingNode: 131.8,
+    satellites: [{name: 'Triton', size: 3, color: '#C9D6DF', distance: 13, speed: -6}],
+  },
+];
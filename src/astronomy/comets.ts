@@ -0,0 +1,51 @@
+import {OrbitShape} from './orbit';
+
+export interface CometData extends OrbitShape {
+  name: string;
+  speed: number; // Orbital period in simulation seconds; negative for a retrograde orbit
+  color: string;
+  tail: number; // Tail length at perihelion, in px
+}
+
+/**
+ * Comets
+ *
+ * Periodic comets on long, narrow ellipses. Their eccentricities are eased
+ * off so perihelion stays clear of the Sun's glow at this scale, and their
+ * periods are compressed like the planets'; the orientations are the real
+ * ones. Halley goes round backwards, as it does.
+ */
+export const COMETS: CometData[] = [
+  {
+    name: 'Halley',
+    distance: 160,
+    eccentricity: 0.82,
+    perihelionArgument: 111.3,
+    ascendingNode: 58.4,
+    speed: -80,
+    color: '#CFE8FF',
+    tail: 45,
+  },
+  {
+    name: 'Encke',
+    distance: 70,
+    eccentricity: 0.6,
+    perihelionArgument: 186.5,
+    ascendingNode: 334.6,
+    speed: 16,
+    color: '#E4F1D8',
+    tail: 24,
+  },
+];
+
+/**
+ * Share of its full length a comet's tail shows at a distance from the
+ * Sun: all of it at perihelion, falling off with the inverse square of
+ * the distance like the sunlight that drives it
+ */
+export const getTailScale = (comet: OrbitShape, distanceFromSun: number): number => {
+  'worklet';
+  const perihelion = comet.distance * (1 - comet.eccentricity);
+  const scale = perihelion / Math.max(distanceFromSun, perihelion);
+  return scale * scale;
+};
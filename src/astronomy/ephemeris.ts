@@ -0,0 +1,194 @@
+export type PlanetName =
+  | 'Mercury'
+  | 'Venus'
+  | 'Earth'
+  | 'Mars'
+  | 'Jupiter'
+  | 'Saturn'
+  | 'Uranus'
+  | 'Neptune';
+
+// Keplerian element at J2000 and its rate of change per Julian century
+type Element = [value: number, ratePerCentury: number];
+
+export interface OrbitalElements {
+  semiMajorAxis: Element; // a, in AU
+  eccentricity: Element; // e
+  inclination: Element; // I, in degrees
+  meanLongitude: Element; // L, in degrees
+  perihelionLongitude: Element; // ϖ, in degrees
+  ascendingNodeLongitude: Element; // Ω, in degrees
+}
+
+export interface HeliocentricPosition {
+  x: number; // in AU, towards the vernal equinox
+  y: number; // in AU
+  z: number; // in AU, towards the north ecliptic pole
+  longitude: number; // Ecliptic longitude, 0 to 360 degrees
+  latitude: number; // Ecliptic latitude, in degrees
+  distance: number; // From the Sun, in AU
+}
+
+/**
+ * Ephemeris
+ *
+ * Approximate heliocentric planet positions from the JPL table of
+ * Keplerian elements and their rates (Standish, "Keplerian Elements for
+ * Approximate Positions of the Major Planets", valid 1800–2050 AD).
+ * Positions are in the J2000 ecliptic frame and good to a few arcminutes
+ * for the inner planets, which is far finer than the display needs.
+ * Earth stands for the Earth-Moon barycenter.
+ */
+export const PLANET_ELEMENTS: Record<PlanetName, OrbitalElements> = {
+  Mercury: {
+    semiMajorAxis: [0.38709927, 0.00000037],
+    eccentricity: [0.20563593, 0.00001906],
+    inclination: [7.00497902, -0.00594749],
+    meanLongitude: [252.2503235, 149472.67411175],
+    perihelionLongitude: [77.45779628, 0.16047689],
+    ascendingNodeLongitude: [48.33076593, -0.12534081],
+  },
+  Venus: {
+    semiMajorAxis: [0.72333566, 0.0000039],
+    eccentricity: [0.00677672, -0.00004107],
+    inclination: [3.39467605, -0.0007889],
+    meanLongitude: [181.9790995, 58517.81538729],
+    perihelionLongitude: [131.60246718, 0.00268329],
+    ascendingNodeLongitude: [76.67984255, -0.27769418],
+  },
+  Earth: {
+    semiMajorAxis: [1.00000261, 0.00000562],
+    eccentricity: [0.01671123, -0.00004392],
+    inclination: [-0.00001531, -0.01294668],
+    meanLongitude: [100.46457166, 35999.37244981],
+    perihelionLongitude: [102.93768193, 0.32327364],
+    ascendingNodeLongitude: [0, 0],
+  },
+  Mars: {
+    semiMajorAxis: [1.52371034, 0.00001847],
+    eccentricity: [0.0933941, 0.00007882],
+    inclination: [1.84969142, -0.00813131],
+    meanLongitude: [-4.55343205, 19140.30268499],
+    perihelionLongitude: [-23.94362959, 0.44441088],
+    ascendingNodeLongitude: [49.55953891, -0.29257343],
+  },
+  Jupiter: {
+    semiMajorAxis: [5.202887, -0.00011607],
+    eccentricity: [0.04838624, -0.00013253],
+    inclination: [1.30439695, -0.00183714],
+    meanLongitude: [34.39644051, 3034.74612775],
+    perihelionLongitude: [14.72847983, 0.21252668],
+    ascendingNodeLongitude: [100.47390909, 0.20469106],
+  },
+  Saturn: {
+    semiMajorAxis: [9.53667594, -0.0012506],
+    eccentricity: [0.05386179, -0.00050991],
+    inclination: [2.48599187, 0.00193609],
+    meanLongitude: [49.95424423, 1222.49362201],
+    perihelionLongitude: [92.59887831, -0.41897216],
+    ascendingNodeLongitude: [113.66242448, -0.28867794],
+  },
+  Uranus: {
+    semiMajorAxis: [19.18916464, -0.00196176],
+    eccentricity: [0.04725744, -0.00004397],
+    inclination: [0.77263783, -0.00242939],
+    meanLongitude: [313.23810451, 428.48202785],
+    perihelionLongitude: [170.9542763, 0.40805281],
+    ascendingNodeLongitude: [74.01692503, 0.04240589],
+  },
+  Neptune: {
+    semiMajorAxis: [30.06992276, 0.00026291],
+    eccentricity: [0.00859048, 0.00005105],
+    inclination: [1.77004347, 0.00035372],
+    meanLongitude: [-55.12002969, 218.45945325],
+    perihelionLongitude: [44.96476227, -0.32241464],
+    ascendingNodeLongitude: [131.78422574, -0.00508664],
+  },
+};
+
+const DEG = Math.PI / 180;
+
+// Julian date of the J2000 epoch, 2000 January 1 at 12:00
+const J2000 = 2451545;
+
+// Julian date of the Unix epoch, 1970 January 1 at 00:00 UTC
+const UNIX_EPOCH_JD = 2440587.5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Wrap an angle in degrees to 0..360
+export const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/**
+ * Julian date of a moment. The difference between UTC and the dynamical
+ * time the elements use (about a minute) is ignored.
+ */
+export const getJulianDate = (date: Date): number => date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+
+/**
+ * Eccentric anomaly E for a mean anomaly M (both in radians) and an
+ * eccentricity below 1, solving Kepler's equation M = E - e·sin(E) by
+ * Newton's method. Runs as a worklet on the native UI thread.
+ */
+export const solveKepler = (meanAnomaly: number, eccentricity: number): number => {
+  'worklet';
+  let E = eccentricity < 0.8 ? meanAnomaly : Math.PI;
+  for (let i = 0; i < 30; i++) {
+    const delta = (E - eccentricity * Math.sin(E) - meanAnomaly) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-12) {
+      break;
+    }
+  }
+  return E;
+};
+
+/**
+ * Position of a planet relative to the Sun at a moment, in the J2000
+ * ecliptic frame
+ */
+export const getHeliocentricPosition = (planet: PlanetName, date: Date): HeliocentricPosition => {
+  const T = (getJulianDate(date) - J2000) / 36525;
+  const at = ([value, rate]: Element) => value + rate * T;
+  const elements = PLANET_ELEMENTS[planet];
+
+  const a = at(elements.semiMajorAxis);
+  const e = at(elements.eccentricity);
+  const I = at(elements.inclination) * DEG;
+  const L = at(elements.meanLongitude);
+  const perihelion = at(elements.perihelionLongitude);
+  const node = at(elements.ascendingNodeLongitude);
+  const omega = (perihelion - node) * DEG; // Argument of perihelion
+  const Omega = node * DEG;
+
+  // Position in the orbital plane, with x towards perihelion
+  const meanAnomaly = normalizeDegrees(L - perihelion) * DEG;
+  const E = solveKepler(meanAnomaly, e);
+  const xOrbit = a * (Math.cos(E) - e);
+  const yOrbit = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+  // Rotate into the ecliptic frame
+  const cosOmega = Math.cos(Omega);
+  const sinOmega = Math.sin(Omega);
+  const cosomega = Math.cos(omega);
+  const sinomega = Math.sin(omega);
+  const cosI = Math.cos(I);
+  const sinI = Math.sin(I);
+  const x =
+    (cosomega * cosOmega - sinomega * sinOmega * cosI) * xOrbit +
+    (-sinomega * cosOmega - cosomega * sinOmega * cosI) * yOrbit;
+  const y =
+    (cosomega * sinOmega + sinomega * cosOmega * cosI) * xOrbit +
+    (-sinomega * sinOmega + cosomega * cosOmega * cosI) * yOrbit;
+  const z = sinomega * sinI * xOrbit + cosomega * sinI * yOrbit;
+
+  const distance = Math.sqrt(x * x + y * y + z * z);
+  return {
+    x,
+    y,
+    z,
+    longitude: normalizeDegrees(Math.atan2(y, x) / DEG),
+    latitude: Math.asin(z / distance) / DEG,
+    distance,
+  };
+};
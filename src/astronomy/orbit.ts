@@ -0,0 +1,93 @@
+import {solveKepler} from './ephemeris';
+
+export interface OrbitShape {
+  distance: number; // Semi-major axis on screen, in px
+  eccentricity: number; // 0 for a circle, below 1
+  perihelionArgument: number; // ω, from the ascending node to perihelion, in degrees
+  ascendingNode: number; // Ω, longitude of the ascending node, in degrees
+}
+
+export interface OrbitPoint {
+  x: number; // in px, from the Sun
+  y: number; // in px, from the Sun, growing downwards
+}
+
+export interface OrbitEllipse {
+  width: number; // Major axis, in px
+  height: number; // Minor axis, in px
+  centerX: number; // Center of the ellipse from the Sun, in px
+  centerY: number;
+  rotation: number; // Turn of the major axis from the x axis, in radians
+}
+
+/**
+ * Orbits
+ *
+ * Keplerian ellipses drawn flat, as seen from the north ecliptic pole
+ * with the vernal equinox to the right, so bodies go round
+ * counterclockwise (screen y grows downwards, hence the sign flips).
+ * Inclination is left out: every orbit lies in the screen plane, turned
+ * so its perihelion points along the longitude of perihelion ϖ = Ω + ω.
+ * The Sun sits at one focus.
+ */
+
+// Longitude of perihelion ϖ in radians, the direction of the closest point to the Sun
+export const getPerihelionLongitude = (shape: OrbitShape): number => {
+  'worklet';
+  return ((shape.ascendingNode + shape.perihelionArgument) * Math.PI) / 180;
+};
+
+/**
+ * True anomaly (the angle from perihelion as seen from the Sun) for a
+ * mean anomaly, both in radians. The mean anomaly grows evenly with time;
+ * the true anomaly runs ahead of it near perihelion and lags near
+ * aphelion, which is what makes a body speed up as it swings in.
+ */
+export const getTrueAnomaly = (meanAnomaly: number, eccentricity: number): number => {
+  'worklet';
+  const E = solveKepler(meanAnomaly, eccentricity);
+  return (
+    2 *
+    Math.atan2(
+      Math.sqrt(1 + eccentricity) * Math.sin(E / 2),
+      Math.sqrt(1 - eccentricity) * Math.cos(E / 2),
+    )
+  );
+};
+
+/**
+ * Point on the orbit at a heliocentric longitude in radians. The distance
+ * from the Sun comes from the ellipse's polar equation,
+ * r = a(1 - e²) / (1 + e·cos ν), with ν the true anomaly.
+ */
+export const getOrbitPoint = (shape: OrbitShape, longitude: number): OrbitPoint => {
+  'worklet';
+  const e = shape.eccentricity;
+  const trueAnomaly = longitude - getPerihelionLongitude(shape);
+  const r = (shape.distance * (1 - e * e)) / (1 + e * Math.cos(trueAnomaly));
+  return {x: Math.cos(longitude) * r, y: -Math.sin(longitude) * r};
+};
+
+// Point on the orbit for a mean anomaly in radians, such as one from getOrbitAngle
+export const getOrbitPosition = (shape: OrbitShape, meanAnomaly: number): OrbitPoint => {
+  'worklet';
+  const longitude = getPerihelionLongitude(shape) + getTrueAnomaly(meanAnomaly, shape.eccentricity);
+  return getOrbitPoint(shape, longitude);
+};
+
+/**
+ * Size, placement and turn of the ellipse an orbit traces. Its center
+ * lies a·e from the Sun, on the far side from perihelion.
+ */
+export const getOrbitEllipse = (shape: OrbitShape): OrbitEllipse => {
+  const a = shape.distance;
+  const e = shape.eccentricity;
+  const perihelion = getPerihelionLongitude(shape);
+  return {
+    width: a * 2,
+    height: a * Math.sqrt(1 - e * e) * 2,
+    centerX: -Math.cos(perihelion) * a * e,
+    centerY: Math.sin(perihelion) * a * e,
+    rotation: -perihelion,
+  };
+};
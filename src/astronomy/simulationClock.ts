@@ -0,0 +1,81 @@
+/**
+ * Simulation Clock
+ *
+ * One clock for every orbiting body, so the system can be paused, sped
+ * up, run backwards or scrubbed, and body positions depend only on the
+ * simulation time. The clock is a value: the simulation time it showed at
+ * a real moment (the anchor) and how fast it runs from there. Changing
+ * the speed re-anchors it, so the time never jumps.
+ */
+
+// Time warps offered by the controls, in simulation seconds per real second
+export const TIME_WARPS = [0, 1, 10, 100];
+
+// Simulation seconds in a day
+export const DAY_WARP = 24 * 60 * 60;
+
+// Time warps for real dates (ephemeris mode), where 10× or 100× would
+// move the planets by an invisible amount: real time, then days per second
+export const DATE_WARPS = [0, 1, DAY_WARP, 10 * DAY_WARP, 100 * DAY_WARP];
+
+export const getTimeWarps = (realTime: boolean): number[] => (realTime ? DATE_WARPS : TIME_WARPS);
+
+export interface SimulationClock {
+  time: number; // Simulation time at the anchor, in ms
+  anchor: number; // Real time the clock was last set, in ms
+  warp: number; // Speed, one of TIME_WARPS or DATE_WARPS
+  reversed: boolean; // Runs backwards
+}
+
+export const createSimulationClock = (time: number, now: number): SimulationClock => ({
+  time,
+  anchor: now,
+  warp: 1,
+  reversed: false,
+});
+
+// Simulation milliseconds per real millisecond; negative when reversed
+export const getSimulationRate = (clock: SimulationClock): number =>
+  clock.reversed ? -clock.warp : clock.warp;
+
+export const getSimulationTime = (clock: SimulationClock, now: number): number =>
+  clock.time + (now - clock.anchor) * getSimulationRate(clock);
+
+export const setSimulationWarp = (
+  clock: SimulationClock,
+  warp: number,
+  now: number,
+): SimulationClock => ({...clock, time: getSimulationTime(clock, now), anchor: now, warp});
+
+export const reverseSimulation = (clock: SimulationClock, now: number): SimulationClock => ({
+  ...clock,
+  time: getSimulationTime(clock, now),
+  anchor: now,
+  reversed: !clock.reversed,
+});
+
+/**
+ * The clock the stylized bodies follow: the same clock, but no faster
+ * than the largest of TIME_WARPS, so the date warps do not spin the
+ * comets and asteroid belts into a blur
+ */
+export const getOrbitClock = (clock: SimulationClock): SimulationClock => {
+  const maxWarp = TIME_WARPS[TIME_WARPS.length - 1];
+  return clock.warp > maxWarp ? {...clock, warp: maxWarp} : clock;
+};
+
+export const scrubSimulation = (
+  clock: SimulationClock,
+  time: number,
+  now: number,
+): SimulationClock => ({...clock, time, anchor: now});
+
+/**
+ * Orbital angle in radians of a body going round once every `period`
+ * simulation seconds, `time` ms into the simulation. Runs as a worklet
+ * on the native UI thread.
+ */
+export const getOrbitAngle = (time: number, period: number, initialAngle: number): number => {
+  'worklet';
+  return initialAngle + (((Math.PI * 2 * time) / 1000 / period) % (Math.PI * 2));
+};
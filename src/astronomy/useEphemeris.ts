@@ -0,0 +1,58 @@
+import {useEffect, useMemo, useState} from 'react';
+import {Clock, systemClock} from '../timer/pomodoroEngine';
+import {PLANET_ELEMENTS, PlanetName, getHeliocentricPosition} from './ephemeris';
+import {DAY_WARP, SimulationClock, getSimulationRate, getSimulationTime} from './simulationClock';
+
+// How often planet positions are recomputed while the simulation runs, in
+// milliseconds: every second, or every simulated day under a faster warp
+const REFRESH_INTERVAL = 1000;
+const MIN_REFRESH_INTERVAL = 50;
+
+const getRefreshInterval = (rate: number): number =>
+  Math.max(MIN_REFRESH_INTERVAL, Math.min(REFRESH_INTERVAL, (DAY_WARP * 1000) / Math.abs(rate)));
+
+export interface Ephemeris {
+  date: Date; // Moment the positions are for
+  longitudes: Record<PlanetName, number>; // Heliocentric ecliptic longitude, in radians
+}
+
+/**
+ * useEphemeris Hook
+ *
+ * Real planet positions for the simulation's date while enabled, where
+ * the simulation time is a timestamp. Refreshed every second while the
+ * simulation runs (more often under the day-per-second warps) and right
+ * away when it is scrubbed; null while disabled.
+ */
+export const useEphemeris = (
+  enabled: boolean,
+  simulation: SimulationClock,
+  clock: Clock = systemClock,
+): Ephemeris | null => {
+  const [now, setNow] = useState(() => clock.now());
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    setNow(clock.now());
+    const rate = getSimulationRate(simulation);
+    if (rate === 0) {
+      return;
+    }
+    const interval = setInterval(() => setNow(clock.now()), getRefreshInterval(rate));
+    return () => clearInterval(interval);
+  }, [enabled, simulation, clock]);
+
+  return useMemo(() => {
+    if (!enabled) {
+      return null;
+    }
+    const date = new Date(getSimulationTime(simulation, now));
+    const longitudes = {} as Record<PlanetName, number>;
+    (Object.keys(PLANET_ELEMENTS) as PlanetName[]).forEach(planet => {
+      longitudes[planet] = (getHeliocentricPosition(planet, date).longitude * Math.PI) / 180;
+    });
+    return {date, longitudes};
+  }, [enabled, simulation, now]);
+};
@@ -0,0 +1,79 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {Clock, systemClock} from '../timer/pomodoroEngine';
+import {
+  SimulationClock,
+  createSimulationClock,
+  reverseSimulation,
+  scrubSimulation,
+  setSimulationWarp,
+} from './simulationClock';
+
+// How far scrubbing reaches either side of where the simulation started, in ms:
+// a couple of minutes of the stylized orbits, or a year of real dates
+const ORBIT_SCRUB_SPAN = 2 * 60 * 1000;
+const REAL_TIME_SCRUB_SPAN = 365 * 24 * 60 * 60 * 1000;
+
+export interface SimulationController {
+  simulation: SimulationClock;
+  realTime: boolean; // Simulation time is a date (ephemeris) rather than time since start
+  origin: number; // Simulation time the clock started at, in ms
+  span: number; // Scrubbing reaches this far either side of the origin, in ms
+  setWarp: (warp: number) => void;
+  toggleReverse: () => void;
+  scrubTo: (time: number) => void;
+}
+
+const startSimulation = (realTime: boolean, now: number) => {
+  const origin = realTime ? now : 0;
+  return {simulation: createSimulationClock(origin, now), origin};
+};
+
+/**
+ * useSimulationClock Hook
+ *
+ * Owns the screen's simulation clock and its controls. With real time the
+ * simulation starts at the current date, otherwise at zero; switching
+ * between the two starts it over.
+ */
+export const useSimulationClock = (
+  realTime: boolean,
+  clock: Clock = systemClock,
+): SimulationController => {
+  const [state, setState] = useState(() => startSimulation(realTime, clock.now()));
+
+  const realTimeRef = useRef(realTime);
+  useEffect(() => {
+    if (realTimeRef.current !== realTime) {
+      realTimeRef.current = realTime;
+      setState(startSimulation(realTime, clock.now()));
+    }
+  }, [realTime, clock]);
+
+  const setWarp = useCallback(
+    (warp: number) => {
+      setState(prev => ({...prev, simulation: setSimulationWarp(prev.simulation, warp, clock.now())}));
+    },
+    [clock],
+  );
+
+  const toggleReverse = useCallback(() => {
+    setState(prev => ({...prev, simulation: reverseSimulation(prev.simulation, clock.now())}));
+  }, [clock]);
+
+  const scrubTo = useCallback(
+    (time: number) => {
+      setState(prev => ({...prev, simulation: scrubSimulation(prev.simulation, time, clock.now())}));
+    },
+    [clock],
+  );
+
+  return {
+    simulation: state.simulation,
+    realTime,
+    origin: state.origin,
+    span: realTime ? REAL_TIME_SCRUB_SPAN : ORBIT_SCRUB_SPAN,
+    setWarp,
+    toggleReverse,
+    scrubTo,
+  };
+};
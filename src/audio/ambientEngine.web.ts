@@ -0,0 +1,164 @@
+import {
+  AMBIENT_LAYERS,
+  AmbientLayerId,
+  AmbientMix,
+  NoiseColor,
+  fillNoise,
+  getBinauralFrequencies,
+} from './ambientGenerators';
+
+export interface AmbientEngineCallbacks {
+  onAutoplayBlocked: (blocked: boolean) => void; // The browser refused to start the audio
+}
+
+export interface AmbientEngine {
+  setMix: (mix: AmbientMix) => void;
+  setVolume: (volume: number, fadeSeconds: number) => void; // Suspends once faded out
+  resume: () => void; // Retry blocked audio, e.g. from a tap
+  close: () => void;
+}
+
+// Length of the looped noise buffers, in seconds
+const NOISE_SECONDS = 8;
+
+// Time constant for layer volume and frequency changes, in seconds
+const SMOOTHING = 0.1;
+
+// A resume still pending after this long is waiting for a user gesture
+const AUTOPLAY_CHECK_MS = 500;
+
+/**
+ * Ambient Engine (WebAudio)
+ *
+ * Real-time graph for the ambient generators: looped noise buffers, a
+ * filtered and fluttering noise for rain, and a pair of panned
+ * oscillators for binaural beats. Every layer has its own gain feeding
+ * one master gain. Returns null where WebAudio is not available.
+ */
+export const createAmbientEngine = (callbacks: AmbientEngineCallbacks): AmbientEngine | null => {
+  if (typeof AudioContext === 'undefined') {
+    return null;
+  }
+  const context = new AudioContext();
+  const master = context.createGain();
+  master.gain.value = 0;
+  master.connect(context.destination);
+
+  const layerGains = {} as Record<AmbientLayerId, GainNode>;
+  AMBIENT_LAYERS.forEach(layer => {
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    gain.connect(master);
+    layerGains[layer.id] = gain;
+  });
+
+  const startNoise = (color: NoiseColor): AudioBufferSourceNode => {
+    const buffer = context.createBuffer(1, context.sampleRate * NOISE_SECONDS, context.sampleRate);
+    fillNoise(color, buffer.getChannelData(0));
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.start();
+    return source;
+  };
+
+  startNoise('white').connect(layerGains.white);
+  startNoise('pink').connect(layerGains.pink);
+  startNoise('brown').connect(layerGains.brown);
+
+  // Rain: band-limited pink noise with a slow, uneven flutter in loudness
+  const rainHighpass = context.createBiquadFilter();
+  rainHighpass.type = 'highpass';
+  rainHighpass.frequency.value = 500;
+  const rainLowpass = context.createBiquadFilter();
+  rainLowpass.type = 'lowpass';
+  rainLowpass.frequency.value = 7000;
+  const rainFlutter = context.createGain();
+  rainFlutter.gain.value = 0.8;
+  const flutterDepth = context.createGain();
+  flutterDepth.gain.value = 0.2;
+  const flutter = context.createOscillator();
+  flutter.frequency.value = 0.23;
+  flutter.connect(flutterDepth);
+  flutterDepth.connect(rainFlutter.gain);
+  flutter.start();
+  startNoise('pink').connect(rainHighpass);
+  rainHighpass.connect(rainLowpass);
+  rainLowpass.connect(rainFlutter);
+  rainFlutter.connect(layerGains.rain);
+
+  // Binaural beats: one sine per ear
+  const startTone = (pan: number): OscillatorNode => {
+    const oscillator = context.createOscillator();
+    const panner = context.createStereoPanner();
+    panner.pan.value = pan;
+    oscillator.connect(panner);
+    panner.connect(layerGains.binaural);
+    oscillator.start();
+    return oscillator;
+  };
+  const leftTone = startTone(-1);
+  const rightTone = startTone(1);
+
+  let suspendTimeout: ReturnType<typeof setTimeout> | null = null;
+  let audible = false;
+
+  // Browsers that block autoplay either reject the resume or leave it
+  // pending until the user interacts with the page
+  const resume = () => {
+    context
+      .resume()
+      .then(() => callbacks.onAutoplayBlocked(false))
+      .catch(err => {
+        if (err?.name === 'NotAllowedError') {
+          callbacks.onAutoplayBlocked(true);
+        } else {
+          console.error('Failed to resume ambient audio:', err);
+        }
+      });
+    setTimeout(() => {
+      if (audible && context.state === 'suspended') {
+        callbacks.onAutoplayBlocked(true);
+      }
+    }, AUTOPLAY_CHECK_MS);
+  };
+
+  return {
+    setMix: mix => {
+      const now = context.currentTime;
+      AMBIENT_LAYERS.forEach(layer => {
+        layerGains[layer.id].gain.setTargetAtTime(mix.volumes[layer.id] ?? 0, now, SMOOTHING);
+      });
+      const {left, right} = getBinauralFrequencies(mix.binauralCarrier, mix.binauralOffset);
+      leftTone.frequency.setTargetAtTime(left, now, SMOOTHING);
+      rightTone.frequency.setTargetAtTime(right, now, SMOOTHING);
+    },
+    setVolume: (volume, fadeSeconds) => {
+      if (suspendTimeout) {
+        clearTimeout(suspendTimeout);
+        suspendTimeout = null;
+      }
+      audible = volume > 0;
+      if (audible && context.state === 'suspended') {
+        resume();
+      }
+      const now = context.currentTime;
+      master.gain.cancelScheduledValues(now);
+      master.gain.setValueAtTime(master.gain.value, now);
+      master.gain.linearRampToValueAtTime(volume, now + fadeSeconds);
+      if (volume === 0) {
+        // Nothing to hear, so stop rendering until the next fade in
+        suspendTimeout = setTimeout(() => {
+          context.suspend().catch(err => console.error('Failed to suspend ambient audio:', err));
+        }, fadeSeconds * 1000);
+      }
+    },
+    resume,
+    close: () => {
+      if (suspendTimeout) {
+        clearTimeout(suspendTimeout);
+      }
+      context.close().catch(err => console.error('Failed to close ambient audio:', err));
+    },
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * Ambient Generators
+ *
+ * Built-in ambient sounds synthesized in real time instead of played
+ * from files: white, pink and brown noise, rain made from filtered noise
+ * and binaural beats. Each layer has its own volume so they can be mixed.
+ * This module holds the catalog and the sample math; the WebAudio graph
+ * lives in ambientEngine.web.ts.
+ */
+
+export type AmbientLayerId = 'white' | 'pink' | 'brown' | 'rain' | 'binaural';
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+export interface AmbientLayer {
+  id: AmbientLayerId;
+  label: string;
+}
+
+export interface AmbientMix {
+  volumes: Record<AmbientLayerId, number>; // 0 to 1 per layer
+  binauralCarrier: number; // in Hz, heard as the tone
+  binauralOffset: number; // in Hz, difference between the ears, heard as the beat
+}
+
+export const AMBIENT_LAYERS: AmbientLayer[] = [
+  {id: 'white', label: 'White Noise'},
+  {id: 'pink', label: 'Pink Noise'},
+  {id: 'brown', label: 'Brown Noise'},
+  {id: 'rain', label: 'Rain'},
+  {id: 'binaural', label: 'Binaural Beats'},
+];
+
+export const DEFAULT_AMBIENT_MIX: AmbientMix = {
+  volumes: {white: 0, pink: 0, brown: 0.5, rain: 0.5, binaural: 0},
+  binauralCarrier: 200,
+  binauralOffset: 10,
+};
+
+// Samples at the end of a noise buffer blended into its start, so it loops without a click
+const LOOP_BLEND_SAMPLES = 2048;
+
+// Sample generator for a noise color, keeping its own filter state
+const createNoiseSource = (color: NoiseColor, random: () => number): (() => number) => {
+  const white = () => random() * 2 - 1;
+  if (color === 'white') {
+    return white;
+  }
+  if (color === 'pink') {
+    // Paul Kellet's refined pink noise filter
+    let b0 = 0;
+    let b1 = 0;
+    let b2 = 0;
+    let b3 = 0;
+    let b4 = 0;
+    let b5 = 0;
+    let b6 = 0;
+    return () => {
+      const w = white();
+      b0 = 0.99886 * b0 + w * 0.0555179;
+      b1 = 0.99332 * b1 + w * 0.0750759;
+      b2 = 0.969 * b2 + w * 0.153852;
+      b3 = 0.8665 * b3 + w * 0.3104856;
+      b4 = 0.55 * b4 + w * 0.5329522;
+      b5 = -0.7616 * b5 - w * 0.016898;
+      const pink = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + w * 0.5362) * 0.11;
+      b6 = w * 0.115926;
+      return pink;
+    };
+  }
+  // Brown noise: leaky integration of white noise
+  let last = 0;
+  return () => {
+    last = (last + 0.02 * white()) / 1.02;
+    return last * 3.5;
+  };
+};
+
+/**
+ * Fill a buffer with noise of the given color that loops seamlessly.
+ * Samples are clamped to -1..1.
+ */
+export const fillNoise = (
+  color: NoiseColor,
+  output: Float32Array,
+  random: () => number = Math.random,
+): void => {
+  const next = createNoiseSource(color, random);
+  const blend = Math.min(LOOP_BLEND_SAMPLES, Math.floor(output.length / 2));
+  const raw = new Float32Array(output.length + blend);
+  for (let i = 0; i < raw.length; i++) {
+    raw[i] = next();
+  }
+  // The start fades in from the samples that follow the end, so the last
+  // sample runs straight into the first when looping
+  for (let i = 0; i < output.length; i++) {
+    const sample =
+      i < blend ? raw[i] * (i / blend) + raw[output.length + i] * (1 - i / blend) : raw[i];
+    output[i] = Math.max(-1, Math.min(1, sample));
+  }
+};
+
+/**
+ * Tone for each ear. The beat is heard at the offset between them.
+ */
+export const getBinauralFrequencies = (
+  carrier: number,
+  offset: number,
+): {left: number; right: number} => ({
+  left: carrier - offset / 2,
+  right: carrier + offset / 2,
+});
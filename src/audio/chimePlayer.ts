@@ -0,0 +1,31 @@
+import Sound from 'react-native-sound';
+import {BUNDLED_CHIMES, ChimeId, FALLBACK_CHIME} from './chimes';
+
+// Mix chimes with the background music instead of interrupting it
+Sound.setCategory('Ambient', true);
+
+const CHIME_FILES: Partial<Record<ChimeId, number>> = {
+  bell: require('../../assets/audio/chimes/bell.wav'),
+  bowl: require('../../assets/audio/chimes/bowl.wav'),
+  chirp: require('../../assets/audio/chimes/chirp.wav'),
+};
+
+/**
+ * Chimes selectable on this platform. Native plays bundled files only.
+ */
+export const AVAILABLE_CHIMES = BUNDLED_CHIMES;
+
+/**
+ * Play a chime once at the given volume (0 to 1)
+ */
+export const playChime = (id: ChimeId, volume: number): void => {
+  const file = CHIME_FILES[id] ?? CHIME_FILES[FALLBACK_CHIME];
+  const sound = new Sound(file, (error: unknown) => {
+    if (error) {
+      console.error('Failed to load chime:', error);
+      return;
+    }
+    sound.setVolume(volume);
+    sound.play(() => sound.release());
+  });
+};
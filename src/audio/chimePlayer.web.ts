@@ -0,0 +1,60 @@
+import {CHIMES, ChimeId, ChimeNote, FALLBACK_CHIME, getChime} from './chimes';
+
+let audioContext: AudioContext | null = null;
+
+// Shared AudioContext, created on first use
+const getAudioContext = (): AudioContext | null => {
+  if (typeof AudioContext === 'undefined') {
+    return null;
+  }
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+};
+
+// Render notes with a short attack and an exponential decay
+const playNotes = (context: AudioContext, notes: ChimeNote[], volume: number) => {
+  const now = context.currentTime;
+  notes.forEach(note => {
+    const start = now + note.start;
+    const end = start + note.duration;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = note.wave;
+    oscillator.frequency.setValueAtTime(note.frequency, start);
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.linearRampToValueAtTime(volume * 0.3, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(end + 0.05);
+  });
+};
+
+/**
+ * Chimes selectable on this platform: bundled files and WebAudio synths
+ */
+export const AVAILABLE_CHIMES = CHIMES;
+
+/**
+ * Play a chime once at the given volume (0 to 1)
+ */
+export const playChime = (id: ChimeId, volume: number): void => {
+  const chime = getChime(id);
+  const context = chime.notes ? getAudioContext() : null;
+  if (chime.notes && context) {
+    context.resume().catch(err => console.log('Audio context blocked:', err));
+    playNotes(context, chime.notes, volume);
+    return;
+  }
+  if (typeof Audio === 'undefined') {
+    return;
+  }
+  const audio = new Audio(`/audio/chimes/${chime.notes ? FALLBACK_CHIME : chime.id}.wav`);
+  audio.volume = volume;
+  audio.play().catch(err => {
+    console.log('Chime prevented:', err);
+  });
+};
@@ -0,0 +1,65 @@
+/**
+ * Chimes
+ *
+ * Catalog of the audio cues played at session transitions. Bundled chimes
+ * are short sound files shipped with the app; synthesized chimes are
+ * described as notes and rendered with WebAudio, so they exist on web
+ * only. Platforms without WebAudio fall back to FALLBACK_CHIME.
+ */
+
+export type ChimeId = 'bell' | 'bowl' | 'chirp' | 'synthDing' | 'synthTriad' | 'synthPulse';
+
+export interface ChimeNote {
+  frequency: number; // in Hz
+  start: number; // in seconds from the start of the chime
+  duration: number; // in seconds
+  wave: 'sine' | 'triangle' | 'square';
+}
+
+export interface Chime {
+  id: ChimeId;
+  label: string;
+  duration: number; // in milliseconds, how long the music stays ducked
+  notes?: ChimeNote[]; // Present for synthesized chimes
+}
+
+export const CHIMES: Chime[] = [
+  {id: 'bell', label: 'Bell', duration: 1600},
+  {id: 'bowl', label: 'Singing Bowl', duration: 2400},
+  {id: 'chirp', label: 'Chirp', duration: 600},
+  {
+    id: 'synthDing',
+    label: 'Ding (synth)',
+    duration: 1200,
+    notes: [
+      {frequency: 1046.5, start: 0, duration: 1.2, wave: 'sine'},
+      {frequency: 2093, start: 0, duration: 0.6, wave: 'sine'},
+    ],
+  },
+  {
+    id: 'synthTriad',
+    label: 'Triad (synth)',
+    duration: 1400,
+    notes: [
+      {frequency: 523.25, start: 0, duration: 0.8, wave: 'triangle'},
+      {frequency: 659.25, start: 0.18, duration: 0.8, wave: 'triangle'},
+      {frequency: 783.99, start: 0.36, duration: 1.0, wave: 'triangle'},
+    ],
+  },
+  {
+    id: 'synthPulse',
+    label: 'Pulse (synth)',
+    duration: 700,
+    notes: [
+      {frequency: 880, start: 0, duration: 0.12, wave: 'square'},
+      {frequency: 880, start: 0.25, duration: 0.12, wave: 'square'},
+    ],
+  },
+];
+
+export const FALLBACK_CHIME: ChimeId = 'bell';
+
+export const BUNDLED_CHIMES = CHIMES.filter(chime => !chime.notes);
+
+export const getChime = (id: ChimeId): Chime =>
+  CHIMES.find(chime => chime.id === id) ?? CHIMES[0];
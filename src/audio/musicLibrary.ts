@@ -0,0 +1,201 @@
+import {loadItem, saveItem} from '../utils/storage';
+import {MusicMood} from './musicSession';
+
+const MUSIC_LIBRARY_STORAGE_KEY = 'motivationWatchMusicLibrary';
+
+export type MusicRepeat = 'off' | 'all' | 'one';
+
+// Per-track gain limits and step, in decibels
+export const MIN_GAIN_DB = -12;
+export const MAX_GAIN_DB = 6;
+export const GAIN_STEP_DB = 3;
+
+export interface LibraryTrack {
+  id: string;
+  title: string;
+  mood: MusicMood; // Playlist the track belongs to
+  uri: string; // File URI on native; IndexedDB key on web
+  gainDb: number; // Loudness adjustment, MIN_GAIN_DB to MAX_GAIN_DB
+  addedAt: number; // Timestamp (ms)
+}
+
+export interface MusicLibrary {
+  tracks: LibraryTrack[]; // In playlist order
+  shuffle: boolean;
+  repeat: MusicRepeat;
+  volume: number; // Music level, 0 to 1, before per-track gain
+}
+
+/**
+ * Track as played by BackgroundMusic, either bundled with the app or
+ * imported into the library
+ */
+export interface PlaylistTrack {
+  id: string;
+  title: string;
+  artist: string;
+  source: string | number; // Bundled asset, web path or library URI
+  gainDb: number;
+  imported: boolean;
+}
+
+/**
+ * Music Library
+ *
+ * Audio files the user imported, each assigned to the focus or the break
+ * playlist. Imported tracks replace the bundled playlist for their
+ * session type. The audio itself is stored by the platform (see
+ * trackFiles); the library only keeps metadata and playback options,
+ * saved with the storage helpers (localStorage on web, device storage on
+ * native).
+ */
+export const EMPTY_MUSIC_LIBRARY: MusicLibrary = {
+  tracks: [],
+  shuffle: false,
+  repeat: 'all',
+  volume: 0.3,
+};
+
+// Seconds into a track after which "previous" restarts it instead
+export const RESTART_THRESHOLD_SECONDS = 3;
+
+export const loadMusicLibrary = (): MusicLibrary => ({
+  ...EMPTY_MUSIC_LIBRARY,
+  ...loadItem<MusicLibrary>(MUSIC_LIBRARY_STORAGE_KEY),
+});
+
+export const saveMusicLibrary = (library: MusicLibrary): void => {
+  saveItem(MUSIC_LIBRARY_STORAGE_KEY, library);
+};
+
+export const createLibraryTrack = (
+  title: string,
+  uri: string,
+  mood: MusicMood,
+  now: number,
+): LibraryTrack => ({
+  id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+  title: title.trim() || 'Untitled',
+  mood,
+  uri,
+  gainDb: 0,
+  addedAt: now,
+});
+
+/**
+ * Move a track up (-1) or down (+1) within its own playlist
+ */
+export const moveTrack = (
+  tracks: LibraryTrack[],
+  trackId: string,
+  offset: -1 | 1,
+): LibraryTrack[] => {
+  const from = tracks.findIndex(track => track.id === trackId);
+  if (from < 0) {
+    return tracks;
+  }
+  let to = from + offset;
+  while (to >= 0 && to < tracks.length && tracks[to].mood !== tracks[from].mood) {
+    to += offset;
+  }
+  if (to < 0 || to >= tracks.length) {
+    return tracks;
+  }
+  const moved = [...tracks];
+  [moved[from], moved[to]] = [moved[to], moved[from]];
+  return moved;
+};
+
+export const clampGain = (gainDb: number): number =>
+  Math.max(MIN_GAIN_DB, Math.min(MAX_GAIN_DB, gainDb));
+
+/**
+ * Playback volume for a track, with its gain applied to the music level
+ */
+export const getTrackVolume = (level: number, gainDb: number): number =>
+  Math.min(1, Math.max(0, level * Math.pow(10, gainDb / 20)));
+
+/**
+ * Tracks to play for a session type: the imported ones, or the bundled
+ * playlist when none were imported for it
+ */
+export const getPlaylist = (
+  libraryTracks: LibraryTrack[],
+  mood: MusicMood,
+  bundled: PlaylistTrack[],
+): PlaylistTrack[] => {
+  const imported = libraryTracks
+    .filter(track => track.mood === mood)
+    .map(track => ({
+      id: track.id,
+      title: track.title,
+      artist: 'My Library',
+      source: track.uri,
+      gainDb: track.gainDb,
+      imported: true,
+    }));
+  return imported.length > 0 ? imported : bundled;
+};
+
+/**
+ * Order to play a playlist in, as indexes into it. Shuffling uses a
+ * Fisher-Yates pass over the injected random source.
+ */
+export const getPlayOrder = (
+  count: number,
+  shuffle: boolean,
+  random: () => number = Math.random,
+): number[] => {
+  const order = Array.from({length: count}, (_, index) => index);
+  if (shuffle) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  }
+  return order;
+};
+
+/**
+ * Position in the play order after a track ends, or null when playback
+ * should stop
+ */
+export const getNextPosition = (
+  position: number,
+  count: number,
+  repeat: MusicRepeat,
+): number | null => {
+  if (count === 0) {
+    return null;
+  }
+  if (repeat === 'one') {
+    return position;
+  }
+  if (position + 1 < count) {
+    return position + 1;
+  }
+  return repeat === 'all' ? 0 : null;
+};
+
+/**
+ * Position in the play order when the user skips a track. Skipping always
+ * wraps around, whatever the repeat mode; going back more than
+ * RESTART_THRESHOLD_SECONDS into a track restarts it instead.
+ */
+export const getSkipPosition = (
+  position: number,
+  count: number,
+  direction: 'previous' | 'next',
+  elapsed: number = 0,
+): number => {
+  if (count === 0) {
+    return 0;
+  }
+  if (direction === 'next') {
+    return (position + 1) % count;
+  }
+  if (elapsed > RESTART_THRESHOLD_SECONDS) {
+    return position;
+  }
+  return (position - 1 + count) % count;
+};
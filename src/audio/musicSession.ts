@@ -0,0 +1,60 @@
+import {SessionType, TimerState} from '../timer/pomodoroEngine';
+
+/**
+ * Music Session
+ *
+ * Decides what the background music should do for the current Pomodoro
+ * session: which playlist fits the session type, whether music plays at
+ * all, and the volume curve used to fade between playlists.
+ */
+
+export type MusicMood = 'focus' | 'break';
+
+// Where background music comes from: playlist tracks or ambient generators
+export type MusicSource = 'playlist' | 'ambient';
+
+export const MUSIC_MOODS: MusicMood[] = ['focus', 'break'];
+
+export const getMusicMood = (sessionType: SessionType): MusicMood =>
+  sessionType === 'work' ? 'focus' : 'break';
+
+/**
+ * Music plays whenever it is enabled, or only while the timer runs when
+ * it should pause with the timer.
+ */
+export const shouldPlayMusic = (
+  enabled: boolean,
+  timerState: TimerState,
+  pauseWhenIdle: boolean,
+): boolean => enabled && (!pauseWhenIdle || timerState === 'running');
+
+/**
+ * Volume part-way through a fade, with progress from 0 to 1. Equal-power
+ * curves keep the loudness steady while one playlist fades into another.
+ */
+export const getFadeVolume = (from: number, to: number, progress: number): number => {
+  const p = Math.min(1, Math.max(0, progress));
+  const curve = to > from ? Math.sin((p * Math.PI) / 2) : 1 - Math.cos((p * Math.PI) / 2);
+  return Math.min(1, Math.max(0, from + (to - from) * curve));
+};
+
+// Shortest overlap between tracks, in seconds, so a crossfade of 0 still
+// starts the next track before the current one falls silent
+export const GAPLESS_LEAD_SECONDS = 0.1;
+
+/**
+ * How far the crossfade into the next track has got, from 0 to 1, given
+ * the playing track's time and length in seconds. The crossfade never
+ * takes more than half of a short track.
+ */
+export const getTrackCrossfadeProgress = (
+  currentTime: number,
+  duration: number,
+  crossfadeSeconds: number,
+): number => {
+  if (!(duration > 0)) {
+    return 0;
+  }
+  const fade = Math.max(GAPLESS_LEAD_SECONDS, Math.min(crossfadeSeconds, duration / 2));
+  return Math.min(1, Math.max(0, (currentTime - (duration - fade)) / fade));
+};
@@ -0,0 +1,43 @@
+import TrackPlayer, {Event} from 'react-native-track-player';
+import {getSkipPosition} from './musicLibrary';
+
+/**
+ * Skip to the previous or next track in the queue, wrapping around.
+ * Going back well into a track restarts it instead.
+ */
+export const skipTrack = async (direction: 'previous' | 'next'): Promise<void> => {
+  const [index, queue, progress] = await Promise.all([
+    TrackPlayer.getActiveTrackIndex(),
+    TrackPlayer.getQueue(),
+    TrackPlayer.getProgress(),
+  ]);
+  if (index === undefined || queue.length === 0) {
+    return;
+  }
+  const position = getSkipPosition(index, queue.length, direction, progress.position);
+  if (position === index) {
+    await TrackPlayer.seekTo(0);
+  } else {
+    await TrackPlayer.skip(position);
+  }
+};
+
+/**
+ * Playback Service
+ *
+ * Handles lock screen, notification and headset controls for the
+ * background music (native only, registered in index.js). Play and pause
+ * are handled by BackgroundMusic instead, so they go through the same
+ * session rules and fades as the in-app controls.
+ */
+export const PlaybackService = async (): Promise<void> => {
+  TrackPlayer.addEventListener(Event.RemoteNext, () => {
+    skipTrack('next').catch(err => console.error('Failed to skip track:', err));
+  });
+  TrackPlayer.addEventListener(Event.RemotePrevious, () => {
+    skipTrack('previous').catch(err => console.error('Failed to skip track:', err));
+  });
+  TrackPlayer.addEventListener(Event.RemoteSeek, event => {
+    TrackPlayer.seekTo(event.position).catch(err => console.error('Failed to seek:', err));
+  });
+};
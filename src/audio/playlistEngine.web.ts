@@ -0,0 +1,389 @@
+import {
+  MusicRepeat,
+  PlaylistTrack,
+  getNextPosition,
+  getSkipPosition,
+  getTrackVolume,
+} from './musicLibrary';
+import {getFadeVolume, getTrackCrossfadeProgress} from './musicSession';
+import {resolveTrackUrl} from './trackFiles';
+
+export interface NowPlayingTrack {
+  track: PlaylistTrack | null;
+  position: number; // in seconds
+  duration: number; // in seconds, 0 when unknown
+}
+
+export interface PlaylistEngineCallbacks {
+  onProgress: () => void; // The track changed or its time moved on
+  onAutoplayBlocked: (blocked: boolean) => void; // The browser refused to start playback
+}
+
+export interface PlaylistEngine {
+  setQueue: (tracks: PlaylistTrack[], order: number[]) => void; // Starts over from the top
+  updateTracks: (tracks: PlaylistTrack[]) => void; // Same tracks in the same order, new gains
+  setRepeat: (repeat: MusicRepeat) => void;
+  setCrossfade: (seconds: number) => void; // 0 for gapless
+  setLevel: (level: number) => void; // Music volume before each track's gain
+  play: () => void;
+  pause: () => void;
+  skip: (direction: 'previous' | 'next') => void;
+  seek: (seconds: number) => void;
+  getNowPlaying: () => NowPlayingTrack;
+  isFinished: () => boolean;
+  close: () => void;
+}
+
+// One of the two audio elements a playlist alternates between
+interface Deck {
+  audio: HTMLAudioElement;
+  position: number | null; // Position in the play order of the loaded track
+  objectUrl: string | null; // Loaded library track, revoked when replaced
+  loaded: boolean;
+  loadId: number; // Bumped on every load so a slower, older load is dropped
+  fade: number; // Share of the level during a crossfade, 0 to 1
+}
+
+// How often the engine checks for the next crossfade, in milliseconds
+const TICK_MS = 50;
+
+const getDuration = (audio: HTMLAudioElement): number =>
+  Number.isFinite(audio.duration) ? audio.duration : 0;
+
+/**
+ * Playlist Engine (web)
+ *
+ * Plays one playlist on two audio elements. While one track plays, the
+ * next one loads on the other element and starts before the first ends,
+ * so tracks crossfade (or, with a crossfade of 0, follow each other
+ * without a gap) instead of waiting for a new source to load. Playback
+ * the browser blocks for lack of a user gesture is reported, so the UI
+ * can ask for a tap.
+ */
+export const createPlaylistEngine = (callbacks: PlaylistEngineCallbacks): PlaylistEngine => {
+  const createDeck = (): Deck => ({
+    audio: new Audio(),
+    position: null,
+    objectUrl: null,
+    loaded: false,
+    loadId: 0,
+    fade: 1,
+  });
+  const decks: [Deck, Deck] = [createDeck(), createDeck()];
+  let current = 0;
+  let tracks: PlaylistTrack[] = [];
+  let order: number[] = [];
+  let repeat: MusicRepeat = 'all';
+  let crossfade = 0;
+  let level = 0;
+  let playing = false; // Should be playing, whether or not the browser allows it
+  let finished = false; // Stopped at the end of the playlist with repeat off
+  let crossfading = false;
+  let tick: ReturnType<typeof setInterval> | null = null;
+
+  const currentDeck = () => decks[current];
+  const idleDeck = () => decks[1 - current];
+  const getTrack = (deck: Deck): PlaylistTrack | undefined =>
+    deck.position === null ? undefined : tracks[order[deck.position]];
+  const getFollowing = (): number | null =>
+    currentDeck().position === null
+      ? null
+      : getNextPosition(currentDeck().position as number, order.length, repeat);
+
+  const applyVolume = (deck: Deck) => {
+    deck.audio.volume = getTrackVolume(level * deck.fade, getTrack(deck)?.gainDb ?? 0);
+  };
+
+  const playDeck = (deck: Deck) => {
+    deck.audio
+      .play()
+      .then(() => callbacks.onAutoplayBlocked(false))
+      .catch(err => {
+        if (err?.name === 'NotAllowedError') {
+          callbacks.onAutoplayBlocked(true);
+        } else if (err?.name !== 'AbortError') {
+          // AbortError only means the source changed before playback started
+          console.error('Failed to play track:', err);
+        }
+      });
+  };
+
+  const unloadDeck = (deck: Deck) => {
+    deck.loadId++;
+    deck.position = null;
+    deck.loaded = false;
+    deck.audio.pause();
+    deck.audio.removeAttribute('src');
+    if (deck.objectUrl) {
+      URL.revokeObjectURL(deck.objectUrl);
+      deck.objectUrl = null;
+    }
+  };
+
+  // Load the track at a play order position, resolving library tracks first
+  const loadDeck = async (deck: Deck, position: number): Promise<boolean> => {
+    const loadId = ++deck.loadId;
+    deck.position = position;
+    deck.loaded = false;
+    const track = getTrack(deck);
+    if (!track) {
+      return false;
+    }
+    try {
+      const url = track.imported ? await resolveTrackUrl(String(track.source)) : String(track.source);
+      if (deck.loadId !== loadId) {
+        // Another track was loaded while the file was resolving
+        if (track.imported) {
+          URL.revokeObjectURL(url);
+        }
+        return false;
+      }
+      if (deck.objectUrl) {
+        URL.revokeObjectURL(deck.objectUrl);
+      }
+      deck.objectUrl = track.imported ? url : null;
+      deck.audio.src = url;
+      deck.audio.load();
+      deck.loaded = true;
+      applyVolume(deck);
+      return true;
+    } catch (error) {
+      console.error('Failed to load track:', error);
+      return false;
+    }
+  };
+
+  // Get the track after the current one ready on the idle deck
+  const preloadFollowing = () => {
+    const following = getFollowing();
+    const idle = idleDeck();
+    if (following === null) {
+      unloadDeck(idle);
+    } else if (idle.position !== following || !idle.loaded) {
+      loadDeck(idle, following);
+    }
+  };
+
+  const stopCrossfade = () => {
+    if (!crossfading) {
+      return;
+    }
+    crossfading = false;
+    idleDeck().audio.pause();
+    idleDeck().audio.currentTime = 0;
+    idleDeck().fade = 1;
+    currentDeck().fade = 1;
+    applyVolume(currentDeck());
+  };
+
+  // Load a track on the current deck, dropping any crossfade in progress
+  const jumpTo = async (position: number) => {
+    stopCrossfade();
+    finished = false;
+    currentDeck().fade = 1;
+    const loaded = await loadDeck(currentDeck(), position);
+    callbacks.onProgress();
+    if (!loaded) {
+      return;
+    }
+    if (playing) {
+      playDeck(currentDeck());
+    }
+    preloadFollowing();
+  };
+
+  // Hand playback over to the idle deck once it has faded in
+  const finishCrossfade = () => {
+    const outgoing = currentDeck();
+    outgoing.audio.pause();
+    outgoing.fade = 1;
+    current = 1 - current;
+    currentDeck().fade = 1;
+    applyVolume(currentDeck());
+    crossfading = false;
+    callbacks.onProgress();
+    preloadFollowing();
+  };
+
+  const handleTick = () => {
+    const deck = currentDeck();
+    const idle = idleDeck();
+    if (!deck.loaded || deck.audio.paused) {
+      return;
+    }
+    const progress = getTrackCrossfadeProgress(
+      deck.audio.currentTime,
+      getDuration(deck.audio),
+      crossfade,
+    );
+    if (!crossfading) {
+      if (progress <= 0 || !idle.loaded || idle.position !== getFollowing()) {
+        return;
+      }
+      crossfading = true;
+      idle.audio.currentTime = 0;
+      idle.fade = 0;
+      applyVolume(idle);
+      playDeck(idle);
+    }
+    deck.fade = getFadeVolume(1, 0, progress);
+    idle.fade = getFadeVolume(0, 1, progress);
+    applyVolume(deck);
+    applyVolume(idle);
+    if (progress >= 1) {
+      finishCrossfade();
+    }
+  };
+
+  // A track ended without a crossfade: the next one wasn't ready in time,
+  // or the playlist is over
+  const handleEnded = (deck: Deck) => {
+    if (deck !== currentDeck()) {
+      return;
+    }
+    if (crossfading) {
+      finishCrossfade();
+      return;
+    }
+    const following = getFollowing();
+    if (following === null) {
+      finished = true;
+      callbacks.onProgress();
+      return;
+    }
+    if (idleDeck().loaded && idleDeck().position === following) {
+      current = 1 - current;
+      currentDeck().fade = 1;
+      applyVolume(currentDeck());
+      if (playing) {
+        playDeck(currentDeck());
+      }
+      callbacks.onProgress();
+      preloadFollowing();
+      return;
+    }
+    jumpTo(following);
+  };
+
+  const cleanups = decks.map(deck => {
+    deck.audio.preload = 'auto';
+    const onEnded = () => handleEnded(deck);
+    const onProgress = () => {
+      if (deck === currentDeck()) {
+        callbacks.onProgress();
+      }
+    };
+    deck.audio.addEventListener('ended', onEnded);
+    deck.audio.addEventListener('loadedmetadata', onProgress);
+    deck.audio.addEventListener('timeupdate', onProgress);
+    return () => {
+      deck.audio.removeEventListener('ended', onEnded);
+      deck.audio.removeEventListener('loadedmetadata', onProgress);
+      deck.audio.removeEventListener('timeupdate', onProgress);
+      unloadDeck(deck);
+    };
+  });
+
+  const stopTick = () => {
+    if (tick) {
+      clearInterval(tick);
+      tick = null;
+    }
+  };
+
+  return {
+    setQueue: (nextTracks, nextOrder) => {
+      tracks = nextTracks;
+      order = nextOrder;
+      stopCrossfade();
+      unloadDeck(idleDeck());
+      if (order.length === 0) {
+        unloadDeck(currentDeck());
+        callbacks.onProgress();
+        return;
+      }
+      jumpTo(0);
+    },
+    updateTracks: nextTracks => {
+      tracks = nextTracks;
+      decks.forEach(applyVolume);
+    },
+    setRepeat: nextRepeat => {
+      repeat = nextRepeat;
+      if (!crossfading) {
+        preloadFollowing();
+      }
+    },
+    setCrossfade: seconds => {
+      crossfade = seconds;
+    },
+    setLevel: nextLevel => {
+      level = nextLevel;
+      decks.forEach(applyVolume);
+    },
+    play: () => {
+      playing = true;
+      if (!tick) {
+        tick = setInterval(handleTick, TICK_MS);
+      }
+      const deck = currentDeck();
+      if (deck.loaded && !finished && deck.audio.paused) {
+        playDeck(deck);
+      }
+      if (crossfading && idleDeck().audio.paused) {
+        playDeck(idleDeck());
+      }
+    },
+    pause: () => {
+      playing = false;
+      stopTick();
+      decks.forEach(deck => deck.audio.pause());
+    },
+    skip: direction => {
+      const position = currentDeck().position;
+      if (position === null || order.length === 0) {
+        return;
+      }
+      const target = getSkipPosition(
+        position,
+        order.length,
+        direction,
+        currentDeck().audio.currentTime,
+      );
+      if (target !== position) {
+        jumpTo(target);
+        return;
+      }
+      stopCrossfade();
+      finished = false;
+      currentDeck().audio.currentTime = 0;
+      if (playing) {
+        playDeck(currentDeck());
+      }
+      callbacks.onProgress();
+    },
+    seek: seconds => {
+      const deck = currentDeck();
+      if (!deck.loaded) {
+        return;
+      }
+      stopCrossfade();
+      deck.audio.currentTime = Math.max(0, Math.min(seconds, getDuration(deck.audio)));
+      callbacks.onProgress();
+    },
+    getNowPlaying: () => {
+      const deck = currentDeck();
+      return {
+        track: getTrack(deck) ?? null,
+        position: deck.audio.currentTime,
+        duration: getDuration(deck.audio),
+      };
+    },
+    isFinished: () => finished,
+    close: () => {
+      playing = false;
+      stopTick();
+      cleanups.forEach(cleanup => cleanup());
+    },
+  };
+};
@@ -0,0 +1,12 @@
+/**
+ * Track Assets (native)
+ *
+ * Metro only bundles files that are required with a literal path, so
+ * every manifest file needs an entry here.
+ */
+const TRACK_ASSETS: Record<string, number> = {
+  'night-stockholm.mp3': require('../../assets/audio/night-stockholm.mp3'),
+  'night-greece.mp3': require('../../assets/audio/night-greece.mp3'),
+};
+
+export const getTrackSource = (file: string): number => TRACK_ASSETS[file];
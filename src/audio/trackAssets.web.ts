@@ -0,0 +1,6 @@
+/**
+ * Track Assets (web)
+ *
+ * public/audio is copied to /audio by the web build.
+ */
+export const getTrackSource = (file: string): string => `/audio/${file}`;
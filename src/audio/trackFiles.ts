@@ -0,0 +1,47 @@
+import DocumentPicker from 'react-native-document-picker';
+import RNFS from 'react-native-fs';
+
+export interface PickedTrackFile {
+  title: string;
+  uri: string;
+}
+
+// File name without its extension
+const getTitle = (name: string | null): string => (name ?? '').replace(/\.[^.]+$/, '');
+
+/**
+ * Track Files (native)
+ *
+ * Audio files are chosen with the system document picker and copied
+ * into the app's document directory, so they stay playable after the
+ * picker's temporary access ends.
+ */
+export const pickTrackFiles = async (): Promise<PickedTrackFile[]> => {
+  try {
+    const files = await DocumentPicker.pick({
+      type: [DocumentPicker.types.audio],
+      allowMultiSelection: true,
+      copyTo: 'documentDirectory',
+    });
+    return files.map(file => ({title: getTitle(file.name), uri: file.fileCopyUri ?? file.uri}));
+  } catch (error) {
+    if (!DocumentPicker.isCancel(error)) {
+      console.error('Failed to pick audio files:', error);
+    }
+    return [];
+  }
+};
+
+export const resolveTrackUrl = async (uri: string): Promise<string> => uri;
+
+/**
+ * Delete a track's copy from the document directory. Tracks the picker
+ * could not copy point at the user's own file, which is left alone.
+ */
+export const deleteTrackFile = async (uri: string): Promise<void> => {
+  const path = decodeURIComponent(uri.replace(/^file:\/\//, ''));
+  if (!path.startsWith(`${RNFS.DocumentDirectoryPath}/`) || !(await RNFS.exists(path))) {
+    return;
+  }
+  await RNFS.unlink(path);
+};
@@ -0,0 +1,87 @@
+import {onFilePickerCancel} from '../utils/fileInput.web';
+
+export interface PickedTrackFile {
+  title: string;
+  uri: string;
+}
+
+const DATABASE_NAME = 'motivationWatchMusic';
+const STORE_NAME = 'tracks';
+
+// File name without its extension
+const getTitle = (name: string): string => name.replace(/\.[^.]+$/, '');
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one request against the track store and close the database after
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = makeRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+/**
+ * Track Files (web)
+ *
+ * Audio files chosen by the user are kept in IndexedDB, so the library
+ * survives reloads without re-importing. A track's URI is its key in
+ * the store.
+ */
+export const pickTrackFiles = (): Promise<PickedTrackFile[]> =>
+  new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'audio/*';
+    input.multiple = true;
+    input.onchange = () => {
+      const files = Array.from(input.files ?? []);
+      Promise.all(
+        files.map(async file => {
+          const uri = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+          await runRequest('readwrite', store => store.put(file, uri));
+          return {title: getTitle(file.name), uri};
+        }),
+      )
+        .then(resolve)
+        .catch(error => {
+          console.error('Failed to store audio files:', error);
+          resolve([]);
+        });
+    };
+    onFilePickerCancel(input, () => resolve([]));
+    input.click();
+  });
+
+/**
+ * Object URL for a stored track; revoke it with URL.revokeObjectURL
+ * when the track is no longer loaded
+ */
+export const resolveTrackUrl = async (uri: string): Promise<string> => {
+  const file = await runRequest<Blob | undefined>('readonly', store => store.get(uri));
+  if (!file) {
+    throw new Error(`Track file ${uri} is missing`);
+  }
+  return URL.createObjectURL(file);
+};
+
+export const deleteTrackFile = async (uri: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(uri));
+};
@@ -0,0 +1,88 @@
+import {MusicMood} from './musicSession';
+import {PlaylistTrack} from './musicLibrary';
+
+export interface ManifestTrack {
+  id: string;
+  title: string;
+  artist: string;
+  duration: number; // in seconds
+  license: string;
+  file: string; // File name in assets/audio (native) and public/audio (web)
+  mood: MusicMood; // Playlist the track belongs to
+}
+
+/**
+ * Track Manifest
+ *
+ * The bundled background music, read by both BackgroundMusic components.
+ * Every file listed here must exist in assets/audio and public/audio and
+ * have an entry in the native asset map (trackAssets.ts); the manifest
+ * test fails otherwise.
+ */
+export const TRACK_MANIFEST: ManifestTrack[] = [
+  {
+    id: 'night-stockholm',
+    title: 'Night Stockholm',
+    artist: 'Deep Zen',
+    duration: 182,
+    license: 'Unspecified',
+    file: 'night-stockholm.mp3',
+    mood: 'focus',
+  },
+  {
+    id: 'night-greece',
+    title: 'Night Greece',
+    artist: 'Deep Zen',
+    duration: 141,
+    license: 'Unspecified',
+    file: 'night-greece.mp3',
+    mood: 'break',
+  },
+];
+
+/**
+ * Problems with a manifest, one message each; empty when it is valid.
+ * `fileExists` tells whether a listed file is present.
+ */
+export const validateManifest = (
+  manifest: ManifestTrack[],
+  fileExists: (file: string) => boolean,
+): string[] => {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  manifest.forEach(track => {
+    if (ids.has(track.id)) {
+      problems.push(`Duplicate track id "${track.id}"`);
+    }
+    ids.add(track.id);
+    if (!track.title.trim() || !track.artist.trim() || !track.license.trim()) {
+      problems.push(`Track "${track.id}" needs a title, artist and license`);
+    }
+    if (!(track.duration > 0)) {
+      problems.push(`Track "${track.id}" has no duration`);
+    }
+    if (!fileExists(track.file)) {
+      problems.push(`Track "${track.id}" is missing its file ${track.file}`);
+    }
+  });
+  return problems;
+};
+
+/**
+ * Bundled playlists built from the manifest. `getSource` maps a file
+ * name to what the platform plays: an asset id on native, a URL on web.
+ */
+export const getBundledPlaylists = (
+  getSource: (file: string) => string | number,
+): Record<MusicMood, PlaylistTrack[]> => {
+  const playlist = (mood: MusicMood) =>
+    TRACK_MANIFEST.filter(track => track.mood === mood).map(track => ({
+      id: track.id,
+      title: track.title,
+      artist: track.artist,
+      source: getSource(track.file),
+      gainDb: 0,
+      imported: false,
+    }));
+  return {focus: playlist('focus'), break: playlist('break')};
+};
@@ -0,0 +1,101 @@
+import {useCallback, useEffect, useState} from 'react';
+import {MusicMood} from './musicSession';
+import {
+  MusicLibrary,
+  MusicRepeat,
+  clampGain,
+  createLibraryTrack,
+  loadMusicLibrary,
+  moveTrack as moveLibraryTrack,
+  saveMusicLibrary,
+} from './musicLibrary';
+import {deleteTrackFile, pickTrackFiles} from './trackFiles';
+
+export interface MusicLibraryController {
+  library: MusicLibrary;
+  importTracks: (mood: MusicMood) => Promise<number>; // Returns the number of tracks added
+  removeTrack: (trackId: string) => void;
+  moveTrack: (trackId: string, offset: -1 | 1) => void;
+  setTrackMood: (trackId: string, mood: MusicMood) => void;
+  setTrackGain: (trackId: string, gainDb: number) => void;
+  toggleShuffle: () => void;
+  setRepeat: (repeat: MusicRepeat) => void;
+  setVolume: (volume: number) => void;
+}
+
+/**
+ * useMusicLibrary Hook
+ *
+ * Owns the persisted music library. Imports go through the platform file
+ * picker, and removing a track also deletes its stored audio.
+ */
+export const useMusicLibrary = (): MusicLibraryController => {
+  const [library, setLibrary] = useState<MusicLibrary>(loadMusicLibrary);
+
+  // Persist the library whenever it changes
+  useEffect(() => {
+    saveMusicLibrary(library);
+  }, [library]);
+
+  const importTracks = useCallback(async (mood: MusicMood): Promise<number> => {
+    const files = await pickTrackFiles();
+    const now = Date.now();
+    const tracks = files.map(file => createLibraryTrack(file.title, file.uri, mood, now));
+    setLibrary(prev => ({...prev, tracks: [...prev.tracks, ...tracks]}));
+    return tracks.length;
+  }, []);
+
+  const removeTrack = useCallback(
+    (trackId: string) => {
+      const track = library.tracks.find(t => t.id === trackId);
+      if (!track) {
+        return;
+      }
+      deleteTrackFile(track.uri).catch(err => console.error('Failed to delete track file:', err));
+      setLibrary(prev => ({...prev, tracks: prev.tracks.filter(t => t.id !== trackId)}));
+    },
+    [library.tracks],
+  );
+
+  const moveTrack = useCallback((trackId: string, offset: -1 | 1) => {
+    setLibrary(prev => ({...prev, tracks: moveLibraryTrack(prev.tracks, trackId, offset)}));
+  }, []);
+
+  const setTrackMood = useCallback((trackId: string, mood: MusicMood) => {
+    setLibrary(prev => ({
+      ...prev,
+      tracks: prev.tracks.map(t => (t.id === trackId ? {...t, mood} : t)),
+    }));
+  }, []);
+
+  const setTrackGain = useCallback((trackId: string, gainDb: number) => {
+    setLibrary(prev => ({
+      ...prev,
+      tracks: prev.tracks.map(t => (t.id === trackId ? {...t, gainDb: clampGain(gainDb)} : t)),
+    }));
+  }, []);
+
+  const toggleShuffle = useCallback(() => {
+    setLibrary(prev => ({...prev, shuffle: !prev.shuffle}));
+  }, []);
+
+  const setRepeat = useCallback((repeat: MusicRepeat) => {
+    setLibrary(prev => ({...prev, repeat}));
+  }, []);
+
+  const setVolume = useCallback((volume: number) => {
+    setLibrary(prev => ({...prev, volume: Math.max(0, Math.min(1, volume))}));
+  }, []);
+
+  return {
+    library,
+    importTracks,
+    removeTrack,
+    moveTrack,
+    setTrackMood,
+    setTrackGain,
+    toggleShuffle,
+    setRepeat,
+    setVolume,
+  };
+};
@@ -0,0 +1,93 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {PomodoroState} from '../timer/pomodoroEngine';
+import {ChimeId, getChime} from './chimes';
+import {playChime} from './chimePlayer';
+
+export interface ChimeSettings {
+  workEndChime: ChimeId;
+  breakEndChime: ChimeId;
+  warningChime: ChimeId;
+  warningMinutes: number; // 0 turns the pre-end warning off
+  chimeVolume: number; // 0 to 1, 0 mutes all chimes
+}
+
+/**
+ * useSessionChimes Hook
+ *
+ * Plays a chime when a work session or a break completes, and an optional
+ * warning a few minutes before the running session ends. Returns whether
+ * a chime is playing, so background music can be ducked meanwhile.
+ */
+export const useSessionChimes = (state: PomodoroState, settings: ChimeSettings): boolean => {
+  const {workEndChime, breakEndChime, warningChime, warningMinutes, chimeVolume} = settings;
+  const [ducking, setDucking] = useState(false);
+  const duckTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const play = useCallback(
+    (id: ChimeId) => {
+      if (chimeVolume <= 0) {
+        return;
+      }
+      playChime(id, chimeVolume);
+      setDucking(true);
+      if (duckTimeoutRef.current) {
+        clearTimeout(duckTimeoutRef.current);
+      }
+      duckTimeoutRef.current = setTimeout(() => setDucking(false), getChime(id).duration);
+    },
+    [chimeVolume],
+  );
+
+  useEffect(
+    () => () => {
+      if (duckTimeoutRef.current) {
+        clearTimeout(duckTimeoutRef.current);
+      }
+    },
+    [],
+  );
+
+  // Chime once for the latest session completed since the last render.
+  // Sessions that ended while the app was closed were logged before the
+  // first render and stay silent.
+  const {log, logCount, timerState, endsAt, startedAt, timeRemaining} = state;
+  const loggedRef = useRef(logCount);
+  useEffect(() => {
+    const added = Math.min(logCount - loggedRef.current, log.length);
+    loggedRef.current = logCount;
+    const completed = log
+      .slice(log.length - Math.max(0, added))
+      .filter(record => record.outcome === 'completed');
+    const last = added > 0 ? completed[completed.length - 1] : undefined;
+    if (last) {
+      play(last.sessionType === 'work' ? workEndChime : breakEndChime);
+    }
+  }, [log, logCount, play, workEndChime, breakEndChime]);
+
+  // Warn once per session when the remaining time crosses the threshold.
+  // Sessions that start inside the warning window are not warned about.
+  const warningRef = useRef<{startedAt: number | null; armed: boolean}>({
+    startedAt: null,
+    armed: false,
+  });
+  const threshold = warningMinutes * 60;
+  useEffect(() => {
+    if (threshold <= 0 || timerState !== 'running' || endsAt === null) {
+      return;
+    }
+    const warning = warningRef.current;
+    if (warning.startedAt !== startedAt) {
+      warningRef.current = {startedAt, armed: timeRemaining > threshold};
+      return;
+    }
+    if (timeRemaining > threshold) {
+      // Armed again after an extension
+      warning.armed = true;
+    } else if (warning.armed) {
+      warning.armed = false;
+      play(warningChime);
+    }
+  }, [threshold, timerState, endsAt, startedAt, timeRemaining, play, warningChime]);
+
+  return ducking;
+};
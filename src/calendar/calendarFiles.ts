@@ -0,0 +1,49 @@
+import {Platform, Share} from 'react-native';
+import DocumentPicker from 'react-native-document-picker';
+import RNFS from 'react-native-fs';
+
+// Calendar files as the platform's document picker knows them
+const CALENDAR_TYPES = Platform.select({
+  ios: ['com.apple.ical.ics'],
+  default: ['text/calendar'],
+});
+
+// Filesystem path of a file:// URI
+const toPath = (uri: string): string => decodeURIComponent(uri.replace(/^file:\/\//, ''));
+
+/**
+ * Calendar Files (native)
+ *
+ * Reads an .ics file chosen with the system document picker, from a
+ * temporary copy so the picker's access can end. On iOS exports are
+ * written to an .ics file in the cache directory and shared from there,
+ * so the calendar can be saved to Files or opened in a calendar app.
+ */
+export const pickCalendarFile = async (): Promise<string | null> => {
+  let copyUri: string | null = null;
+  try {
+    const file = await DocumentPicker.pickSingle({type: CALENDAR_TYPES, copyTo: 'cachesDirectory'});
+    copyUri = file.fileCopyUri;
+    return await RNFS.readFile(toPath(copyUri ?? file.uri), 'utf8');
+  } catch (error) {
+    if (!DocumentPicker.isCancel(error)) {
+      console.error('Failed to read calendar file:', error);
+    }
+    return null;
+  } finally {
+    if (copyUri) {
+      RNFS.unlink(toPath(copyUri)).catch(err => console.error('Failed to delete calendar copy:', err));
+    }
+  }
+};
+
+export const saveCalendarFile = async (fileName: string, content: string): Promise<void> => {
+  // React Native's share sheet takes no files on Android, only text
+  if (Platform.OS !== 'ios') {
+    await Share.share({title: fileName, message: content});
+    return;
+  }
+  const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+  await RNFS.writeFile(path, content, 'utf8');
+  await Share.share({title: fileName, url: `file://${path}`});
+};
@@ -0,0 +1,40 @@
+import {onFilePickerCancel} from '../utils/fileInput.web';
+
+/**
+ * Calendar Files (web)
+ *
+ * Reads an .ics file chosen by the user and downloads exported calendars,
+ * entirely in the browser.
+ */
+export const pickCalendarFile = (): Promise<string | null> =>
+  new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.ics,text/calendar';
+    input.onchange = () => {
+      const file = input.files && input.files[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file
+        .text()
+        .then(resolve)
+        .catch(error => {
+          console.error('Failed to read calendar file:', error);
+          resolve(null);
+        });
+    };
+    onFilePickerCancel(input, () => resolve(null));
+    input.click();
+  });
+
+export const saveCalendarFile = async (fileName: string, content: string): Promise<void> => {
+  const url = URL.createObjectURL(new Blob([content], {type: 'text/calendar'}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away can abort the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,100 @@
+import {loadItem, saveItem} from '../utils/storage';
+import {IcsEvent} from './ics';
+
+const FOCUS_BLOCKS_STORAGE_KEY = 'motivationWatchFocusBlocks';
+
+export const DEFAULT_FOCUS_TAG = 'focus';
+
+export interface FocusBlock {
+  id: string; // UID of the calendar event it came from
+  title: string;
+  startsAt: number; // Timestamp (ms)
+  endsAt: number; // Timestamp (ms)
+  started: boolean; // The timer was started for this block
+}
+
+/**
+ * Focus Blocks
+ *
+ * Scheduled focus time imported from a calendar. An event becomes a
+ * focus block when it carries the chosen tag, either as one of its
+ * CATEGORIES or as a "#tag" in its summary or description. The timer
+ * starts a work session automatically when a block begins.
+ */
+export const loadFocusBlocks = (): FocusBlock[] =>
+  loadItem<FocusBlock[]>(FOCUS_BLOCKS_STORAGE_KEY) ?? [];
+
+export const saveFocusBlocks = (blocks: FocusBlock[]): void => {
+  saveItem(FOCUS_BLOCKS_STORAGE_KEY, blocks);
+};
+
+export const hasTag = (event: IcsEvent, tag: string): boolean => {
+  const wanted = tag.trim().replace(/^#/, '').toLowerCase();
+  if (wanted === '') {
+    return false;
+  }
+  const hashtag = new RegExp(`(^|\\s)#${wanted.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+  return (
+    event.categories.some(category => category.toLowerCase() === wanted) ||
+    hashtag.test(event.summary) ||
+    hashtag.test(event.description)
+  );
+};
+
+/**
+ * Turn tagged, timed events into focus blocks. All-day events, events
+ * without a length and repeating events whose rule could not be read
+ * cannot be scheduled and are left out.
+ */
+export const eventsToFocusBlocks = (events: IcsEvent[], tag: string): FocusBlock[] =>
+  events
+    .filter(
+      event =>
+        !event.allDay && event.end > event.start && !event.unsupportedRule && hasTag(event, tag),
+    )
+    .map(event => ({
+      id: event.uid,
+      title: event.summary.trim() || 'Focus block',
+      startsAt: event.start,
+      endsAt: event.end,
+      started: false,
+    }));
+
+/**
+ * Titles of tagged events that repeat by a rule that could not be read,
+ * so the user can be told they were not scheduled
+ */
+export const getUnsupportedRepeats = (events: IcsEvent[], tag: string): string[] =>
+  events
+    .filter(event => event.unsupportedRule && hasTag(event, tag))
+    .map(event => event.summary.trim() || 'Focus block');
+
+/**
+ * Add imported blocks to the schedule. Re-importing an event replaces
+ * the block with the same id, keeping whether it already started.
+ * Blocks that are over are dropped. The result is sorted by start time.
+ */
+export const mergeFocusBlocks = (
+  existing: FocusBlock[],
+  imported: FocusBlock[],
+  now: number,
+): FocusBlock[] => {
+  const byId = new Map(existing.map(block => [block.id, block]));
+  imported.forEach(block => {
+    const previous = byId.get(block.id);
+    byId.set(block.id, {...block, started: previous ? previous.started : false});
+  });
+  return pruneFocusBlocks(Array.from(byId.values()), now).sort(
+    (a, b) => a.startsAt - b.startsAt,
+  );
+};
+
+export const pruneFocusBlocks = (blocks: FocusBlock[], now: number): FocusBlock[] =>
+  blocks.filter(block => block.endsAt > now);
+
+/**
+ * Block that has begun but not started the timer yet, if any
+ */
+export const getDueBlock = (blocks: FocusBlock[], now: number): FocusBlock | null =>
+  blocks.find(block => !block.started && block.startsAt <= now && now < block.endsAt) ??
+  null;
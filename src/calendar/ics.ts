@@ -0,0 +1,508 @@
+/**
+ * iCalendar (RFC 5545)
+ *
+ * A small parser and writer for the subset of iCalendar the app needs:
+ * VEVENT components with a summary, description, categories and start
+ * and end times. Parsing handles line folding, property parameters,
+ * text escaping, UTC / floating / TZID date-times, all-day dates and
+ * DURATION. Daily and weekly recurrence rules are expanded into one
+ * event per occurrence, honouring EXDATE and RECURRENCE-ID overrides.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  categories: string[];
+  start: number; // Timestamp (ms)
+  end: number; // Timestamp (ms)
+  allDay: boolean;
+  unsupportedRule?: string; // RRULE that could not be expanded; only the first occurrence is read
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrences read from a rule without an end when no horizon is given
+const MAX_OCCURRENCES = 500;
+
+// Recurrences are not followed further than this many days from their start
+const MAX_RECURRENCE_DAYS = 50 * 366;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Lines longer than this many octets are folded when writing
+const MAX_LINE_OCTETS = 75;
+
+// Join folded lines: a line break followed by a space or tab continues the line
+const unfold = (text: string): string[] =>
+  text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '');
+
+/**
+ * Split a content line into name, parameters and value. Colons and
+ * semicolons inside quoted parameter values do not count as separators.
+ */
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let valueStart = -1;
+  const separators: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      separators.push(i);
+    } else if (!inQuotes && char === ':') {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart < 0) {
+    return null;
+  }
+  const head = [0, ...separators].map((start, index) =>
+    line.slice(index === 0 ? 0 : start + 1, separators[index] ?? valueStart),
+  );
+  const params: Record<string, string> = {};
+  head.slice(1).forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  });
+  return {name: head[0].toUpperCase(), params, value: line.slice(valueStart + 1)};
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Split a list value on unescaped commas
+const splitList = (value: string): string[] => {
+  const items: string[] = [];
+  let item = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      item += value[i] + value[i + 1];
+      i += 1;
+    } else if (value[i] === ',') {
+      items.push(item);
+      item = '';
+    } else {
+      item += value[i];
+    }
+  }
+  items.push(item);
+  return items.map(entry => unescapeText(entry).trim()).filter(entry => entry !== '');
+};
+
+/**
+ * Offset of a time zone from UTC at the given instant, in ms. Unknown
+ * zones fall back to the device's local offset.
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+  try {
+    // Creating a formatter is slow, and recurring events convert many times
+    const formatter =
+      formatters.get(timeZone) ??
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      });
+    formatters.set(timeZone, formatter);
+    const parts = formatter.formatToParts(new Date(timestamp));
+    const get = (type: string) =>
+      Number(parts.find(part => part.type === type)?.value ?? 0);
+    const asUtc = Date.UTC(
+      get('year'),
+      get('month') - 1,
+      get('day'),
+      get('hour'),
+      get('minute'),
+      get('second'),
+    );
+    return asUtc - Math.floor(timestamp / 1000) * 1000;
+  } catch (e) {
+    return -new Date(timestamp).getTimezoneOffset() * 60 * 1000;
+  }
+};
+
+interface DateValue {
+  date: [number, number, number]; // Year, month (0-11), day
+  time?: [number, number, number]; // Hours, minutes, seconds; absent for DATE values
+  utc: boolean;
+  timeZone?: string;
+}
+
+const readDateValue = (value: string, params: Record<string, string>): DateValue | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    date: [Number(year), Number(month) - 1, Number(day)],
+    time: hour === undefined ? undefined : [Number(hour), Number(minute), Number(second)],
+    utc: Boolean(utc),
+    timeZone: params.TZID,
+  };
+};
+
+/**
+ * Timestamp of a DATE or DATE-TIME value. UTC values end in "Z", values
+ * with a TZID are wall-clock times in that zone, anything else is local
+ * time.
+ */
+const resolveDateValue = ({date, time, utc, timeZone}: DateValue): {time: number; allDay: boolean} => {
+  if (!time) {
+    return {time: new Date(...date).getTime(), allDay: true};
+  }
+  if (utc) {
+    return {time: Date.UTC(...date, ...time), allDay: false};
+  }
+  if (timeZone) {
+    // Wall-clock time in the zone; correct the first guess across DST changes
+    const wallClock = Date.UTC(...date, ...time);
+    const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+    return {time: wallClock - getTimeZoneOffset(guess, timeZone), allDay: false};
+  }
+  return {time: new Date(...date, ...time).getTime(), allDay: false};
+};
+
+const parseDateValue = (
+  value: string,
+  params: Record<string, string>,
+): {time: number; allDay: boolean} | null => {
+  const date = readDateValue(value, params);
+  return date && resolveDateValue(date);
+};
+
+// Parse a DURATION value such as PT1H30M or P1D into ms
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim(),
+  );
+  if (!match) {
+    return null;
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 60 * 60 +
+      Number(hours ?? 0) * 60 * 60 +
+      Number(minutes ?? 0) * 60 +
+      Number(seconds ?? 0)) *
+    1000;
+  return sign === '-' ? -total : total;
+};
+
+// Occurrences of a recurring event share its UID; this tells them apart
+const getOccurrenceId = (uid: string, start: number): string => `${uid}#${start}`;
+
+interface RecurrenceRule {
+  frequency: 'DAILY' | 'WEEKLY';
+  interval: number;
+  count?: number;
+  until?: number; // Timestamp (ms) of the last possible start
+  byDay?: number[]; // Weekdays, 0 = Sunday
+  weekStart: number; // Weekday that starts a week, 0 = Sunday
+}
+
+/**
+ * Parse an RRULE value. Only DAILY and WEEKLY rules with INTERVAL,
+ * COUNT, UNTIL, BYDAY and WKST are understood; anything else is null.
+ */
+const parseRule = (value: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) {
+      parts[part.slice(0, eq).trim().toUpperCase()] = part.slice(eq + 1).trim().toUpperCase();
+    }
+  });
+  const {FREQ, INTERVAL, COUNT, UNTIL, BYDAY, WKST, ...rest} = parts;
+  if ((FREQ !== 'DAILY' && FREQ !== 'WEEKLY') || Object.keys(rest).length > 0) {
+    return null;
+  }
+  const interval = Number(INTERVAL ?? 1);
+  const count = COUNT === undefined ? undefined : Number(COUNT);
+  const until = UNTIL === undefined ? undefined : parseDateValue(UNTIL, {});
+  // Ordinal days such as 1MO only mean something for monthly and yearly rules
+  const byDay = BYDAY?.split(',').map(day => WEEKDAYS.indexOf(day.trim()));
+  const weekStart = WEEKDAYS.indexOf(WKST ?? 'MO');
+  if (
+    !Number.isInteger(interval) ||
+    interval < 1 ||
+    (count !== undefined && (!Number.isInteger(count) || count < 1)) ||
+    until === null ||
+    byDay?.some(day => day < 0) ||
+    weekStart < 0
+  ) {
+    return null;
+  }
+  return {
+    frequency: FREQ,
+    interval,
+    count,
+    // An UNTIL date includes the whole day
+    until: until && (until.allDay ? until.time + DAY_MS - 1 : until.time),
+    byDay,
+    weekStart,
+  };
+};
+
+/**
+ * Occurrences of a recurring event, in order, starting with the event
+ * itself. Each occurrence keeps the wall-clock time of the first one, so
+ * events in a time zone stay put across DST changes. Occurrences after
+ * the first stop at the horizon.
+ */
+const expandRule = (
+  event: IcsEvent,
+  start: DateValue,
+  rule: RecurrenceRule,
+  horizon: number,
+): IcsEvent[] => {
+  const [year, month, day] = start.date;
+  const length = event.end - event.start;
+  const firstWeekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+  const byDay = rule.byDay ?? (rule.frequency === 'WEEKLY' ? [firstWeekday] : undefined);
+  // Days from the start of the first week to the first occurrence
+  const weekOffset = (firstWeekday - rule.weekStart + 7) % 7;
+  const limit = rule.count ?? (horizon === Infinity ? MAX_OCCURRENCES : Infinity);
+  const until = rule.until ?? Infinity;
+
+  const occurrences: IcsEvent[] = [];
+  for (let offset = 0; offset < MAX_RECURRENCE_DAYS && occurrences.length < limit; offset++) {
+    const period = rule.frequency === 'DAILY' ? offset : Math.floor((offset + weekOffset) / 7);
+    const weekday = (firstWeekday + offset) % 7;
+    // The first occurrence always counts, even when it does not match the rule
+    if (offset > 0 && (period % rule.interval !== 0 || (byDay && !byDay.includes(weekday)))) {
+      continue;
+    }
+    const date = new Date(Date.UTC(year, month, day + offset));
+    const {time} = resolveDateValue({
+      ...start,
+      date: [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()],
+    });
+    if (time > until || (offset > 0 && time >= horizon)) {
+      break;
+    }
+    occurrences.push({...event, uid: getOccurrenceId(event.uid, time), start: time, end: time + length});
+  }
+  return occurrences;
+};
+
+interface VEvent {
+  event: IcsEvent;
+  start: DateValue;
+  rule?: string; // RRULE value
+  exceptions: number[]; // EXDATE timestamps (ms)
+  recurrenceId?: number; // Start (ms) of the occurrence this event replaces
+}
+
+const buildEvent = (properties: ContentLine[]): VEvent | null => {
+  const find = (name: string) => properties.find(property => property.name === name);
+  const dtstart = find('DTSTART');
+  const startValue = dtstart && readDateValue(dtstart.value, dtstart.params);
+  if (!startValue) {
+    return null;
+  }
+  const start = resolveDateValue(startValue);
+  const dtend = find('DTEND');
+  const duration = find('DURATION');
+  let end = dtend ? parseDateValue(dtend.value, dtend.params)?.time : undefined;
+  if (end === undefined && duration) {
+    const length = parseDuration(duration.value);
+    end = length !== null ? start.time + length : undefined;
+  }
+  if (end === undefined) {
+    // RFC 5545: all-day events last one day, date-time events are instants
+    end = start.allDay ? start.time + DAY_MS : start.time;
+  }
+  const recurrenceId = find('RECURRENCE-ID');
+  return {
+    event: {
+      uid: find('UID')?.value.trim() ?? `${start.time}`,
+      summary: unescapeText(find('SUMMARY')?.value ?? ''),
+      description: unescapeText(find('DESCRIPTION')?.value ?? ''),
+      categories: properties
+        .filter(property => property.name === 'CATEGORIES')
+        .reduce<string[]>((all, property) => [...all, ...splitList(property.value)], []),
+      start: start.time,
+      end,
+      allDay: start.allDay,
+    },
+    start: startValue,
+    rule: find('RRULE')?.value.trim(),
+    exceptions: properties
+      .filter(property => property.name === 'EXDATE')
+      .reduce<number[]>(
+        (all, property) => [
+          ...all,
+          ...property.value
+            .split(',')
+            .map(value => parseDateValue(value, property.params)?.time)
+            .filter((time): time is number => time !== undefined),
+        ],
+        [],
+      ),
+    recurrenceId: recurrenceId && parseDateValue(recurrenceId.value, recurrenceId.params)?.time,
+  };
+};
+
+/**
+ * Read every VEVENT with a start time from an iCalendar document.
+ * Recurring events become one event per occurrence, with the start time
+ * added to the UID, up to the horizon (a timestamp). Rules without COUNT
+ * or UNTIL stop after MAX_OCCURRENCES when there is no horizon. Events
+ * whose rule cannot be expanded are read once, with unsupportedRule set.
+ */
+export const parseIcs = (text: string, horizon: number = Infinity): IcsEvent[] => {
+  const vevents: VEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0; // Nesting inside the current VEVENT (e.g. VALARM)
+
+  unfold(text).forEach(line => {
+    const property = parseContentLine(line);
+    if (!property) {
+      return;
+    }
+    const value = property.value.trim().toUpperCase();
+    if (property.name === 'BEGIN') {
+      if (current) {
+        depth += 1;
+      } else if (value === 'VEVENT') {
+        current = [];
+      }
+      return;
+    }
+    if (property.name === 'END' && current) {
+      if (depth > 0) {
+        depth -= 1;
+        return;
+      }
+      const vevent = buildEvent(current);
+      if (vevent) {
+        vevents.push(vevent);
+      }
+      current = null;
+      return;
+    }
+    if (current && depth === 0) {
+      current.push(property);
+    }
+  });
+
+  // Occurrences that were moved or changed are replaced by their own VEVENT
+  const overridden = new Set(
+    vevents
+      .filter(vevent => vevent.recurrenceId !== undefined)
+      .map(vevent => getOccurrenceId(vevent.event.uid, vevent.recurrenceId as number)),
+  );
+  const events: IcsEvent[] = [];
+  vevents.forEach(({event, start, rule, exceptions, recurrenceId}) => {
+    if (recurrenceId !== undefined) {
+      events.push({...event, uid: getOccurrenceId(event.uid, recurrenceId)});
+      return;
+    }
+    if (!rule) {
+      events.push(event);
+      return;
+    }
+    const recurrence = parseRule(rule);
+    if (!recurrence) {
+      events.push({...event, unsupportedRule: rule});
+      return;
+    }
+    expandRule(event, start, recurrence, horizon)
+      .filter(occurrence => !exceptions.includes(occurrence.start) && !overridden.has(occurrence.uid))
+      .forEach(occurrence => events.push(occurrence));
+  });
+  return events;
+};
+
+// Format a timestamp as a UTC DATE-TIME, e.g. 20240105T083000Z
+const formatDateTime = (time: number): string =>
+  new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const getOctets = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) {
+    return 1;
+  }
+  if (code < 0x800) {
+    return 2;
+  }
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Fold a line into chunks of at most 75 octets, never splitting a character
+const fold = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = getOctets(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Write events as an iCalendar document. Times are written in UTC.
+ */
+export const writeIcs = (events: IcsEvent[], now: number): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Motivation Watch//Focus Sessions//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  events.forEach(event => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatDateTime(now)}`);
+    lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`);
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
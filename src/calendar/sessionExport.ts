@@ -0,0 +1,35 @@
+import {JournalEntry, querySessions} from '../history/sessionJournal';
+import {SessionType} from '../timer/pomodoroEngine';
+import {IcsEvent, writeIcs} from './ics';
+
+const SESSION_SUMMARIES: Record<SessionType, string> = {
+  work: 'Focus session',
+  break: 'Break',
+  longBreak: 'Long break',
+};
+
+/**
+ * Calendar event for a journaled session. The event spans the wall-clock
+ * time from start to end, so paused time is included.
+ */
+export const sessionToEvent = (entry: JournalEntry): IcsEvent => {
+  const minutes = Math.round(entry.actualDuration / 60);
+  const interruptions = entry.interruptions.length;
+  return {
+    uid: `${entry.id}@motivation-watch`,
+    summary: SESSION_SUMMARIES[entry.sessionType],
+    description:
+      `${minutes} min ${entry.sessionType === 'work' ? 'focused' : 'rested'}` +
+      (interruptions > 0 ? `, ${interruptions} interruption(s)` : ''),
+    categories: [entry.sessionType === 'work' ? 'Focus' : 'Break'],
+    start: entry.startedAt,
+    end: entry.endedAt,
+    allDay: false,
+  };
+};
+
+/**
+ * Export completed sessions from the journal as an iCalendar document
+ */
+export const exportSessionsToIcs = (entries: JournalEntry[], now: number): string =>
+  writeIcs(querySessions(entries, {outcome: 'completed'}).map(sessionToEvent), now);
@@ -0,0 +1,92 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {PomodoroController} from '../timer/usePomodoroEngine';
+import {Clock, systemClock} from '../timer/pomodoroEngine';
+import {parseIcs} from './ics';
+import {
+  FocusBlock,
+  eventsToFocusBlocks,
+  getDueBlock,
+  getUnsupportedRepeats,
+  loadFocusBlocks,
+  mergeFocusBlocks,
+  pruneFocusBlocks,
+  saveFocusBlocks,
+} from './focusBlocks';
+
+// How often to look for a focus block that has begun, in milliseconds
+const CHECK_INTERVAL = 1000;
+
+// How far ahead repeating events are scheduled; importing again extends it
+const RECURRENCE_HORIZON = 28 * 24 * 60 * 60 * 1000;
+
+export interface CalendarImport {
+  scheduled: number; // Upcoming blocks found
+  unsupported: string[]; // Titles of tagged repeating events that could not be scheduled
+}
+
+export interface FocusBlocksController {
+  blocks: FocusBlock[]; // Upcoming and ongoing blocks, by start time
+  importCalendar: (ics: string, tag: string) => CalendarImport;
+  removeBlock: (blockId: string) => void;
+}
+
+/**
+ * useFocusBlocks Hook
+ *
+ * Owns the persisted schedule of focus blocks and starts a fresh work
+ * session through the Pomodoro controller when a block begins, lasting
+ * until the block ends. A work session that is already running is left
+ * alone.
+ */
+export const useFocusBlocks = (
+  pomodoro: PomodoroController,
+  clock: Clock = systemClock,
+): FocusBlocksController => {
+  const [blocks, setBlocks] = useState<FocusBlock[]>(() =>
+    pruneFocusBlocks(loadFocusBlocks(), clock.now()),
+  );
+
+  // Persist the schedule whenever it changes
+  useEffect(() => {
+    saveFocusBlocks(blocks);
+  }, [blocks]);
+
+  // Read the latest timer state without restarting the check interval
+  const pomodoroRef = useRef(pomodoro);
+  pomodoroRef.current = pomodoro;
+
+  useEffect(() => {
+    const check = () => {
+      const due = getDueBlock(blocks, clock.now());
+      if (!due) {
+        return;
+      }
+      setBlocks(prev => prev.map(block => (block.id === due.id ? {...block, started: true} : block)));
+      const {state, startFocus} = pomodoroRef.current;
+      if (state.timerState === 'running' && state.sessionType === 'work') {
+        return;
+      }
+      startFocus(due.endsAt);
+    };
+    check();
+    const intervalId = setInterval(check, CHECK_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [blocks, clock]);
+
+  const importCalendar = useCallback(
+    (ics: string, tag: string): CalendarImport => {
+      const now = clock.now();
+      const events = parseIcs(ics, now + RECURRENCE_HORIZON);
+      const imported = pruneFocusBlocks(eventsToFocusBlocks(events, tag), now);
+      setBlocks(prev => mergeFocusBlocks(prev, imported, now));
+      return {scheduled: imported.length, unsupported: getUnsupportedRepeats(events, tag)};
+    },
+    [clock],
+  );
+
+  const removeBlock = useCallback((blockId: string) => {
+    setBlocks(prev => prev.filter(block => block.id !== blockId));
+  }, []);
+
+  return {blocks, importCalendar, removeBlock};
+};
@@ -0,0 +1,95 @@
+import React, {useMemo} from 'react';
+import {StyleSheet, View} from 'react-native';
+import Animated, {useAnimatedStyle} from 'react-native-reanimated';
+import {useSimulationTime} from '../astronomy/SimulationTime';
+import {getOrbitAngle} from '../astronomy/simulationClock';
+import {BeltData, BeltShell, createBeltShells} from '../astronomy/belts';
+
+interface AsteroidBeltProps {
+  belt: BeltData;
+}
+
+interface ShellProps {
+  shell: BeltShell;
+}
+
+// One batch of particles, turned as a whole on the UI thread
+const Shell: React.FC<ShellProps> = ({shell}) => {
+  const time = useSimulationTime();
+
+  // Counterclockwise on screen, like the planets
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{rotate: `${-getOrbitAngle(time.value, shell.period, 0)}rad`}],
+  }));
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      // Flattened to a single texture once, then only turned
+      shouldRasterizeIOS
+      renderToHardwareTextureAndroid
+      style={[
+        styles.shell,
+        {
+          width: shell.radius * 2,
+          height: shell.radius * 2,
+          left: -shell.radius,
+          top: -shell.radius,
+        },
+        animatedStyle,
+      ]}>
+      {shell.particles.map((particle, index) => (
+        <View
+          key={index}
+          style={[
+            styles.particle,
+            {
+              width: particle.size,
+              height: particle.size,
+              borderRadius: particle.size / 2,
+              left: particle.x - particle.size / 2,
+              top: particle.y - particle.size / 2,
+              backgroundColor: particle.color,
+              opacity: particle.opacity,
+            },
+          ]}
+        />
+      ))}
+    </Animated.View>
+  );
+};
+
+/**
+ * AsteroidBelt component renders a belt of small bodies around the Sun.
+ *
+ * Features:
+ * - Particles scattered once, denser towards the middle of the belt
+ * - Batched into concentric shells, each rasterized and turned as one view
+ *   at its own Keplerian period, so inner shells drift ahead of outer ones
+ * - Follows the shared simulation clock like the planets
+ */
+const AsteroidBelt: React.FC<AsteroidBeltProps> = ({belt}) => {
+  const shells = useMemo(() => createBeltShells(belt), [belt]);
+
+  return (
+    <View pointerEvents="none" style={styles.belt} accessibilityLabel={belt.name}>
+      {shells.map(shell => (
+        <Shell key={shell.radius} shell={shell} />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  belt: {
+    position: 'absolute',
+  },
+  shell: {
+    position: 'absolute',
+  },
+  particle: {
+    position: 'absolute',
+  },
+});
+
+export default AsteroidBelt;
@@ -0,0 +1,92 @@
+import React, {useMemo} from 'react';
+import {StyleSheet, View} from 'react-native';
+import {useSimulationTime} from '../astronomy/SimulationTime.web';
+import {getOrbitAngle} from '../astronomy/simulationClock';
+import {BeltData, BeltShell, createBeltShells} from '../astronomy/belts';
+
+interface AsteroidBeltProps {
+  belt: BeltData;
+}
+
+interface ShellProps {
+  shell: BeltShell;
+}
+
+// One batch of particles, turned as a whole every frame
+const Shell: React.FC<ShellProps> = ({shell}) => {
+  const time = useSimulationTime();
+
+  // The particles never change, so re-rendering the shell only updates its turn
+  const particles = useMemo(
+    () =>
+      shell.particles.map((particle, index) => (
+        <View
+          key={index}
+          style={[
+            styles.particle,
+            {
+              width: particle.size,
+              height: particle.size,
+              borderRadius: particle.size / 2,
+              left: particle.x - particle.size / 2,
+              top: particle.y - particle.size / 2,
+              backgroundColor: particle.color,
+              opacity: particle.opacity,
+            },
+          ]}
+        />
+      )),
+    [shell],
+  );
+
+  return (
+    <View
+      pointerEvents="none"
+      style={[
+        styles.shell,
+        {
+          width: shell.radius * 2,
+          height: shell.radius * 2,
+          left: -shell.radius,
+          top: -shell.radius,
+          // Counterclockwise on screen, like the planets
+          transform: [{rotate: `${-getOrbitAngle(time, shell.period, 0)}rad`}],
+        },
+      ]}
+    >
+      {particles}
+    </View>
+  );
+};
+
+/**
+ * AsteroidBelt component - Web version
+ * Renders a belt of small bodies, batched into concentric shells that each
+ * turn as one element at their own Keplerian period, so inner shells drift
+ * ahead of outer ones while only the shells' transforms change per frame.
+ */
+const AsteroidBeltWeb: React.FC<AsteroidBeltProps> = ({belt}) => {
+  const shells = useMemo(() => createBeltShells(belt), [belt]);
+
+  return (
+    <View pointerEvents="none" style={styles.belt} accessibilityLabel={belt.name}>
+      {shells.map(shell => (
+        <Shell key={shell.radius} shell={shell} />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  belt: {
+    position: 'absolute',
+  },
+  shell: {
+    position: 'absolute',
+  },
+  particle: {
+    position: 'absolute',
+  },
+});
+
+export default AsteroidBeltWeb;
@@ -1,56 +1,123 @@
-import React, {useEffect, useState} from 'react';
-import {View, TouchableOpacity, StyleSheet} from 'react-native';
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {Image, View, Text, TouchableOpacity, StyleSheet} from 'react-native';
 import TrackPlayer, {
   Capability,
+  Event,
   State,
-  usePlaybackState,
+  useActiveTrack,
+  useProgress,
+  useTrackPlayerEvents,
   RepeatMode,
+  Track,
 } from 'react-native-track-player';
+import {usePomodoro} from '../timer/PomodoroContext';
+import {getFadeVolume, getMusicMood, shouldPlayMusic} from '../audio/musicSession';
+import {
+  EMPTY_MUSIC_LIBRARY,
+  MusicLibrary,
+  MusicRepeat,
+  PlaylistTrack,
+  getPlayOrder,
+  getPlaylist,
+  getTrackVolume,
+} from '../audio/musicLibrary';
+import {getBundledPlaylists} from '../audio/trackManifest';
+import {getTrackSource} from '../audio/trackAssets';
+import {skipTrack} from '../audio/playbackService';
+import NowPlayingPanel, {NowPlayingInfo} from './NowPlayingPanel';
 
 interface BackgroundMusicProps {
   enabled: boolean;
   volume?: number; // 0 to 1
+  ducked?: boolean; // Lower the volume while a chime plays
+  pauseWhenIdle?: boolean; // Play only while the timer runs
+  library?: MusicLibrary; // Imported tracks replace the bundled playlists
+  onVolumeChange?: (volume: number) => void; // Volume slider in the now-playing panel
 }
 
-// Playlist of background music files
-const PLAYLIST = [
-  {
-    id: '1',
-    url: require('../../assets/audio/night-london.mp3'),
-    title: 'Night London',
-    artist: 'Deep Zen',
-  },
-  {
-    id: '2',
-    url: require('../../assets/audio/night-stockholm.mp3'),
-    title: 'Night Stockholm',
-    artist: 'Deep Zen',
-  },
-  {
-    id: '3',
-    url: require('../../assets/audio/night-greece.mp3'),
-    title: 'Night Greece',
-    artist: 'Deep Zen',
-  },
-];
+// Share of the volume kept while ducked
+const DUCK_LEVEL = 0.2;
+
+// Fade lengths in milliseconds: between playlists, and for other volume changes
+const CROSSFADE_MS = 3000;
+const VOLUME_FADE_MS = 250;
+const FADE_STEP_MS = 50;
+
+const REPEAT_MODES: Record<MusicRepeat, RepeatMode> = {
+  off: RepeatMode.Off,
+  all: RepeatMode.Queue,
+  one: RepeatMode.Track,
+};
+
+// Bundled background music for focus sessions and for breaks
+const BUNDLED_PLAYLISTS = getBundledPlaylists(getTrackSource);
+
+const toTrack = (track: PlaylistTrack): Track => ({
+  id: track.id,
+  // Bundled assets are require() ids; setQueue needs them resolved to a uri
+  url: typeof track.source === 'string' ? track.source : Image.resolveAssetSource(track.source).uri,
+  title: track.title,
+  artist: track.artist,
+});
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
 
 /**
  * BackgroundMusic Component - Mobile Version
  *
- * Plays background music playlist sequentially using react-native-track-player
+ * Plays a focus or break playlist following the shared Pomodoro session,
+ * using react-native-track-player
  * Features:
  * - Auto-play when enabled
- * - Sequential playlist playback
+ * - Bundled playlists, replaced by tracks imported into the music library
+ * - Shuffle, repeat and per-track gain from the library
+ * - Fades out and into the other playlist when the session type changes
+ * - Optionally pauses while the timer is paused or idle
  * - Mute/unmute control
  * - Continues playing when unmuted
+ * - Ducks under session chimes
+ * - Now-playing panel with play/pause, previous/next, seek and volume
+ * - Lock screen, notification and headset controls (see playbackService)
  */
 const BackgroundMusic: React.FC<BackgroundMusicProps> = ({
   enabled,
   volume = 0.3,
+  ducked = false,
+  pauseWhenIdle = false,
+  library = EMPTY_MUSIC_LIBRARY,
+  onVolumeChange,
 }) => {
-  const playbackState = usePlaybackState();
+  const activeTrack = useActiveTrack();
+  const progress = useProgress();
+  const {state} = usePomodoro();
   const [isPlayerReady, setIsPlayerReady] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  const [userPaused, setUserPaused] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const effectiveVolume = ducked ? volume * DUCK_LEVEL : volume;
+  const mood = getMusicMood(state.sessionType);
+  const shouldPlay = shouldPlayMusic(enabled, state.timerState, pauseWhenIdle) && !userPaused;
+
+  // Queue for the current session type, in play order
+  const queue = useMemo(() => {
+    const tracks = getPlaylist(library.tracks, mood, BUNDLED_PLAYLISTS[mood]);
+    return getPlayOrder(tracks.length, library.shuffle).map(index => tracks[index]);
+  }, [library.tracks, library.shuffle, mood]);
+  const queueKey = `${mood}:${library.shuffle}:${queue.map(track => track.id).join(',')}`;
+  const activeGainDb = queue.find(track => track.id === activeTrack?.id)?.gainDb ?? 0;
+
+  const queuedKeyRef = useRef<string | null>(null); // Queue loaded into the player
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const levelRef = useRef(0); // Music volume before the track's gain
+  const gainRef = useRef(activeGainDb);
+  gainRef.current = activeGainDb;
+  const updateRef = useRef(0); // Bumped on every update so older fades stop
+
+  // Play and pause from the lock screen or a headset act like the panel's button
+  useTrackPlayerEvents([Event.RemotePlay, Event.RemotePause], event => {
+    setUserPaused(event.type === Event.RemotePause);
+  });
 
   // Initialize TrackPlayer
   useEffect(() => {
@@ -75,13 +142,18 @@ const BackgroundMusic: React.FC<BackgroundMusicProps> = ({
             Capability.Pause,
             Capability.Stop,
             Capability.SeekTo,
+            Capability.SkipToNext,
+            Capability.SkipToPrevious,
+          ],
+          compactCapabilities: [
+            Capability.SkipToPrevious,
+            Capability.Play,
+            Capability.Pause,
+            Capability.SkipToNext,
           ],
-          compactCapabilities: [Capability.Play, Capability.Pause],
         });
 
-        await TrackPlayer.setRepeatMode(RepeatMode.Queue);
-        await TrackPlayer.setVolume(volume);
-        await TrackPlayer.add(PLAYLIST);
+        await TrackPlayer.setVolume(0);
 
         setIsPlayerReady(true);
       } catch (error) {
@@ -99,94 +171,167 @@ const BackgroundMusic: React.FC<BackgroundMusicProps> = ({
     };
   }, []);
 
-  // Handle enabled state changes
+  // Follow the session: swap the queue when the session type or the
+  // playlist changes, start or pause playback and apply volume changes,
+  // fading each step
   useEffect(() => {
-    if (!isPlayerReady) return;
+    if (!isPlayerReady) {
+      return;
+    }
+
+    const update = updateRef.current + 1;
+    updateRef.current = update;
+    const isCurrent = () => updateRef.current === update;
+
+    // Fade from the current level; false when a newer update took over
+    const fadeTo = async (target: number, duration: number): Promise<boolean> => {
+      const from = levelRef.current;
+      const steps = Math.max(1, Math.round(duration / FADE_STEP_MS));
+      for (let step = 1; step <= steps; step++) {
+        if (!isCurrent()) {
+          return false;
+        }
+        levelRef.current = getFadeVolume(from, target, step / steps);
+        await TrackPlayer.setVolume(getTrackVolume(levelRef.current, gainRef.current));
+        await delay(FADE_STEP_MS);
+      }
+      return isCurrent();
+    };
 
     const handlePlayback = async () => {
       try {
-        const state = await TrackPlayer.getPlaybackState();
+        const playback = await TrackPlayer.getPlaybackState();
+        const isPlaying = playback.state === State.Playing;
+        const queueChanged = queuedKeyRef.current !== queueKey;
 
-        if (enabled) {
-          if (state.state !== State.Playing) {
-            await TrackPlayer.play();
+        if (queueChanged) {
+          if (isPlaying && !(await fadeTo(0, CROSSFADE_MS / 2))) {
+            return;
           }
-        } else {
-          if (state.state === State.Playing) {
+          await TrackPlayer.setQueue(queueRef.current.map(toTrack));
+          queuedKeyRef.current = queueKey;
+        }
+
+        if (!shouldPlay) {
+          if (isPlaying && (await fadeTo(0, VOLUME_FADE_MS))) {
             await TrackPlayer.pause();
           }
+          return;
         }
+
+        if (!isPlaying || queueChanged) {
+          await TrackPlayer.play();
+        }
+        await fadeTo(
+          isMuted ? 0 : effectiveVolume,
+          queueChanged ? CROSSFADE_MS / 2 : VOLUME_FADE_MS,
+        );
       } catch (error) {
         console.error('Failed to handle playback:', error);
       }
     };
 
     handlePlayback();
-  }, [enabled, isPlayerReady]);
+  }, [queueKey, shouldPlay, effectiveVolume, isMuted, activeGainDb, isPlayerReady]);
 
-  // Handle volume changes
+  // Apply the library's repeat mode
   useEffect(() => {
-    if (!isPlayerReady) return;
+    if (!isPlayerReady) {
+      return;
+    }
+    TrackPlayer.setRepeatMode(REPEAT_MODES[library.repeat]).catch(err =>
+      console.error('Failed to set repeat mode:', err),
+    );
+  }, [library.repeat, isPlayerReady]);
 
-    const updateVolume = async () => {
-      try {
-        await TrackPlayer.setVolume(isMuted ? 0 : volume);
-      } catch (error) {
-        console.error('Failed to set volume:', error);
-      }
-    };
+  const toggleMute = () => {
+    setIsMuted(!isMuted);
+  };
 
-    updateVolume();
-  }, [volume, isMuted, isPlayerReady]);
+  const skip = (direction: 'previous' | 'next') => {
+    skipTrack(direction).catch(err => console.error('Failed to skip track:', err));
+  };
 
-  const toggleMute = async () => {
-    if (!isPlayerReady) return;
+  const seek = (seconds: number) => {
+    TrackPlayer.seekTo(seconds).catch(err => console.error('Failed to seek:', err));
+  };
 
-    try {
-      if (isMuted) {
-        await TrackPlayer.setVolume(volume);
-        setIsMuted(false);
-      } else {
-        await TrackPlayer.setVolume(0);
-        setIsMuted(true);
-      }
-    } catch (error) {
-      console.error('Failed to toggle mute:', error);
-    }
+  const nowPlaying: NowPlayingInfo = {
+    title: activeTrack?.title ?? 'No track',
+    artist: activeTrack?.artist ?? '',
+    position: progress.position,
+    duration: progress.duration,
+    isPlaying: shouldPlay,
+    canSkip: activeTrack !== undefined,
   };
 
-  if (!enabled) return null;
+  if (!enabled) {
+    return null;
+  }
 
   return (
-    <TouchableOpacity
-      style={styles.button}
-      onPress={toggleMute}
-      accessibilityLabel={isMuted ? 'Unmute music' : 'Mute music'}
-    >
-      <View style={styles.speakerIcon}>
-        {/* Speaker cone */}
-        <View style={styles.speakerCone} />
-        <View style={styles.speakerBox} />
-
-        {/* Sound waves or mute indicator */}
-        {!isMuted ? (
-          <>
-            <View style={[styles.soundWave, styles.wave1]} />
-            <View style={[styles.soundWave, styles.wave2]} />
-            <View style={[styles.soundWave, styles.wave3]} />
-          </>
-        ) : (
-          <View style={styles.muteX}>
-            <View style={styles.muteLine1} />
-            <View style={styles.muteLine2} />
+    <View>
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={toggleMute}
+          accessibilityLabel={isMuted ? 'Unmute music' : 'Mute music'}
+        >
+          <View style={styles.speakerIcon}>
+            {/* Speaker cone */}
+            <View style={styles.speakerCone} />
+            <View style={styles.speakerBox} />
+
+            {/* Sound waves or mute indicator */}
+            {!isMuted ? (
+              <>
+                <View style={[styles.soundWave, styles.wave1]} />
+                <View style={[styles.soundWave, styles.wave2]} />
+                <View style={[styles.soundWave, styles.wave3]} />
+              </>
+            ) : (
+              <View style={styles.muteX}>
+                <View style={styles.muteLine1} />
+                <View style={styles.muteLine2} />
+              </View>
+            )}
           </View>
-        )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, expanded && styles.buttonActive]}
+          onPress={() => setExpanded(!expanded)}
+          accessibilityLabel={expanded ? 'Hide now playing' : 'Show now playing'}
+        >
+          <Text style={styles.noteIcon}>♪</Text>
+        </TouchableOpacity>
       </View>
-    </TouchableOpacity>
+      {expanded && (
+        <View style={styles.panel}>
+          <NowPlayingPanel
+            info={nowPlaying}
+            volume={volume}
+            onPlayPause={() => setUserPaused(shouldPlay)}
+            onPrevious={() => skip('previous')}
+            onNext={() => skip('next')}
+            onSeek={seek}
+            onVolumeChange={value => onVolumeChange?.(value)}
+          />
+        </View>
+      )}
+    </View>
   );
 };
 
 const styles = StyleSheet.create({
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  panel: {
+    position: 'absolute',
+    top: 56,
+    right: 0,
+  },
   button: {
     width: 44,
     height: 44,
@@ -195,6 +340,13 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     borderRadius: 22,
   },
+  buttonActive: {
+    backgroundColor: 'rgba(65, 105, 225, 0.4)',
+  },
+  noteIcon: {
+    color: '#FFFFFF',
+    fontSize: 20,
+  },
   speakerIcon: {
     width: 24,
     height: 24,
@@ -1,123 +1,434 @@
-import React, {useEffect, useRef, useState} from 'react';
+import React, {useEffect, useMemo, useRef, useState} from 'react';
 import {View, TouchableOpacity, Text, StyleSheet} from 'react-native';
+import {usePomodoro} from '../timer/PomodoroContext';
+import {
+  MUSIC_MOODS,
+  MusicMood,
+  MusicSource,
+  getFadeVolume,
+  getMusicMood,
+  shouldPlayMusic,
+} from '../audio/musicSession';
+import {
+  EMPTY_MUSIC_LIBRARY,
+  MusicLibrary,
+  PlaylistTrack,
+  getPlayOrder,
+  getPlaylist,
+} from '../audio/musicLibrary';
+import {getBundledPlaylists} from '../audio/trackManifest';
+import {getTrackSource} from '../audio/trackAssets';
+import {PlaylistEngine, createPlaylistEngine} from '../audio/playlistEngine.web';
+import {AmbientMix, DEFAULT_AMBIENT_MIX} from '../audio/ambientGenerators';
+import {AmbientEngine, createAmbientEngine} from '../audio/ambientEngine.web';
+import NowPlayingPanel, {NowPlayingInfo} from './NowPlayingPanel';
 
 interface BackgroundMusicProps {
   enabled: boolean;
   volume?: number; // 0 to 1
+  ducked?: boolean; // Lower the volume while a chime plays
+  pauseWhenIdle?: boolean; // Play only while the timer runs
+  library?: MusicLibrary; // Imported tracks replace the bundled playlists
+  source?: MusicSource; // Playlist tracks or ambient generators
+  ambientMix?: AmbientMix; // Layer volumes and binaural tuning for the ambient source
+  onVolumeChange?: (volume: number) => void; // Volume slider in the now-playing panel
+  trackCrossfade?: number; // Seconds tracks overlap within a playlist, 0 for gapless
 }
 
-// Playlist of background music files
-const PLAYLIST = [
-  '/audio/night-london.mp3',
-  '/audio/night-stockholm.mp3',
-  '/audio/night-greece.mp3',
-];
+// One engine per playlist, so playlists can crossfade
+interface PlaylistPlayer {
+  engine: PlaylistEngine;
+  signature: string; // Tracks and shuffle the queue was made for
+  level: number; // Music volume before the track's gain
+  active: boolean; // Should be audible
+}
+
+// Share of the volume kept while ducked
+const DUCK_LEVEL = 0.2;
+
+// Fade lengths in milliseconds: between playlists, and for other volume changes
+const CROSSFADE_MS = 3000;
+const VOLUME_FADE_MS = 250;
+const FADE_STEP_MS = 50;
+
+// Bundled background music for focus sessions and for breaks
+const BUNDLED_PLAYLISTS = getBundledPlaylists(getTrackSource);
 
 /**
  * BackgroundMusic Component
  *
- * Plays background music playlist sequentially
+ * Plays a focus or break playlist following the shared Pomodoro session
  * Features:
  * - Auto-play when enabled
- * - Sequential playlist playback
+ * - Bundled playlists, replaced by tracks imported into the music library
+ * - Shuffle, repeat and per-track gain from the library
+ * - Gapless or crossfading track changes, with the next track preloaded
+ * - Crossfades between playlists when the session type changes
+ * - Ambient generators (noise, rain, binaural beats) as an alternative source
+ * - Optionally pauses while the timer is paused or idle
  * - Mute/unmute control
  * - Continues playing when unmuted
+ * - Ducks under session chimes
+ * - Now-playing panel with play/pause, previous/next, seek and volume
+ * - Media Session integration for browser and OS media controls
+ * - "Tap to start music" when the browser blocks autoplay
  */
 const BackgroundMusic: React.FC<BackgroundMusicProps> = ({
   enabled,
   volume = 0.3,
+  ducked = false,
+  pauseWhenIdle = false,
+  library = EMPTY_MUSIC_LIBRARY,
+  source = 'playlist',
+  ambientMix = DEFAULT_AMBIENT_MIX,
+  onVolumeChange,
+  trackCrossfade = 3,
 }) => {
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const [currentTrackIndex, setCurrentTrackIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const {state} = usePomodoro();
+  const playersRef = useRef<Record<MusicMood, PlaylistPlayer> | null>(null);
+  const fadeRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const [isMuted, setIsMuted] = useState(false);
+  const [userPaused, setUserPaused] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const [currentTrack, setCurrentTrack] = useState<PlaylistTrack | null>(null);
+  const [trackProgress, setTrackProgress] = useState({position: 0, duration: 0});
+  const [autoplayBlocked, setAutoplayBlocked] = useState(false);
+  const [ambientBlocked, setAmbientBlocked] = useState(false);
+  const effectiveVolume = ducked ? volume * DUCK_LEVEL : volume;
+  const mood = getMusicMood(state.sessionType);
+  const shouldPlay = shouldPlayMusic(enabled, state.timerState, pauseWhenIdle) && !userPaused;
+  const playlistPlaying = shouldPlay && source === 'playlist';
+  const ambientPlaying = shouldPlay && source === 'ambient';
+  const moodRef = useRef(mood);
+  const sourceRef = useRef(source);
+  const ambientRef = useRef<AmbientEngine | null>(null);
+  const ambientPlayingRef = useRef(false);
+
+  // Show the track of the current session's playlist and how far it is,
+  // and report the position to the Media Session
+  const expandedRef = useRef(expanded);
+  expandedRef.current = expanded;
+  const syncNowPlaying = () => {
+    const player = playersRef.current?.[moodRef.current];
+    if (!player) {
+      return;
+    }
+    const {track, position, duration} = player.engine.getNowPlaying();
+    setCurrentTrack(track);
+    if (expandedRef.current) {
+      setTrackProgress({position, duration});
+    }
+    if (player.active && duration > 0 && navigator.mediaSession?.setPositionState) {
+      navigator.mediaSession.setPositionState({
+        duration,
+        position: Math.min(position, duration),
+        playbackRate: 1,
+      });
+    }
+  };
+  const syncRef = useRef(syncNowPlaying);
+  syncRef.current = syncNowPlaying;
+
+  const playlists = useMemo(
+    () => ({
+      focus: getPlaylist(library.tracks, 'focus', BUNDLED_PLAYLISTS.focus),
+      break: getPlaylist(library.tracks, 'break', BUNDLED_PLAYLISTS.break),
+    }),
+    [library.tracks],
+  );
 
-  // Initialize audio element (web only)
+  // Initialize one playlist engine per playlist (web only)
   useEffect(() => {
-    if (typeof Audio !== 'undefined') {
-      const audio = new Audio(PLAYLIST[0]);
-      audio.volume = volume;
-      audioRef.current = audio;
-
-      // Handle track end - play next in playlist
-      const handleEnded = () => {
-        setCurrentTrackIndex(prevIndex => {
-          const nextIndex = (prevIndex + 1) % PLAYLIST.length;
-          if (audioRef.current) {
-            audioRef.current.src = PLAYLIST[nextIndex];
-            audioRef.current.play().catch(err => {
-              console.error('Failed to play next track:', err);
-            });
-          }
-          return nextIndex;
-        });
+    if (typeof Audio === 'undefined') {
+      return;
+    }
+    const players = {} as Record<MusicMood, PlaylistPlayer>;
+    MUSIC_MOODS.forEach(playlistMood => {
+      players[playlistMood] = {
+        engine: createPlaylistEngine({
+          // Keep the now-playing panel and the Media Session up to date
+          onProgress: () => syncRef.current(),
+          onAutoplayBlocked: setAutoplayBlocked,
+        }),
+        signature: '',
+        level: 0,
+        active: false,
       };
+    });
+    playersRef.current = players;
 
-      audio.addEventListener('ended', handleEnded);
+    // Cleanup
+    return () => {
+      if (fadeRef.current) {
+        clearInterval(fadeRef.current);
+      }
+      MUSIC_MOODS.forEach(playlistMood => players[playlistMood].engine.close());
+      playersRef.current = null;
+      ambientRef.current?.close();
+      ambientRef.current = null;
+    };
+  }, []);
 
-      // Cleanup
-      return () => {
-        audio.removeEventListener('ended', handleEnded);
-        audio.pause();
-        audio.src = '';
-      };
+  // Restart a playlist from the top when its tracks or shuffle change
+  useEffect(() => {
+    const players = playersRef.current;
+    if (!players) {
+      return;
     }
-  }, []);
+    MUSIC_MOODS.forEach(playlistMood => {
+      const player = players[playlistMood];
+      const tracks = playlists[playlistMood];
+      const signature = `${library.shuffle}:${tracks.map(track => track.id).join(',')}`;
+      if (signature === player.signature) {
+        // Only gains changed
+        player.engine.updateTracks(tracks);
+        return;
+      }
+      player.signature = signature;
+      player.engine.setQueue(tracks, getPlayOrder(tracks.length, library.shuffle));
+    });
+  }, [playlists, library.shuffle]);
 
-  // Handle enabled state changes
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    if (enabled && !isPlaying) {
-      // Try to play, handle autoplay restrictions
-      audio
-        .play()
-        .then(() => {
-          setIsPlaying(true);
-        })
-        .catch(err => {
-          console.log('Autoplay prevented:', err);
-          setIsPlaying(false);
-        });
-    } else if (!enabled && isPlaying) {
-      audio.pause();
-      setIsPlaying(false);
+    const players = playersRef.current;
+    MUSIC_MOODS.forEach(playlistMood => {
+      players?.[playlistMood].engine.setRepeat(library.repeat);
+      players?.[playlistMood].engine.setCrossfade(trackCrossfade);
+    });
+  }, [library.repeat, trackCrossfade]);
+
+  // Fade the playlist for the current session in and the other one out
+  useEffect(() => {
+    const players = playersRef.current;
+    if (!players) {
+      return;
     }
-  }, [enabled]);
 
-  // Handle volume changes
+    const level = isMuted ? 0 : effectiveVolume;
+    const switched = moodRef.current !== mood || sourceRef.current !== source;
+    const duration = switched ? CROSSFADE_MS : VOLUME_FADE_MS;
+    moodRef.current = mood;
+    sourceRef.current = source;
+
+    const from = {focus: players.focus.level, break: players.break.level};
+    MUSIC_MOODS.forEach(playlistMood => {
+      const player = players[playlistMood];
+      player.active = playlistPlaying && playlistMood === mood;
+      if (player.active) {
+        player.engine.play();
+      }
+    });
+
+    if (fadeRef.current) {
+      clearInterval(fadeRef.current);
+    }
+    const fadeStartedAt = Date.now();
+    const step = () => {
+      const progress = (Date.now() - fadeStartedAt) / duration;
+      MUSIC_MOODS.forEach(playlistMood => {
+        const player = players[playlistMood];
+        player.level = getFadeVolume(from[playlistMood], player.active ? level : 0, progress);
+        player.engine.setLevel(player.level);
+      });
+      if (progress >= 1 && fadeRef.current) {
+        clearInterval(fadeRef.current);
+        fadeRef.current = null;
+        MUSIC_MOODS.forEach(playlistMood => {
+          if (!players[playlistMood].active) {
+            players[playlistMood].engine.pause();
+          }
+        });
+      }
+    };
+    fadeRef.current = setInterval(step, FADE_STEP_MS);
+    syncRef.current();
+  }, [mood, source, playlistPlaying, effectiveVolume, isMuted]);
+
+  // Fade the ambient generators in and out; they never end or go missing
   useEffect(() => {
-    const audio = audioRef.current;
-    if (audio) {
-      audio.volume = isMuted ? 0 : volume;
+    if (ambientPlaying && !ambientRef.current) {
+      ambientRef.current = createAmbientEngine({onAutoplayBlocked: setAmbientBlocked});
     }
-  }, [volume, isMuted]);
+    const engine = ambientRef.current;
+    if (!engine) {
+      return;
+    }
+    const switched = ambientPlayingRef.current !== ambientPlaying;
+    ambientPlayingRef.current = ambientPlaying;
+    engine.setVolume(
+      ambientPlaying && !isMuted ? effectiveVolume : 0,
+      (switched ? CROSSFADE_MS : VOLUME_FADE_MS) / 1000,
+    );
+  }, [ambientPlaying, effectiveVolume, isMuted]);
+
+  useEffect(() => {
+    ambientRef.current?.setMix(ambientMix);
+  }, [ambientMix, ambientPlaying]);
 
   const toggleMute = () => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    setIsMuted(!isMuted);
+  };
 
-    if (isMuted) {
-      audio.volume = volume;
-      setIsMuted(false);
-    } else {
-      audio.volume = 0;
-      setIsMuted(true);
+  const toggleExpanded = () => {
+    expandedRef.current = !expanded;
+    setExpanded(!expanded);
+    syncRef.current();
+  };
+
+  // Pause or resume by hand; a playlist that ran out starts over
+  const setPaused = (paused: boolean) => {
+    setUserPaused(paused);
+    const player = playersRef.current?.[moodRef.current];
+    if (!paused && player?.engine.isFinished()) {
+      player.engine.skip('next');
+    }
+  };
+
+  const skip = (direction: 'previous' | 'next') => {
+    if (sourceRef.current === 'playlist') {
+      playersRef.current?.[moodRef.current].engine.skip(direction);
+    }
+  };
+
+  const seek = (seconds: number) => {
+    if (sourceRef.current === 'playlist') {
+      playersRef.current?.[moodRef.current].engine.seek(seconds);
     }
   };
 
-  if (!enabled) return null;
+  // Playback the browser blocked can start from a tap, which counts as a
+  // user gesture
+  const startBlockedMusic = () => {
+    if (sourceRef.current === 'ambient') {
+      setAmbientBlocked(false);
+      ambientRef.current?.resume();
+      return;
+    }
+    setAutoplayBlocked(false);
+    const player = playersRef.current?.[moodRef.current];
+    if (player?.active) {
+      player.engine.play();
+    }
+  };
+
+  // Media Session actions call the latest handlers
+  const actionsRef = useRef({setPaused, skip, seek});
+  actionsRef.current = {setPaused, skip, seek};
+
+  // Let browser and OS media controls drive the music
+  useEffect(() => {
+    if (!enabled || typeof navigator === 'undefined' || !navigator.mediaSession) {
+      return;
+    }
+    const session = navigator.mediaSession;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => actionsRef.current.setPaused(false)],
+      ['pause', () => actionsRef.current.setPaused(true)],
+      ['previoustrack', () => actionsRef.current.skip('previous')],
+      ['nexttrack', () => actionsRef.current.skip('next')],
+      [
+        'seekto',
+        details => {
+          if (details.seekTime !== undefined) {
+            actionsRef.current.seek(details.seekTime);
+          }
+        },
+      ],
+    ];
+    const setHandlers = (clear: boolean) => {
+      handlers.forEach(([action, handler]) => {
+        try {
+          session.setActionHandler(action, clear ? null : handler);
+        } catch (error) {
+          // The browser doesn't support this action
+        }
+      });
+    };
+    setHandlers(false);
+
+    return () => {
+      setHandlers(true);
+      session.metadata = null;
+      session.playbackState = 'none';
+    };
+  }, [enabled]);
+
+  const isAmbient = source === 'ambient';
+  const nowPlaying: NowPlayingInfo = isAmbient
+    ? {
+        title: 'Ambient Mix',
+        artist: 'Generated sounds',
+        position: 0,
+        duration: 0,
+        isPlaying: shouldPlay,
+        canSkip: false,
+      }
+    : {
+        title: currentTrack?.title ?? 'No track',
+        artist: currentTrack?.artist ?? '',
+        position: trackProgress.position,
+        duration: trackProgress.duration,
+        isPlaying: shouldPlay,
+        canSkip: currentTrack !== null,
+      };
+
+  useEffect(() => {
+    if (!enabled || typeof navigator === 'undefined' || !navigator.mediaSession) {
+      return;
+    }
+    navigator.mediaSession.metadata =
+      typeof MediaMetadata === 'undefined'
+        ? null
+        : new MediaMetadata({
+            title: nowPlaying.title,
+            artist: nowPlaying.artist,
+            album: 'Motivation Watch',
+          });
+    navigator.mediaSession.playbackState = nowPlaying.isPlaying ? 'playing' : 'paused';
+  }, [enabled, nowPlaying.title, nowPlaying.artist, nowPlaying.isPlaying]);
+
+  if (!enabled) {
+    return null;
+  }
 
   return (
     <View style={styles.container}>
-      <TouchableOpacity
-        style={styles.button}
-        onPress={toggleMute}
-        accessibilityLabel={isMuted ? 'Unmute music' : 'Mute music'}
-      >
-        <Text style={styles.icon}>{isMuted ? '🔇' : '🔊'}</Text>
-      </TouchableOpacity>
+      {((autoplayBlocked && playlistPlaying) || (ambientBlocked && ambientPlaying)) && (
+        <TouchableOpacity
+          style={styles.startButton}
+          onPress={startBlockedMusic}
+          accessibilityLabel="Tap to start music"
+        >
+          <Text style={styles.startText}>Tap to start music</Text>
+        </TouchableOpacity>
+      )}
+      {expanded && (
+        <NowPlayingPanel
+          info={nowPlaying}
+          volume={volume}
+          onPlayPause={() => setPaused(nowPlaying.isPlaying)}
+          onPrevious={() => skip('previous')}
+          onNext={() => skip('next')}
+          onSeek={seek}
+          onVolumeChange={value => onVolumeChange?.(value)}
+        />
+      )}
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={toggleMute}
+          accessibilityLabel={isMuted ? 'Unmute music' : 'Mute music'}
+        >
+          <Text style={styles.icon}>{isMuted ? '🔇' : '🔊'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, expanded && styles.buttonActive]}
+          onPress={toggleExpanded}
+          accessibilityLabel={expanded ? 'Hide now playing' : 'Show now playing'}
+        >
+          <Text style={styles.icon}>🎵</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
@@ -127,10 +438,13 @@ const styles = StyleSheet.create({
     position: 'absolute',
     bottom: 40,
     left: 110,
-    flexDirection: 'row',
     gap: 10,
     zIndex: 100,
   },
+  buttons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
   button: {
     width: 40,
     height: 40,
@@ -141,6 +455,21 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.3)',
   },
+  buttonActive: {
+    borderColor: '#4169E1',
+  },
+  startButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(65, 105, 225, 0.8)',
+    borderRadius: 20,
+  },
+  startText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   icon: {
     fontSize: 20,
   },
@@ -0,0 +1,295 @@
+import React, {useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Modal} from 'react-native';
+import {FocusBlocksController} from '../calendar/useFocusBlocks';
+import {DEFAULT_FOCUS_TAG} from '../calendar/focusBlocks';
+import {exportSessionsToIcs} from '../calendar/sessionExport';
+import {pickCalendarFile, saveCalendarFile} from '../calendar/calendarFiles';
+import {loadJournal} from '../history/sessionJournal';
+
+interface CalendarPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  focusBlocks: FocusBlocksController;
+}
+
+const EXPORT_FILE_NAME = 'motivation-watch-sessions.ics';
+
+// Format a block's time range, e.g. "Mon 5 Feb · 09:00 – 10:30"
+const formatBlockTime = (startsAt: number, endsAt: number): string => {
+  const start = new Date(startsAt);
+  const day = start.toLocaleDateString('en-US', {weekday: 'short', month: 'short', day: 'numeric'});
+  const time = (date: Date) =>
+    date.toLocaleTimeString('en-US', {hour12: false, hour: '2-digit', minute: '2-digit'});
+  return `${day} · ${time(start)} – ${time(new Date(endsAt))}`;
+};
+
+/**
+ * CalendarPanel Component
+ *
+ * Features:
+ * - Import an .ics calendar file
+ * - Events with the chosen tag become scheduled focus blocks; daily and
+ *   weekly repeats are scheduled four weeks ahead
+ * - Upcoming focus blocks, removable one by one
+ * - Export completed session history as .ics
+ */
+const CalendarPanel: React.FC<CalendarPanelProps> = ({visible, onClose, focusBlocks}) => {
+  const [tagText, setTagText] = useState(DEFAULT_FOCUS_TAG);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const importText = (ics: string) => {
+    const {scheduled, unsupported} = focusBlocks.importCalendar(ics, tagText);
+    const result =
+      scheduled > 0
+        ? `Scheduled ${scheduled} focus block${scheduled === 1 ? '' : 's'}.`
+        : `No upcoming events tagged "${tagText.trim()}".`;
+    setMessage(
+      unsupported.length > 0
+        ? `${result} Not scheduled, their repeat rule is not supported: ${unsupported.join(', ')}.`
+        : result,
+    );
+  };
+
+  const handlePickFile = async () => {
+    const ics = await pickCalendarFile();
+    if (ics !== null) {
+      importText(ics);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await saveCalendarFile(EXPORT_FILE_NAME, exportSessionsToIcs(loadJournal(), Date.now()));
+    } catch (e) {
+      console.error('Failed to export sessions:', e);
+      setMessage('Export failed.');
+    }
+  };
+
+  const isTagMissing = tagText.trim() === '';
+  const now = Date.now();
+  const upcoming = focusBlocks.blocks.filter(block => block.endsAt > now);
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.panel}>
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title}>Calendar</Text>
+              <TouchableOpacity onPress={onClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Import */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Import Focus Blocks</Text>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Event Tag</Text>
+                <TextInput
+                  style={styles.input}
+                  value={tagText}
+                  onChangeText={setTagText}
+                  placeholder="focus"
+                  placeholderTextColor="#666666"
+                  autoCapitalize="none"
+                />
+                <Text style={styles.hint}>
+                  Matches an event category or a #tag in the title or description.
+                </Text>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, isTagMissing && styles.disabledButton]}
+                onPress={handlePickFile}
+                disabled={isTagMissing}
+              >
+                <Text style={styles.primaryButtonText}>Import .ics File</Text>
+              </TouchableOpacity>
+
+              {message && <Text style={styles.message}>{message}</Text>}
+            </View>
+
+            {/* Scheduled Blocks */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Scheduled</Text>
+              {upcoming.length === 0 && (
+                <Text style={styles.emptyText}>No focus blocks scheduled.</Text>
+              )}
+              {upcoming.map(block => (
+                <View key={block.id} style={[styles.block, block.started && styles.blockStarted]}>
+                  <View style={styles.blockBody}>
+                    <Text style={styles.blockTitle}>{block.title}</Text>
+                    <Text style={styles.blockTime}>
+                      {formatBlockTime(block.startsAt, block.endsAt)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.blockAction}
+                    onPress={() => focusBlocks.removeBlock(block.id)}
+                    accessibilityLabel="Remove focus block"
+                  >
+                    <Text style={styles.blockActionText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+
+            {/* Export */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Export</Text>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleExport}>
+                <Text style={styles.secondaryButtonText}>Export Session History (.ics)</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  panel: {
+    position: 'absolute',
+    right: 0,
+    top: 0,
+    bottom: 0,
+    width: 400,
+    maxWidth: '90%',
+    backgroundColor: '#1a1a1a',
+  },
+  content: {
+    padding: 30,
+    gap: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  closeButton: {
+    color: '#FFFFFF',
+    fontSize: 32,
+    fontWeight: '300',
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  setting: {
+    gap: 8,
+  },
+  label: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  hint: {
+    color: '#888888',
+    fontSize: 12,
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    color: '#FFFFFF',
+    padding: 12,
+    fontSize: 16,
+    borderRadius: 4,
+  },
+  message: {
+    color: '#CCCCCC',
+    fontSize: 14,
+  },
+  emptyText: {
+    color: '#888888',
+    fontSize: 14,
+  },
+  block: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+  },
+  blockStarted: {
+    borderColor: '#4169E1',
+  },
+  blockBody: {
+    flex: 1,
+    padding: 12,
+    gap: 4,
+  },
+  blockTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  blockTime: {
+    color: '#888888',
+    fontSize: 12,
+  },
+  blockAction: {
+    padding: 12,
+  },
+  blockActionText: {
+    color: '#CCCCCC',
+    fontSize: 18,
+  },
+  primaryButton: {
+    backgroundColor: '#4169E1',
+    padding: 16,
+    alignItems: 'center',
+    borderRadius: 4,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  disabledButton: {
+    backgroundColor: '#666666',
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#666666',
+    padding: 16,
+    alignItems: 'center',
+    borderRadius: 4,
+  },
+  secondaryButtonText: {
+    color: '#CCCCCC',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default CalendarPanel;
@@ -0,0 +1,108 @@
+import React from 'react';
+import {StyleSheet, View} from 'react-native';
+import Animated, {useAnimatedStyle, useDerivedValue} from 'react-native-reanimated';
+import {useSimulationTime} from '../astronomy/SimulationTime';
+import {getOrbitAngle} from '../astronomy/simulationClock';
+import {getOrbitPosition} from '../astronomy/orbit';
+import {CometData, getTailScale} from '../astronomy/comets';
+
+interface CometProps {
+  comet: CometData;
+  initialAngle?: number; // Mean anomaly at the start of the simulation, in radians
+}
+
+/**
+ * Comet component renders a periodic comet on its elliptical orbit.
+ *
+ * Features:
+ * - Position from Kepler's equation, so the comet whips round perihelion
+ *   and crawls out at aphelion
+ * - Dust and ion tails that always point away from the Sun
+ * - Tails grow towards perihelion and shrink away from it
+ * - Follows the shared simulation clock on the UI thread
+ */
+const Comet: React.FC<CometProps> = ({comet, initialAngle = 0}) => {
+  const time = useSimulationTime();
+
+  const position = useDerivedValue(() =>
+    getOrbitPosition(comet, getOrbitAngle(time.value, comet.speed, initialAngle)),
+  );
+
+  // The frame sits on the nucleus and turns its x axis away from the Sun
+  const frameStyle = useAnimatedStyle(() => ({
+    transform: [
+      {translateX: position.value.x},
+      {translateY: position.value.y},
+      {rotate: `${Math.atan2(position.value.y, position.value.x)}rad`},
+    ],
+  }));
+
+  // The tail box is centered on the nucleus, so scaling it keeps the tail's root in place
+  const tailStyle = useAnimatedStyle(() => {
+    const {x, y} = position.value;
+    return {transform: [{scaleX: getTailScale(comet, Math.sqrt(x * x + y * y))}]};
+  });
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[styles.frame, frameStyle]}
+      accessibilityLabel={`Comet ${comet.name}`}>
+      <Animated.View style={[styles.tail, {width: comet.tail * 2, left: -comet.tail}, tailStyle]}>
+        <View style={[styles.ionTail, {left: comet.tail, width: comet.tail, backgroundColor: comet.color}]} />
+        <View
+          style={[styles.dustTail, {left: comet.tail, width: comet.tail * 0.6, backgroundColor: comet.color}]}
+        />
+      </Animated.View>
+      <View style={[styles.coma, {backgroundColor: comet.color}]} />
+      <View style={styles.nucleus} />
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  frame: {
+    position: 'absolute',
+  },
+  tail: {
+    position: 'absolute',
+    top: -3,
+    height: 6,
+  },
+  ionTail: {
+    // Long, thin and faint, blown straight back by the solar wind
+    position: 'absolute',
+    top: 2,
+    height: 2,
+    borderRadius: 1,
+    opacity: 0.35,
+  },
+  dustTail: {
+    // Shorter and broader, brightest where it overlaps the ion tail
+    position: 'absolute',
+    top: 0,
+    height: 6,
+    borderRadius: 3,
+    opacity: 0.3,
+  },
+  coma: {
+    position: 'absolute',
+    left: -4,
+    top: -4,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    opacity: 0.35,
+  },
+  nucleus: {
+    position: 'absolute',
+    left: -1.5,
+    top: -1.5,
+    width: 3,
+    height: 3,
+    borderRadius: 1.5,
+    backgroundColor: '#FFFFFF',
+  },
+});
+
+export default Comet;
@@ -0,0 +1,102 @@
+import React from 'react';
+import {StyleSheet, View} from 'react-native';
+import {useSimulationTime} from '../astronomy/SimulationTime.web';
+import {getOrbitAngle} from '../astronomy/simulationClock';
+import {getOrbitPosition} from '../astronomy/orbit';
+import {CometData, getTailScale} from '../astronomy/comets';
+
+interface CometProps {
+  comet: CometData;
+  initialAngle?: number; // Mean anomaly at the start of the simulation, in radians
+}
+
+/**
+ * Comet component - Web version
+ * A periodic comet on its elliptical orbit, positioned from the shared
+ * simulation time with Kepler's equation. Its dust and ion tails point
+ * away from the Sun and grow towards perihelion.
+ */
+const CometWeb: React.FC<CometProps> = ({comet, initialAngle = 0}) => {
+  const time = useSimulationTime();
+  const {x, y} = getOrbitPosition(comet, getOrbitAngle(time, comet.speed, initialAngle));
+  const tailScale = getTailScale(comet, Math.sqrt(x * x + y * y));
+
+  // The frame sits on the nucleus and turns its x axis away from the Sun;
+  // the tail box is centered on the nucleus, so scaling it keeps the tail's root in place
+  return (
+    <View
+      pointerEvents="none"
+      style={[styles.frame, {left: x, top: y, transform: [{rotate: `${Math.atan2(y, x)}rad`}]}]}
+      accessibilityLabel={`Comet ${comet.name}`}
+    >
+      <View
+        style={[
+          styles.tail,
+          {width: comet.tail * 2, left: -comet.tail, transform: [{scaleX: tailScale}]},
+        ]}
+      >
+        <View
+          style={[
+            styles.ionTail,
+            {left: comet.tail, width: comet.tail, backgroundColor: comet.color},
+          ]}
+        />
+        <View
+          style={[
+            styles.dustTail,
+            {left: comet.tail, width: comet.tail * 0.6, backgroundColor: comet.color},
+          ]}
+        />
+      </View>
+      <View style={[styles.coma, {backgroundColor: comet.color}]} />
+      <View style={styles.nucleus} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  frame: {
+    position: 'absolute',
+  },
+  tail: {
+    position: 'absolute',
+    top: -3,
+    height: 6,
+  },
+  ionTail: {
+    // Long, thin and faint, blown straight back by the solar wind
+    position: 'absolute',
+    top: 2,
+    height: 2,
+    borderRadius: 1,
+    opacity: 0.35,
+  },
+  dustTail: {
+    // Shorter and broader, brightest where it overlaps the ion tail
+    position: 'absolute',
+    top: 0,
+    height: 6,
+    borderRadius: 3,
+    opacity: 0.3,
+  },
+  coma: {
+    position: 'absolute',
+    left: -4,
+    top: -4,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    opacity: 0.35,
+  },
+  nucleus: {
+    position: 'absolute',
+    left: -1.5,
+    top: -1.5,
+    width: 3,
+    height: 3,
+    borderRadius: 1.5,
+    backgroundColor: '#FFFFFF',
+  },
+});
+
+export default CometWeb;
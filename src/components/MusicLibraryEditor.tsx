@@ -0,0 +1,243 @@
+import React, {useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {MusicLibraryController} from '../audio/useMusicLibrary';
+import {GAIN_STEP_DB, LibraryTrack, MusicRepeat} from '../audio/musicLibrary';
+import {MUSIC_MOODS, MusicMood} from '../audio/musicSession';
+
+interface MusicLibraryEditorProps {
+  musicLibrary: MusicLibraryController;
+}
+
+const MOOD_LABELS: Record<MusicMood, string> = {
+  focus: 'Focus',
+  break: 'Break',
+};
+
+const REPEAT_OPTIONS: {label: string; value: MusicRepeat}[] = [
+  {label: 'Off', value: 'off'},
+  {label: 'All', value: 'all'},
+  {label: 'One', value: 'one'},
+];
+
+const formatGain = (gainDb: number): string => `${gainDb > 0 ? '+' : ''}${gainDb} dB`;
+
+/**
+ * MusicLibraryEditor Component
+ *
+ * Settings section for the user's own background music, shared by the
+ * native and web settings panels. Changes apply right away rather than
+ * on save, since imported files are stored as soon as they are picked.
+ *
+ * Features:
+ * - Import audio files into the focus or break playlist
+ * - Reorder, move between playlists and remove tracks
+ * - Per-track gain
+ * - Shuffle and repeat (off, all, one)
+ */
+const MusicLibraryEditor: React.FC<MusicLibraryEditorProps> = ({musicLibrary}) => {
+  const {library} = musicLibrary;
+  const [importing, setImporting] = useState(false);
+
+  const handleImport = async (mood: MusicMood) => {
+    setImporting(true);
+    try {
+      await musicLibrary.importTracks(mood);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderTrack = (track: LibraryTrack) => (
+    <View key={track.id} style={styles.track}>
+      <Text style={styles.trackTitle} numberOfLines={1}>
+        {track.title}
+      </Text>
+      <View style={styles.trackRow}>
+        <TouchableOpacity
+          style={styles.trackButton}
+          onPress={() =>
+            musicLibrary.setTrackMood(track.id, track.mood === 'focus' ? 'break' : 'focus')
+          }
+        >
+          <Text style={styles.trackButtonText}>{track.mood === 'focus' ? 'FOCUS' : 'BREAK'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.trackButton}
+          onPress={() => musicLibrary.setTrackGain(track.id, track.gainDb - GAIN_STEP_DB)}
+          accessibilityLabel="Lower track gain"
+        >
+          <Text style={styles.trackButtonText}>−</Text>
+        </TouchableOpacity>
+        <Text style={styles.gain}>{formatGain(track.gainDb)}</Text>
+        <TouchableOpacity
+          style={styles.trackButton}
+          onPress={() => musicLibrary.setTrackGain(track.id, track.gainDb + GAIN_STEP_DB)}
+          accessibilityLabel="Raise track gain"
+        >
+          <Text style={styles.trackButtonText}>+</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.trackButton}
+          onPress={() => musicLibrary.moveTrack(track.id, -1)}
+          accessibilityLabel="Move track up"
+        >
+          <Text style={styles.trackButtonText}>▲</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.trackButton}
+          onPress={() => musicLibrary.moveTrack(track.id, 1)}
+          accessibilityLabel="Move track down"
+        >
+          <Text style={styles.trackButtonText}>▼</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.trackButton}
+          onPress={() => musicLibrary.removeTrack(track.id)}
+          accessibilityLabel="Remove track"
+        >
+          <Text style={styles.trackButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {MUSIC_MOODS.map(mood => {
+        const tracks = library.tracks.filter(track => track.mood === mood);
+        return (
+          <View key={mood} style={styles.playlist}>
+            <Text style={styles.label}>{MOOD_LABELS[mood]} Playlist</Text>
+            {tracks.length === 0 && (
+              <Text style={styles.hint}>Playing the built-in tracks.</Text>
+            )}
+            {tracks.map(renderTrack)}
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => handleImport(mood)}
+              disabled={importing}
+            >
+              <Text style={styles.addButtonText}>+ Add {MOOD_LABELS[mood]} Tracks</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {/* Playback Options */}
+      <View style={styles.optionRow}>
+        <Text style={styles.label}>Shuffle</Text>
+        <TouchableOpacity
+          style={[styles.chip, library.shuffle && styles.chipActive]}
+          onPress={musicLibrary.toggleShuffle}
+        >
+          <Text style={styles.chipText}>{library.shuffle ? 'On' : 'Off'}</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.optionRow}>
+        <Text style={styles.label}>Repeat</Text>
+        <View style={styles.chips}>
+          {REPEAT_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, library.repeat === option.value && styles.chipActive]}
+              onPress={() => musicLibrary.setRepeat(option.value)}
+            >
+              <Text style={styles.chipText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  playlist: {
+    gap: 8,
+  },
+  label: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  hint: {
+    color: '#888888',
+    fontSize: 12,
+  },
+  track: {
+    gap: 6,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  trackTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  trackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  trackButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+  },
+  trackButtonText: {
+    color: '#CCCCCC',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  gain: {
+    color: '#CCCCCC',
+    fontSize: 12,
+    minWidth: 44,
+    textAlign: 'center',
+  },
+  addButton: {
+    borderWidth: 1,
+    borderColor: '#666666',
+    borderStyle: 'dashed',
+    padding: 12,
+    alignItems: 'center',
+    borderRadius: 4,
+  },
+  addButtonText: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+  },
+  chipActive: {
+    borderColor: '#4169E1',
+  },
+  chipText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default MusicLibraryEditor;
@@ -0,0 +1,176 @@
+import React, {useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {formatTime} from '../timer/pomodoroEngine';
+import Slider from './Slider';
+
+export interface NowPlayingInfo {
+  title: string;
+  artist: string;
+  position: number; // in seconds
+  duration: number; // in seconds, 0 when unknown
+  isPlaying: boolean;
+  canSkip: boolean; // False for sources without tracks, such as ambient generators
+}
+
+interface NowPlayingPanelProps {
+  info: NowPlayingInfo;
+  volume: number; // 0 to 1
+  onPlayPause: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSeek: (seconds: number) => void;
+  onVolumeChange: (volume: number) => void;
+}
+
+/**
+ * NowPlayingPanel Component
+ *
+ * Expanded background music controls, shared by the native and web
+ * BackgroundMusic components.
+ *
+ * Features:
+ * - Track title and artist
+ * - Play/pause, previous and next
+ * - Seek bar with elapsed and total time
+ * - Music volume slider
+ */
+const NowPlayingPanel: React.FC<NowPlayingPanelProps> = ({
+  info,
+  volume,
+  onPlayPause,
+  onPrevious,
+  onNext,
+  onSeek,
+  onVolumeChange,
+}) => {
+  // Position shown while dragging the seek bar, applied on release
+  const [seeking, setSeeking] = useState<number | null>(null);
+  const canSeek = info.canSkip && info.duration > 0;
+  const position = seeking ?? info.position;
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title} numberOfLines={1}>
+        {info.title}
+      </Text>
+      <Text style={styles.artist} numberOfLines={1}>
+        {info.artist}
+      </Text>
+
+      {/* Seek Bar */}
+      <Slider
+        value={canSeek ? position / info.duration : 0}
+        onChange={value => setSeeking(value * info.duration)}
+        onComplete={value => {
+          setSeeking(null);
+          onSeek(value * info.duration);
+        }}
+        disabled={!canSeek}
+        accessibilityLabel="Seek"
+      />
+      <View style={styles.times}>
+        <Text style={styles.time}>{formatTime(position)}</Text>
+        <Text style={styles.time}>{canSeek ? formatTime(info.duration) : '--:--'}</Text>
+      </View>
+
+      {/* Transport */}
+      <View style={styles.transport}>
+        <TouchableOpacity
+          style={styles.transportButton}
+          onPress={onPrevious}
+          disabled={!info.canSkip}
+          accessibilityLabel="Previous track"
+        >
+          <Text style={[styles.transportText, !info.canSkip && styles.disabledText]}>⏮</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.transportButton, styles.playButton]}
+          onPress={onPlayPause}
+          accessibilityLabel={info.isPlaying ? 'Pause music' : 'Play music'}
+        >
+          <Text style={styles.transportText}>{info.isPlaying ? '⏸' : '▶'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.transportButton}
+          onPress={onNext}
+          disabled={!info.canSkip}
+          accessibilityLabel="Next track"
+        >
+          <Text style={[styles.transportText, !info.canSkip && styles.disabledText]}>⏭</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Volume */}
+      <View style={styles.volume}>
+        <Text style={styles.time}>Volume</Text>
+        <View style={styles.volumeSlider}>
+          <Slider value={volume} onChange={onVolumeChange} accessibilityLabel="Music volume" />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    width: 260,
+    padding: 16,
+    gap: 6,
+    backgroundColor: 'rgba(20, 20, 20, 0.95)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 12,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  artist: {
+    color: '#888888',
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  times: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  time: {
+    color: '#888888',
+    fontSize: 12,
+  },
+  transport: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+    marginVertical: 6,
+  },
+  transportButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+  },
+  playButton: {
+    backgroundColor: 'rgba(65, 105, 225, 0.4)',
+  },
+  transportText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+  },
+  disabledText: {
+    opacity: 0.3,
+  },
+  volume: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  volumeSlider: {
+    flex: 1,
+  },
+});
+
+export default NowPlayingPanel;
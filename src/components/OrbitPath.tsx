@@ -1,26 +1,47 @@
 import React from 'react';
 import {View, StyleSheet} from 'react-native';
+import {getOrbitEllipse} from '../astronomy/orbit';
 
 interface OrbitPathProps {
-  radius: number;
+  distance: number; // Semi-major axis, in px
+  eccentricity?: number;
+  perihelionArgument?: number; // ω, in degrees
+  ascendingNode?: number; // Ω, in degrees
 }
 
 /**
- * OrbitPath component renders a circular orbit path.
- * These thin circular lines show the orbital paths of planets around the Sun.
+ * OrbitPath component renders an elliptical orbit path.
+ * These thin lines show the orbital paths of planets around the Sun, with
+ * the Sun at one focus, or of moons around their planet. The ellipse is a
+ * circle with a border, squashed to the minor axis and turned towards
+ * perihelion, which looks the same on native and web.
  */
-const OrbitPath: React.FC<OrbitPathProps> = ({radius}) => {
+const OrbitPath: React.FC<OrbitPathProps> = ({
+  distance,
+  eccentricity = 0,
+  perihelionArgument = 0,
+  ascendingNode = 0,
+}) => {
+  const ellipse = getOrbitEllipse({distance, eccentricity, perihelionArgument, ascendingNode});
+
   return (
     <View
       style={[
         styles.orbitPath,
         {
-          width: radius * 2,
-          height: radius * 2,
-          borderRadius: radius,
-          // Center the orbit by offsetting by the radius
-          left: -radius,
-          top: -radius,
+          width: distance * 2,
+          height: distance * 2,
+          borderRadius: distance,
+          // Center the orbit on the Sun by offsetting by the radius
+          left: -distance,
+          top: -distance,
+          // Applied right to left: squash, shift the center off the Sun, turn
+          transform: [
+            {translateX: ellipse.centerX},
+            {translateY: ellipse.centerY},
+            {rotate: `${ellipse.rotation}rad`},
+            {scaleY: ellipse.height / ellipse.width},
+          ],
         },
       ]}
       accessibilityLabel="Orbital path"
@@ -34,9 +55,6 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(136, 136, 136, 0.3)', // Semi-transparent gray
     borderStyle: 'solid',
-    // Center the orbit path so it's centered on the Sun
-    // The orbit is positioned at the center of the solar system container
-    // We need to offset by half the width/height to center it properly
   },
 });
 
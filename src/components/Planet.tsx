@@ -1,20 +1,28 @@
-import React, {useEffect} from 'react';
-import {StyleSheet} from 'react-native';
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withRepeat,
-  withTiming,
-  Easing,
-} from 'react-native-reanimated';
+import React from 'react';
+import {StyleSheet, View} from 'react-native';
+import Animated, {useAnimatedStyle, useDerivedValue} from 'react-native-reanimated';
+import {useSimulationTime} from '../astronomy/SimulationTime';
+import {getOrbitAngle} from '../astronomy/simulationClock';
+import {getOrbitPoint, getOrbitPosition} from '../astronomy/orbit';
+import {RingSystem} from '../astronomy/bodies';
+import PlanetSurface from './PlanetSurface';
+import PlanetRings from './PlanetRings';
 
 interface PlanetProps {
   name: string;
   size: number;
   color: string;
-  distance: number;
-  speed: number; // Orbital period in seconds for one complete orbit
-  initialAngle?: number;
+  distance: number; // Semi-major axis, in px
+  speed: number; // Orbital period in simulation seconds for one complete orbit
+  eccentricity?: number;
+  perihelionArgument?: number; // ω, in degrees
+  ascendingNode?: number; // Ω, in degrees
+  initialAngle?: number; // Mean anomaly at the start of the simulation, in radians
+  longitude?: number; // Fixed heliocentric longitude in radians; the planet stays put instead of orbiting
+  bands?: string[]; // Cloud belt colors, from the edge of the disc inwards
+  rings?: RingSystem;
+  kind?: 'planet' | 'moon';
+  children?: React.ReactNode; // Satellites, positioned from the planet's center
 }
 
 /**
@@ -24,7 +32,16 @@ interface PlanetProps {
  * Orbital mechanics:
  * - Inner planets (Mercury, Venus, Earth, Mars) orbit faster
  * - Outer planets (Jupiter, Saturn, Uranus, Neptune) orbit slower
- * - Uses continuous animation with react-native-reanimated for smooth 60fps performance
+ * - Orbits are ellipses with the Sun at a focus, solved with Kepler's
+ *   equation, so planets speed up near perihelion
+ * - Position follows the shared simulation clock on the UI thread, so all
+ *   planets pause, warp and reverse together
+ * - Holds still at a fixed longitude when one is given (real positions)
+ * - Banded, limb-darkened disc with rings where the planet has them
+ * - The night side turns with the orbit so the lit half always faces the
+ *   Sun; only the terminator's rotation changes per frame
+ * - Carries its children along: a moon is a Planet nested in its parent,
+ *   orbiting the parent's center instead of the Sun
  */
 const Planet: React.FC<PlanetProps> = ({
   name,
@@ -32,57 +49,79 @@ const Planet: React.FC<PlanetProps> = ({
   color,
   distance,
   speed,
+  eccentricity = 0,
+  perihelionArgument = 0,
+  ascendingNode = 0,
   initialAngle = 0,
+  longitude,
+  bands,
+  rings,
+  kind = 'planet',
+  children,
 }) => {
-  // Shared value for the orbital angle (in radians)
-  const angle = useSharedValue(initialAngle);
+  const time = useSimulationTime();
 
-  useEffect(() => {
-    // Convert speed (seconds per orbit) to animation duration
-    // Use withRepeat to create continuous orbital motion
-    angle.value = withRepeat(
-      withTiming(initialAngle + Math.PI * 2, {
-        duration: speed * 1000, // Convert seconds to milliseconds
-        easing: Easing.linear,
-      }),
-      -1, // Infinite repeat
-      false, // Don't reverse
-    );
-  }, [angle, speed, initialAngle]);
+  // Calculate planet position on its ellipse: the mean anomaly grows evenly
+  // with simulation time and Kepler's equation turns it into a point
+  const position = useDerivedValue(() => {
+    const shape = {distance, eccentricity, perihelionArgument, ascendingNode};
+    return longitude === undefined
+      ? getOrbitPosition(shape, getOrbitAngle(time.value, speed, initialAngle))
+      : getOrbitPoint(shape, longitude);
+  });
 
-  // Calculate planet position based on angle and distance
-  // Using circular orbit: x = cos(angle) * distance, y = sin(angle) * distance
-  // Offset by half the planet size to center it on the orbit
-  const animatedStyle = useAnimatedStyle(() => {
-    const x = Math.cos(angle.value) * distance - size / 2;
-    const y = Math.sin(angle.value) * distance - size / 2;
+  // The frame sits on the planet's center; the disc is offset by half its size
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      {translateX: position.value.x},
+      {translateY: position.value.y},
+    ],
+  }));
 
-    return {
-      transform: [
-        {translateX: x},
-        {translateY: y},
-      ],
-    };
-  });
+  // Turn the night half to point straight away from the Sun
+  const terminatorStyle = useAnimatedStyle(() => ({
+    transform: [{rotate: `${Math.atan2(position.value.y, position.value.x)}rad`}],
+  }));
+
+  // Moons are too small to show a terminator, and are lit from their parent's direction
+  const shaded = kind === 'planet';
 
   return (
-    <Animated.View
-      style={[
-        styles.planet,
-        {
-          width: size,
-          height: size,
-          borderRadius: size / 2,
-          backgroundColor: color,
-        },
-        animatedStyle,
-      ]}
-      accessibilityLabel={`${name} planet, ${size}px diameter, orbiting at ${distance}px from the Sun`}
-    />
+    <Animated.View style={[styles.frame, animatedStyle]}>
+      {rings && <PlanetRings size={size} rings={rings} />}
+      <View
+        style={[
+          styles.planet,
+          {
+            width: size,
+            height: size,
+            borderRadius: size / 2,
+            backgroundColor: color,
+            left: -size / 2,
+            top: -size / 2,
+          },
+        ]}
+        accessibilityLabel={`${name} ${kind}, ${size}px diameter, orbiting at ${distance}px`}>
+        {shaded && (
+          <View style={[styles.disc, {borderRadius: size / 2}]}>
+            <PlanetSurface size={size} bands={bands} />
+            <Animated.View style={[styles.terminator, terminatorStyle]}>
+              <View style={styles.twilight} />
+              <View style={styles.night} />
+            </Animated.View>
+          </View>
+        )}
+      </View>
+      {rings && <PlanetRings size={size} rings={rings} front />}
+      {children}
+    </Animated.View>
   );
 };
 
 const styles = StyleSheet.create({
+  frame: {
+    position: 'absolute',
+  },
   planet: {
     position: 'absolute',
     // Shadow for depth effect
@@ -92,6 +131,39 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 5,
   },
+  disc: {
+    // Clips the surface and terminator to the disc without clipping its shadow
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: '100%',
+    height: '100%',
+    overflow: 'hidden',
+  },
+  terminator: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: '100%',
+    height: '100%',
+  },
+  twilight: {
+    // Softens the edge between day and night
+    position: 'absolute',
+    left: '40%',
+    top: 0,
+    width: '10%',
+    height: '100%',
+    backgroundColor: 'rgba(0, 0, 10, 0.3)',
+  },
+  night: {
+    position: 'absolute',
+    left: '50%',
+    top: 0,
+    width: '50%',
+    height: '100%',
+    backgroundColor: 'rgba(0, 0, 10, 0.65)',
+  },
 });
 
 export default Planet;
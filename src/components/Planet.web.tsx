@@ -1,18 +1,37 @@
-import React, {useEffect, useState} from 'react';
+import React from 'react';
 import {StyleSheet, View} from 'react-native';
+import {useSimulationTime} from '../astronomy/SimulationTime.web';
+import {getOrbitAngle} from '../astronomy/simulationClock';
+import {getOrbitPoint, getOrbitPosition} from '../astronomy/orbit';
+import {RingSystem} from '../astronomy/bodies';
+import PlanetSurface from './PlanetSurface';
+import PlanetRings from './PlanetRings';
 
 interface PlanetProps {
   name: string;
   size: number;
   color: string;
-  distance: number;
-  speed: number; // Orbital period in seconds for one complete orbit
-  initialAngle?: number;
+  distance: number; // Semi-major axis, in px
+  speed: number; // Orbital period in simulation seconds for one complete orbit
+  eccentricity?: number;
+  perihelionArgument?: number; // ω, in degrees
+  ascendingNode?: number; // Ω, in degrees
+  initialAngle?: number; // Mean anomaly at the start of the simulation, in radians
+  longitude?: number; // Fixed heliocentric longitude in radians; the planet stays put instead of orbiting
+  bands?: string[]; // Cloud belt colors, from the edge of the disc inwards
+  rings?: RingSystem;
+  kind?: 'planet' | 'moon';
+  children?: React.ReactNode; // Satellites, positioned from the planet's center
 }
 
 /**
- * Planet component - Web version using state-based animation
- * Each planet orbits around the center (Sun) at different speeds and distances.
+ * Planet component - Web version
+ * Each planet orbits around the center (Sun) at different speeds and distances,
+ * following an elliptical orbit solved with Kepler's equation from the shared
+ * simulation time, or holds still at a fixed longitude when one is given
+ * (real positions). Children (moons) are nested in the planet and orbit its
+ * center, so they travel along with it. Planets get banded, limb-darkened
+ * discs, rings where they have them, and a night side turned away from the Sun.
  */
 const PlanetWeb: React.FC<PlanetProps> = ({
   name,
@@ -20,64 +39,97 @@ const PlanetWeb: React.FC<PlanetProps> = ({
   color,
   distance,
   speed,
+  eccentricity = 0,
+  perihelionArgument = 0,
+  ascendingNode = 0,
   initialAngle = 0,
+  longitude,
+  bands,
+  rings,
+  kind = 'planet',
+  children,
 }) => {
-  const [angle, setAngle] = useState(initialAngle);
+  const time = useSimulationTime();
+  const shape = {distance, eccentricity, perihelionArgument, ascendingNode};
+  const point =
+    longitude === undefined
+      ? getOrbitPosition(shape, getOrbitAngle(time, speed, initialAngle))
+      : getOrbitPoint(shape, longitude);
 
-  useEffect(() => {
-    let animationFrameId: number;
-    let lastTime = performance.now();
-
-    const animate = (currentTime: number) => {
-      const deltaTime = (currentTime - lastTime) / 1000; // Convert to seconds
-      lastTime = currentTime;
-
-      // Calculate angular velocity (radians per second)
-      const angularVelocity = (Math.PI * 2) / speed;
-
-      // Update angle
-      setAngle(prevAngle => {
-        const newAngle = prevAngle + angularVelocity * deltaTime;
-        // Keep angle in range [0, 2π] to prevent overflow
-        return newAngle % (Math.PI * 2);
-      });
-
-      animationFrameId = requestAnimationFrame(animate);
-    };
-
-    animationFrameId = requestAnimationFrame(animate);
-
-    return () => {
-      cancelAnimationFrame(animationFrameId);
-    };
-  }, [speed]);
-
-  // Calculate planet position based on current angle
-  // Offset by half the planet size to center it
-  const x = Math.cos(angle) * distance - size / 2;
-  const y = Math.sin(angle) * distance - size / 2;
+  // Moons are too small to show a terminator, and are lit from their parent's direction
+  const shaded = kind === 'planet';
 
+  // The frame sits on the planet's center; the disc is offset by half its size
   return (
-    <View
-      style={[
-        styles.planet,
-        {
-          width: size,
-          height: size,
-          borderRadius: size / 2,
-          backgroundColor: color,
-          left: x,
-          top: y,
-        },
-      ]}
-      accessibilityLabel={`${name} planet`}
-    />
+    <View style={[styles.frame, {left: point.x, top: point.y}]}>
+      {rings && <PlanetRings size={size} rings={rings} />}
+      <View
+        style={[
+          styles.planet,
+          {
+            width: size,
+            height: size,
+            borderRadius: size / 2,
+            backgroundColor: color,
+            left: -size / 2,
+            top: -size / 2,
+          },
+        ]}
+        accessibilityLabel={`${name} ${kind}`}
+      >
+        {shaded && (
+          <>
+            <PlanetSurface size={size} bands={bands} />
+            {/* Night half turned to point straight away from the Sun */}
+            <View
+              style={[
+                styles.terminator,
+                {transform: [{rotate: `${Math.atan2(point.y, point.x)}rad`}]},
+              ]}
+            >
+              <View style={styles.twilight} />
+              <View style={styles.night} />
+            </View>
+          </>
+        )}
+      </View>
+      {rings && <PlanetRings size={size} rings={rings} front />}
+      {children}
+    </View>
   );
 };
 
 const styles = StyleSheet.create({
+  frame: {
+    position: 'absolute',
+  },
   planet: {
     position: 'absolute',
+    overflow: 'hidden',
+  },
+  terminator: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: '100%',
+    height: '100%',
+  },
+  twilight: {
+    // Softens the edge between day and night
+    position: 'absolute',
+    left: '40%',
+    top: 0,
+    width: '10%',
+    height: '100%',
+    backgroundColor: 'rgba(0, 0, 10, 0.3)',
+  },
+  night: {
+    position: 'absolute',
+    left: '50%',
+    top: 0,
+    width: '50%',
+    height: '100%',
+    backgroundColor: 'rgba(0, 0, 10, 0.65)',
   },
 });
 
@@ -0,0 +1,82 @@
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+import {RingSystem} from '../astronomy/bodies';
+
+interface PlanetRingsProps {
+  size: number; // Diameter of the planet's disc, in px
+  rings: RingSystem;
+  front?: boolean; // Only the near half, drawn over the disc
+}
+
+/**
+ * PlanetRings component draws a ring system around a planet's center.
+ * The ring plane is fixed in space, so seen from above the ecliptic each
+ * ring is an ellipse: a bordered circle squashed by the cosine of the
+ * plane's tilt and turned to its line of nodes, as OrbitPath does. The
+ * planet renders the rings twice: whole behind its disc, then just the
+ * near half in front of it, so the disc sits inside them.
+ */
+const PlanetRings: React.FC<PlanetRingsProps> = ({size, rings, front = false}) => {
+  const planetRadius = size / 2;
+  const outer = Math.max(...rings.bands.map(band => band.outer)) * planetRadius;
+  const inclination = (rings.inclination * Math.PI) / 180;
+  const node = (rings.ascendingNode * Math.PI) / 180;
+
+  return (
+    <View
+      pointerEvents="none"
+      style={[
+        styles.frame,
+        {
+          width: outer * 2,
+          height: outer * 2,
+          left: -outer,
+          top: -outer,
+          transform: [{rotate: `${-node}rad`}, {scaleY: Math.abs(Math.cos(inclination))}],
+        },
+      ]}>
+      {/* The front pass clips to the lower half of the unturned frame */}
+      <View style={[styles.clip, front && {top: outer, height: outer}]}>
+        {rings.bands.map(band => {
+          const radius = band.outer * planetRadius;
+          return (
+            <View
+              key={`ring-${band.inner}`}
+              style={[
+                styles.ring,
+                {
+                  width: radius * 2,
+                  height: radius * 2,
+                  borderRadius: radius,
+                  borderWidth: (band.outer - band.inner) * planetRadius,
+                  borderColor: band.color,
+                  left: outer - radius,
+                  top: outer - radius - (front ? outer : 0),
+                },
+              ]}
+            />
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  frame: {
+    position: 'absolute',
+  },
+  clip: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: '100%',
+    height: '100%',
+    overflow: 'hidden',
+  },
+  ring: {
+    position: 'absolute',
+  },
+});
+
+export default PlanetRings;
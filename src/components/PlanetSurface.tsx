@@ -0,0 +1,72 @@
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+
+interface PlanetSurfaceProps {
+  size: number; // Diameter of the disc, in px
+  bands?: string[]; // Cloud belt colors, from the edge of the disc inwards
+}
+
+// Darkened rims towards the edge of the disc, as a share of its diameter
+const LIMB_LAYERS = [0.16, 0.08];
+
+/**
+ * PlanetSurface component shades a planet's disc: concentric cloud belts
+ * for the gas giants and limb darkening for every planet, which together
+ * read as a radial gradient. Everything is plain bordered circles, drawn
+ * once and never updated, so it costs nothing per frame on native or web.
+ * Rendered inside the disc, which clips it.
+ */
+const PlanetSurface: React.FC<PlanetSurfaceProps> = ({size, bands = []}) => {
+  return (
+    <>
+      {bands.map((band, index) => {
+        // Evenly spaced belts, each a circle over the previous one
+        const diameter = size * (1 - (index + 1) / (bands.length + 1));
+        return (
+          <View
+            key={`band-${index}`}
+            style={[
+              styles.layer,
+              {
+                width: diameter,
+                height: diameter,
+                borderRadius: diameter / 2,
+                left: (size - diameter) / 2,
+                top: (size - diameter) / 2,
+                backgroundColor: band,
+              },
+            ]}
+          />
+        );
+      })}
+      {LIMB_LAYERS.map(width => (
+        <View
+          key={`limb-${width}`}
+          style={[
+            styles.layer,
+            styles.limb,
+            {
+              width: size,
+              height: size,
+              borderRadius: size / 2,
+              borderWidth: size * width,
+            },
+          ]}
+        />
+      ))}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  layer: {
+    position: 'absolute',
+  },
+  limb: {
+    left: 0,
+    top: 0,
+    borderColor: 'rgba(0, 0, 0, 0.18)', // Stacked, the outermost rim is darkest
+  },
+});
+
+export default PlanetSurface;
@@ -1,184 +1,186 @@
-import React, {useState, useEffect, useRef} from 'react';
+import React from 'react';
 import {View, Text, TouchableOpacity, StyleSheet, Platform} from 'react-native';
+import {
+  SessionType,
+  formatTime,
+  getCurrentSegment,
+  getEarnedBreak,
+  getCycleProgress,
+} from '../timer/pomodoroEngine';
+import {usePomodoro} from '../timer/PomodoroContext';
+import Stopwatch from './Stopwatch';
 
-interface PomodoroTimerProps {
-  workDuration?: number; // in minutes, default 25
-  breakDuration?: number; // in minutes, default 5
-  onComplete?: () => void;
+const SESSION_LABELS: Record<SessionType, string> = {
+  work: 'WORK SESSION',
+  break: 'BREAK SESSION',
+  longBreak: 'LONG BREAK SESSION',
+};
+
+export interface ActiveTaskInfo {
+  title: string;
+  actualPomodoros: number;
+  estimatedPomodoros: number;
 }
 
-type TimerState = 'idle' | 'running' | 'paused' | 'completed';
-type SessionType = 'work' | 'break';
+// Minutes added by the "+5 MIN" control
+const EXTEND_MINUTES = 5;
+
+interface PomodoroTimerProps {
+  activeTask?: ActiveTaskInfo | null; // Task credited with completed work sessions
+  onTaskPress?: () => void; // Opens the task list
+}
 
 /**
  * PomodoroTimer Component
  *
+ * Renders the state of the Pomodoro engine shared through PomodoroProvider
+ * (see usePomodoroEngine). All session logic lives in the engine so native
+ * and web screens share it.
+ *
  * Features:
- * - Customizable work and break durations
- * - Continuous loop: work → break → work → break (until reset)
- * - Duration changes apply to next session (not current running session)
  * - Start/Pause/Reset controls
+ * - Skip, +5 min and interruption logging for the current session
+ * - "Up next" prompt when waiting to start the next session
  * - Visual feedback on session type
+ * - Cycle counter towards the next long break
+ * - Segment label, color and position when an interval program is active
+ * - Flowtime stopwatch with laps and a finish control for count-up sessions
+ * - Active task with estimated vs actual pomodoros
  * - Clean digital timer display
  */
-const PomodoroTimer: React.FC<PomodoroTimerProps> = ({
-  workDuration = 25,
-  breakDuration = 5,
-  onComplete,
-}) => {
-  const [sessionType, setSessionType] = useState<SessionType>('work');
-  const [timerState, setTimerState] = useState<TimerState>('idle');
-  const [timeRemaining, setTimeRemaining] = useState(workDuration * 60); // in seconds
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastTickRef = useRef<number>(Date.now());
-
-  // Store durations to apply on next session
-  const nextWorkDurationRef = useRef(workDuration);
-  const nextBreakDurationRef = useRef(breakDuration);
-  const currentWorkDurationRef = useRef(workDuration);
-  const currentBreakDurationRef = useRef(breakDuration);
-
-  // Format time as MM:SS
-  const formatTime = (seconds: number): string => {
-    const totalSecs = Math.floor(Math.max(0, seconds));
-    const mins = Math.floor(totalSecs / 60);
-    const secs = totalSecs % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
-
-  // Start or resume timer
-  const startTimer = () => {
-    // When starting from idle, use the latest durations
-    if (timerState === 'idle') {
-      currentWorkDurationRef.current = nextWorkDurationRef.current;
-      currentBreakDurationRef.current = nextBreakDurationRef.current;
-    }
-    setTimerState('running');
-    lastTickRef.current = Date.now();
-  };
-
-  // Pause timer
-  const pauseTimer = () => {
-    setTimerState('paused');
-  };
-
-  // Reset timer
-  const resetTimer = () => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    setTimerState('idle');
-    setSessionType('work');
-    // Apply latest work duration when resetting
-    currentWorkDurationRef.current = nextWorkDurationRef.current;
-    setTimeRemaining(nextWorkDurationRef.current * 60);
-  };
+const PomodoroTimer: React.FC<PomodoroTimerProps> = ({activeTask, onTaskPress}) => {
+  const {state, start, pause, reset, skip, extend, interrupt, finish, lap} = usePomodoro();
+  const {sessionType, timerState, timeRemaining, interruptions, countUp} = state;
 
-  // Update next duration refs when props change
-  useEffect(() => {
-    nextWorkDurationRef.current = workDuration;
-    nextBreakDurationRef.current = breakDuration;
-  }, [workDuration, breakDuration]);
-
-  // Timer tick effect
-  useEffect(() => {
-    if (timerState === 'running') {
-      intervalRef.current = setInterval(() => {
-        const now = Date.now();
-        const delta = (now - lastTickRef.current) / 1000; // seconds elapsed
-        lastTickRef.current = now;
-
-        setTimeRemaining((prev) => {
-          const newTime = prev - delta;
-
-          if (newTime <= 0) {
-            // Session completed - switch to next session and keep running
-            if (sessionType === 'work') {
-              // Work session done, switch to break
-              setSessionType('break');
-              // Apply next break duration and update current
-              currentBreakDurationRef.current = nextBreakDurationRef.current;
-              lastTickRef.current = Date.now();
-              if (onComplete) {
-                onComplete();
-              }
-              return currentBreakDurationRef.current * 60;
-            } else {
-              // Break session done, switch back to work and keep running
-              setSessionType('work');
-              // Apply next work duration and update current
-              currentWorkDurationRef.current = nextWorkDurationRef.current;
-              lastTickRef.current = Date.now();
-              if (onComplete) {
-                onComplete();
-              }
-              return currentWorkDurationRef.current * 60;
-            }
-          }
-
-          return newTime;
-        });
-      }, 100);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [timerState, onComplete, sessionType]);
-
-  // Update lastTickRef when state changes to running
-  useEffect(() => {
-    if (timerState === 'running') {
-      lastTickRef.current = Date.now();
-    }
-  }, [timerState]);
-
-  // Update timer display when duration changes (only if idle)
-  useEffect(() => {
-    if (timerState === 'idle') {
-      const newDuration = sessionType === 'work' ? nextWorkDurationRef.current : nextBreakDurationRef.current;
-      setTimeRemaining(newDuration * 60);
-    }
-  }, [workDuration, breakDuration, sessionType, timerState]);
-
-  const isBreak = sessionType === 'break';
+  const isBreak = sessionType !== 'work';
+  const cycle = getCycleProgress(state);
+  const {program} = state.config;
+  const segment = getCurrentSegment(state);
+  const isFlowtime = state.config.flowtime && !program;
+  let sessionLabel = segment ? segment.label.toUpperCase() : SESSION_LABELS[sessionType];
+  if (countUp) {
+    sessionLabel = 'FLOW SESSION';
+  }
+  const isActive = timerState === 'running' || timerState === 'paused';
+  const internalCount = interruptions.filter(i => i.kind === 'internal').length;
+  const externalCount = interruptions.length - internalCount;
 
   return (
     <View style={styles.container}>
       {/* Session Type Indicator */}
-      <Text style={[styles.sessionType, isBreak && styles.sessionTypeBreak]}>
-        {sessionType.toUpperCase()} SESSION
+      <Text
+        style={[
+          styles.sessionType,
+          isBreak && styles.sessionTypeBreak,
+          segment && {color: segment.color},
+        ]}
+      >
+        {timerState === 'ready' ? `UP NEXT · ${sessionLabel}` : sessionLabel}
       </Text>
 
+      {/* Cycle Counter (flowtime has no fixed cycle) */}
+      {!isFlowtime && (
+        <Text style={styles.cycleCounter}>
+          {program && segment ? `${program.name} · ` : ''}
+          {cycle.current} / {cycle.total}
+        </Text>
+      )}
+
       {/* Timer Display */}
-      <Text style={[styles.timer, isBreak && timerState === 'running' && styles.timerBreak]}>
-        {formatTime(timeRemaining)}
-      </Text>
+      {countUp ? (
+        <Stopwatch
+          elapsed={state.timeElapsed}
+          laps={state.laps}
+          earnedBreak={getEarnedBreak(state)}
+        />
+      ) : (
+        <Text style={[styles.timer, isBreak && timerState === 'running' && styles.timerBreak]}>
+          {formatTime(timeRemaining)}
+        </Text>
+      )}
+
+      {/* Active Task */}
+      {onTaskPress && (
+        <TouchableOpacity onPress={onTaskPress} accessibilityLabel="Choose task">
+          <Text style={[styles.task, !activeTask && styles.taskEmpty]} numberOfLines={1}>
+            {activeTask
+              ? `${activeTask.title} · ${activeTask.actualPomodoros} / ${activeTask.estimatedPomodoros}`
+              : 'Select a task'}
+          </Text>
+        </TouchableOpacity>
+      )}
 
       {/* Controls */}
       <View style={styles.controls}>
         <TouchableOpacity
           style={styles.button}
-          onPress={timerState === 'running' ? pauseTimer : startTimer}
+          onPress={timerState === 'running' ? pause : start}
         >
           <Text style={styles.buttonText}>
             {timerState === 'running' ? 'PAUSE' : 'START'}
           </Text>
         </TouchableOpacity>
 
-        <TouchableOpacity style={styles.button} onPress={resetTimer}>
+        {countUp && isActive && (
+          <TouchableOpacity style={styles.button} onPress={finish}>
+            <Text style={styles.buttonText}>FINISH</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.button} onPress={reset}>
           <Text style={styles.buttonText}>RESET</Text>
         </TouchableOpacity>
       </View>
+
+      {/* Session Actions */}
+      <View style={styles.secondaryControls}>
+        <TouchableOpacity
+          style={[styles.secondaryButton, timerState === 'idle' && styles.secondaryButtonDisabled]}
+          onPress={skip}
+          disabled={timerState === 'idle'}
+          accessibilityLabel="Skip to next session"
+        >
+          <Text style={styles.secondaryButtonText}>SKIP</Text>
+        </TouchableOpacity>
+        {countUp ? (
+          <TouchableOpacity
+            style={[
+              styles.secondaryButton,
+              timerState !== 'running' && styles.secondaryButtonDisabled,
+            ]}
+            onPress={lap}
+            disabled={timerState !== 'running'}
+            accessibilityLabel="Mark lap"
+          >
+            <Text style={styles.secondaryButtonText}>LAP</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.secondaryButton, !isActive && styles.secondaryButtonDisabled]}
+            onPress={() => extend(EXTEND_MINUTES)}
+            disabled={!isActive}
+            accessibilityLabel={`Add ${EXTEND_MINUTES} minutes`}
+          >
+            <Text style={styles.secondaryButtonText}>+{EXTEND_MINUTES} MIN</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.secondaryButton, !isActive && styles.secondaryButtonDisabled]}
+          onPress={() => interrupt('internal')}
+          disabled={!isActive}
+          accessibilityLabel="Log internal interruption"
+        >
+          <Text style={styles.secondaryButtonText}>INTERNAL {internalCount}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.secondaryButton, !isActive && styles.secondaryButtonDisabled]}
+          onPress={() => interrupt('external')}
+          disabled={!isActive}
+          accessibilityLabel="Log external interruption"
+        >
+          <Text style={styles.secondaryButtonText}>EXTERNAL {externalCount}</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
@@ -197,6 +199,13 @@ const styles = StyleSheet.create({
   sessionTypeBreak: {
     color: '#4CAF50',
   },
+  cycleCounter: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '500',
+    letterSpacing: 1,
+    marginTop: -14,
+  },
   timer: {
     color: '#FFFFFF',
     fontSize: 72,
@@ -207,6 +216,16 @@ const styles = StyleSheet.create({
   timerBreak: {
     color: '#4CAF50',
   },
+  task: {
+    color: '#CCCCCC',
+    fontSize: 16,
+    fontWeight: '500',
+    maxWidth: 320,
+    marginTop: -10,
+  },
+  taskEmpty: {
+    color: '#666666',
+  },
   controls: {
     flexDirection: 'row',
     gap: 15,
@@ -258,6 +277,27 @@ const styles = StyleSheet.create({
       letterSpacing: 1,
     },
   }),
+  secondaryControls: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: -8,
+  },
+  secondaryButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    borderRadius: 4,
+  },
+  secondaryButtonDisabled: {
+    opacity: 0.3,
+  },
+  secondaryButtonText: {
+    color: '#CCCCCC',
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
 });
 
 export default PomodoroTimer;
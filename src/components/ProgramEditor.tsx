@@ -0,0 +1,347 @@
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet, TextInput} from 'react-native';
+import {
+  IntervalProgram,
+  ProgramSegment,
+  SEGMENT_COLORS,
+  clampSegmentDuration,
+  copyProgram,
+  createProgram,
+  createSegment,
+  getAllPrograms,
+  getProgramDuration,
+  isPresetProgram,
+} from '../timer/intervalPrograms';
+
+interface ProgramEditorProps {
+  programs: IntervalProgram[]; // The user's own; presets are always offered
+
+  activeProgramId: string | null;
+  onChange: (programs: IntervalProgram[], activeProgramId: string | null) => void;
+}
+
+/**
+ * ProgramEditor Component
+ *
+ * Settings section for interval programs, shared by the native and web
+ * settings panels.
+ *
+ * Features:
+ * - Choose between the classic Pomodoro cycle and a named program
+ * - Create, rename and delete programs; presets are edited as a copy
+ * - Add, remove and reorder segments
+ * - Per-segment label, duration, focus/break type and color
+ */
+const ProgramEditor: React.FC<ProgramEditorProps> = ({
+  programs,
+  activeProgramId,
+  onChange,
+}) => {
+  const choices = getAllPrograms(programs);
+  const selectedProgram = choices.find(program => program.id === activeProgramId) ?? null;
+  // Only the user's own programs can be edited
+  const activeProgram =
+    selectedProgram && !isPresetProgram(selectedProgram.id) ? selectedProgram : null;
+
+  const updateProgram = (updated: IntervalProgram) => {
+    onChange(
+      programs.map(program => (program.id === updated.id ? updated : program)),
+      activeProgramId,
+    );
+  };
+
+  const updateSegment = (index: number, changes: Partial<ProgramSegment>) => {
+    if (!activeProgram) {
+      return;
+    }
+    updateProgram({
+      ...activeProgram,
+      segments: activeProgram.segments.map((segment, i) =>
+        i === index ? {...segment, ...changes} : segment,
+      ),
+    });
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    if (!activeProgram) {
+      return;
+    }
+    const target = index + offset;
+    if (target < 0 || target >= activeProgram.segments.length) {
+      return;
+    }
+    const segments = [...activeProgram.segments];
+    [segments[index], segments[target]] = [segments[target], segments[index]];
+    updateProgram({...activeProgram, segments});
+  };
+
+  const removeSegment = (index: number) => {
+    if (!activeProgram || activeProgram.segments.length <= 1) {
+      return;
+    }
+    updateProgram({
+      ...activeProgram,
+      segments: activeProgram.segments.filter((_, i) => i !== index),
+    });
+  };
+
+  const addSegment = () => {
+    if (!activeProgram) {
+      return;
+    }
+    updateProgram({
+      ...activeProgram,
+      segments: [...activeProgram.segments, createSegment(activeProgram.segments.length)],
+    });
+  };
+
+  const addProgram = () => {
+    const program = createProgram(`Program ${programs.length + 1}`);
+    onChange([...programs, program], program.id);
+  };
+
+  const customizePreset = () => {
+    if (!selectedProgram) {
+      return;
+    }
+    const program = copyProgram(selectedProgram);
+    onChange([...programs, program], program.id);
+  };
+
+  const deleteProgram = () => {
+    if (!activeProgram) {
+      return;
+    }
+    onChange(
+      programs.filter(program => program.id !== activeProgram.id),
+      null,
+    );
+  };
+
+  // Cycle through the palette on tap
+  const nextColor = (color: string): string =>
+    SEGMENT_COLORS[(SEGMENT_COLORS.indexOf(color) + 1) % SEGMENT_COLORS.length];
+
+  return (
+    <View style={styles.container}>
+      {/* Program Choice */}
+      <TouchableOpacity
+        style={[styles.option, activeProgramId === null && styles.optionActive]}
+        onPress={() => onChange(programs, null)}
+      >
+        <Text style={styles.optionText}>Classic Pomodoro</Text>
+      </TouchableOpacity>
+      {choices.map(program => (
+        <TouchableOpacity
+          key={program.id}
+          style={[styles.option, program.id === activeProgramId && styles.optionActive]}
+          onPress={() => onChange(programs, program.id)}
+        >
+          <Text style={styles.optionText}>{program.name}</Text>
+          <Text style={styles.optionDetail}>
+            {program.segments.map(segment => segment.duration).join(' → ')} ·{' '}
+            {getProgramDuration(program)} min
+          </Text>
+        </TouchableOpacity>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={addProgram}>
+        <Text style={styles.addButtonText}>+ New Program</Text>
+      </TouchableOpacity>
+
+      {selectedProgram && !activeProgram && (
+        <TouchableOpacity style={styles.addButton} onPress={customizePreset}>
+          <Text style={styles.addButtonText}>Customize a Copy</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Active Program Editor */}
+      {activeProgram && (
+        <View style={styles.editor}>
+          <Text style={styles.label}>Program Name</Text>
+          <TextInput
+            style={styles.input}
+            value={activeProgram.name}
+            onChangeText={name => updateProgram({...activeProgram, name})}
+            placeholder="Program name"
+            placeholderTextColor="#666666"
+          />
+
+          <Text style={styles.label}>Segments</Text>
+          {activeProgram.segments.map((segment, index) => (
+            <View key={segment.id} style={styles.segment}>
+              <View style={styles.segmentRow}>
+                <TouchableOpacity
+                  style={[styles.swatch, {backgroundColor: segment.color}]}
+                  onPress={() => updateSegment(index, {color: nextColor(segment.color)})}
+                  accessibilityLabel="Change segment color"
+                />
+                <TextInput
+                  style={[styles.input, styles.segmentLabel]}
+                  value={segment.label}
+                  onChangeText={label => updateSegment(index, {label})}
+                  placeholder="Label"
+                  placeholderTextColor="#666666"
+                />
+                <TextInput
+                  style={[styles.input, styles.segmentDuration]}
+                  value={segment.duration.toString()}
+                  onChangeText={text =>
+                    updateSegment(index, {
+                      duration: clampSegmentDuration(parseInt(text, 10) || 1),
+                    })
+                  }
+                  keyboardType="numeric"
+                  maxLength={3}
+                />
+              </View>
+              <View style={styles.segmentRow}>
+                <TouchableOpacity
+                  style={styles.segmentButton}
+                  onPress={() =>
+                    updateSegment(index, {type: segment.type === 'work' ? 'break' : 'work'})
+                  }
+                >
+                  <Text style={styles.segmentButtonText}>
+                    {segment.type === 'work' ? 'FOCUS' : 'BREAK'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.segmentButton}
+                  onPress={() => moveSegment(index, -1)}
+                  accessibilityLabel="Move segment up"
+                >
+                  <Text style={styles.segmentButtonText}>▲</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.segmentButton}
+                  onPress={() => moveSegment(index, 1)}
+                  accessibilityLabel="Move segment down"
+                >
+                  <Text style={styles.segmentButtonText}>▼</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.segmentButton}
+                  onPress={() => removeSegment(index)}
+                  disabled={activeProgram.segments.length <= 1}
+                  accessibilityLabel="Remove segment"
+                >
+                  <Text style={styles.segmentButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          <TouchableOpacity style={styles.addButton} onPress={addSegment}>
+            <Text style={styles.addButtonText}>+ Add Segment</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.deleteButton} onPress={deleteProgram}>
+            <Text style={styles.deleteButtonText}>Delete Program</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  option: {
+    padding: 12,
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+    gap: 4,
+  },
+  optionActive: {
+    borderColor: '#4169E1',
+  },
+  optionText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  optionDetail: {
+    color: '#888888',
+    fontSize: 12,
+  },
+  editor: {
+    gap: 8,
+    marginTop: 10,
+  },
+  label: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    color: '#FFFFFF',
+    padding: 12,
+    fontSize: 16,
+    borderRadius: 4,
+  },
+  segment: {
+    gap: 6,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  segmentLabel: {
+    flex: 1,
+  },
+  segmentDuration: {
+    width: 64,
+  },
+  segmentButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+  },
+  segmentButtonText: {
+    color: '#CCCCCC',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  addButton: {
+    borderWidth: 1,
+    borderColor: '#666666',
+    borderStyle: 'dashed',
+    padding: 12,
+    alignItems: 'center',
+    borderRadius: 4,
+  },
+  addButtonText: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    padding: 12,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: '#CD5C5C',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default ProgramEditor;
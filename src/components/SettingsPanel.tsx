@@ -14,48 +14,87 @@ import Animated, {
   withTiming,
   Easing,
 } from 'react-native-reanimated';
-
-export interface Settings {
-  workDuration: number; // in minutes
-  breakDuration: number; // in minutes
-  showOrbits: boolean;
-  starDensity: number; // 0-100
-  backgroundMusic: boolean;
-}
+import ProgramEditor from './ProgramEditor';
+import MusicLibraryEditor from './MusicLibraryEditor';
+import {requestNotificationPermission} from '../notifications/sessionNotifier';
+import {ChimeId} from '../audio/chimes';
+import {AVAILABLE_CHIMES, playChime} from '../audio/chimePlayer';
+import {MusicLibraryController} from '../audio/useMusicLibrary';
+import {DEFAULT_SETTINGS, Settings, saveSettings} from '../settings/settings';
 
 interface SettingsPanelProps {
   visible: boolean;
   onClose: () => void;
   settings: Settings;
   onSettingsChange: (settings: Settings) => void;
+  musicLibrary: MusicLibraryController; // Edited in place, outside of save/reset
 }
 
-const DEFAULT_SETTINGS: Settings = {
-  workDuration: 25,
-  breakDuration: 5,
-  showOrbits: true,
-  starDensity: 100,
-  backgroundMusic: false,
-};
+// Flowtime break ratios offered in settings
+const FLOWTIME_BREAK_RATIOS = [
+  {label: '1/3', value: 1 / 3},
+  {label: '1/4', value: 1 / 4},
+  {label: '1/5', value: 1 / 5},
+  {label: '1/6', value: 1 / 6},
+];
+
+// Pre-end warning lead times offered in settings, in minutes
+const WARNING_MINUTES = [
+  {label: 'Off', value: 0},
+  {label: '1 min', value: 1},
+  {label: '2 min', value: 2},
+  {label: '5 min', value: 5},
+];
+
+// Chime volumes offered in settings
+const CHIME_VOLUMES = [
+  {label: 'Off', value: 0},
+  {label: '25%', value: 0.25},
+  {label: '50%', value: 0.5},
+  {label: '75%', value: 0.75},
+  {label: '100%', value: 1},
+];
+
+// Chime pickers shown in settings
+const CHIME_CUES: {key: 'workEndChime' | 'breakEndChime' | 'warningChime'; label: string}[] = [
+  {key: 'workEndChime', label: 'Work Session Ends'},
+  {key: 'breakEndChime', label: 'Break Ends'},
+  {key: 'warningChime', label: 'Pre-End Warning'},
+];
 
 /**
  * SettingsPanel Component
  *
  * Features:
  * - Slide-in panel from left
- * - Customize work and break durations
+ * - Customize work, break and long break durations
+ * - Auto-start policy for breaks and work sessions
+ * - Flowtime mode with a proportional break ratio
+ * - Session-end notifications, asking for permission when turned on
+ * - Transition chimes and pre-end warning, previewed when picked
+ * - Interval program editor
  * - Visual preference controls
- * - Settings persistence via localStorage
+ * - Real planet positions for today's date
+ * - Background music that can pause along with the timer
+ * - Music library with the user's own focus and break tracks
+ * - Settings persistence via the storage helpers
  */
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   visible,
   onClose,
   settings,
   onSettingsChange,
+  musicLibrary,
 }) => {
   const [localSettings, setLocalSettings] = useState<Settings>(settings);
   const [workDurationText, setWorkDurationText] = useState(settings.workDuration.toString());
   const [breakDurationText, setBreakDurationText] = useState(settings.breakDuration.toString());
+  const [longBreakDurationText, setLongBreakDurationText] = useState(
+    settings.longBreakDuration.toString(),
+  );
+  const [sessionsBeforeLongBreakText, setSessionsBeforeLongBreakText] = useState(
+    settings.sessionsBeforeLongBreak.toString(),
+  );
   const slideAnim = useSharedValue(visible ? 0 : -400);
 
   useEffect(() => {
@@ -75,29 +114,60 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     // Parse text values before saving
     const workDuration = parseInt(workDurationText) || 1;
     const breakDuration = parseInt(breakDurationText) || 1;
+    const longBreakDuration = parseInt(longBreakDurationText, 10) || 1;
+    const sessionsBeforeLongBreak = parseInt(sessionsBeforeLongBreakText, 10) || 1;
 
     const finalSettings = {
       ...localSettings,
       workDuration: Math.max(1, Math.min(60, workDuration)),
       breakDuration: Math.max(1, Math.min(30, breakDuration)),
+      longBreakDuration: Math.max(1, Math.min(60, longBreakDuration)),
+      sessionsBeforeLongBreak: Math.max(1, Math.min(12, sessionsBeforeLongBreak)),
     };
 
     onSettingsChange(finalSettings);
-    // Persist to localStorage (web only)
-    if (typeof localStorage !== 'undefined') {
-      localStorage.setItem('motivationWatchSettings', JSON.stringify(finalSettings));
-    }
+    saveSettings(finalSettings);
     onClose();
   };
 
+  // Turning notifications on asks for permission; a refusal turns them back off
+  const handleToggleNotifications = () => {
+    const notifications = !localSettings.notifications;
+    setLocalSettings({...localSettings, notifications});
+    if (notifications) {
+      requestNotificationPermission()
+        .then(granted => {
+          if (!granted) {
+            setLocalSettings(prev => ({...prev, notifications: false}));
+          }
+        })
+        .catch(err => {
+          console.error('Failed to request notification permission:', err);
+          setLocalSettings(prev => ({...prev, notifications: false}));
+        });
+    }
+  };
+
+  // Picking a chime plays it, so it can be heard before saving
+  const handleSelectChime = (key: 'workEndChime' | 'breakEndChime' | 'warningChime', id: ChimeId) => {
+    setLocalSettings({...localSettings, [key]: id});
+    playChime(id, localSettings.chimeVolume > 0 ? localSettings.chimeVolume : 1);
+  };
+
   const handleReset = () => {
     setLocalSettings(DEFAULT_SETTINGS);
     setWorkDurationText(DEFAULT_SETTINGS.workDuration.toString());
     setBreakDurationText(DEFAULT_SETTINGS.breakDuration.toString());
+    setLongBreakDurationText(DEFAULT_SETTINGS.longBreakDuration.toString());
+    setSessionsBeforeLongBreakText(DEFAULT_SETTINGS.sessionsBeforeLongBreak.toString());
   };
 
   // Check if save button should be disabled
-  const isSaveDisabled = workDurationText.trim() === '' || breakDurationText.trim() === '';
+  const isSaveDisabled =
+    workDurationText.trim() === '' ||
+    breakDurationText.trim() === '' ||
+    longBreakDurationText.trim() === '' ||
+    sessionsBeforeLongBreakText.trim() === '';
 
   return (
     <Modal
@@ -149,6 +219,177 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   placeholder="1-30"
                 />
               </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Long Break Duration (minutes)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={longBreakDurationText}
+                  onChangeText={setLongBreakDurationText}
+                  keyboardType="numeric"
+                  maxLength={2}
+                  placeholder="1-60"
+                />
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Work Sessions Before Long Break</Text>
+                <TextInput
+                  style={styles.input}
+                  value={sessionsBeforeLongBreakText}
+                  onChangeText={setSessionsBeforeLongBreakText}
+                  keyboardType="numeric"
+                  maxLength={2}
+                  placeholder="1-12"
+                />
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Auto-start Breaks</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, autoStartBreaks: !localSettings.autoStartBreaks})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.autoStartBreaks && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.autoStartBreaks && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Auto-start Work Sessions</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, autoStartWork: !localSettings.autoStartWork})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.autoStartWork && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.autoStartWork && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.setting}>
+                <Text style={styles.label}>Session-End Notifications</Text>
+                <TouchableOpacity style={styles.toggle} onPress={handleToggleNotifications}>
+                  <View style={[styles.toggleTrack, localSettings.notifications && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.notifications && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Flowtime */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Flowtime</Text>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Count Up Work Sessions</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, flowtime: !localSettings.flowtime})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.flowtime && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.flowtime && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Break Length (fraction of time worked)</Text>
+                <View style={styles.options}>
+                  {FLOWTIME_BREAK_RATIOS.map(ratio => (
+                    <TouchableOpacity
+                      key={ratio.label}
+                      style={[
+                        styles.option,
+                        Math.abs(localSettings.flowtimeBreakRatio - ratio.value) < 0.001 &&
+                          styles.optionActive,
+                      ]}
+                      onPress={() =>
+                        setLocalSettings({...localSettings, flowtimeBreakRatio: ratio.value})
+                      }
+                    >
+                      <Text style={styles.optionText}>{ratio.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            </View>
+
+            {/* Sounds */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Sounds</Text>
+
+              {CHIME_CUES.map(cue => (
+                <View key={cue.key} style={styles.setting}>
+                  <Text style={styles.label}>{cue.label}</Text>
+                  <View style={[styles.options, styles.optionsWrap]}>
+                    {AVAILABLE_CHIMES.map(chime => (
+                      <TouchableOpacity
+                        key={chime.id}
+                        style={[
+                          styles.chip,
+                          localSettings[cue.key] === chime.id && styles.optionActive,
+                        ]}
+                        onPress={() => handleSelectChime(cue.key, chime.id)}
+                      >
+                        <Text style={styles.optionText}>{chime.label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              ))}
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Warn Before Session Ends</Text>
+                <View style={styles.options}>
+                  {WARNING_MINUTES.map(option => (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[
+                        styles.option,
+                        localSettings.warningMinutes === option.value && styles.optionActive,
+                      ]}
+                      onPress={() =>
+                        setLocalSettings({...localSettings, warningMinutes: option.value})
+                      }
+                    >
+                      <Text style={styles.optionText}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Chime Volume</Text>
+                <View style={styles.options}>
+                  {CHIME_VOLUMES.map(option => (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[
+                        styles.option,
+                        localSettings.chimeVolume === option.value && styles.optionActive,
+                      ]}
+                      onPress={() =>
+                        setLocalSettings({...localSettings, chimeVolume: option.value})
+                      }
+                    >
+                      <Text style={styles.optionText}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            </View>
+
+            {/* Interval Programs */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Programs</Text>
+              <ProgramEditor
+                programs={localSettings.programs}
+                activeProgramId={localSettings.activeProgramId}
+                onChange={(programs, activeProgramId) =>
+                  setLocalSettings({...localSettings, programs, activeProgramId})
+                }
+              />
             </View>
 
             {/* Visual & Audio Settings */}
@@ -167,6 +408,54 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 </TouchableOpacity>
               </View>
 
+              <View style={styles.setting}>
+                <Text style={styles.label}>Real Planet Positions</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, ephemeris: !localSettings.ephemeris})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.ephemeris && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.ephemeris && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Asteroid Belt</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, asteroidBelt: !localSettings.asteroidBelt})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.asteroidBelt && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.asteroidBelt && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Kuiper Belt</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, kuiperBelt: !localSettings.kuiperBelt})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.kuiperBelt && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.kuiperBelt && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Comets</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, comets: !localSettings.comets})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.comets && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.comets && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+
               <View style={styles.setting}>
                 <Text style={styles.label}>Background Music</Text>
                 <TouchableOpacity
@@ -178,6 +467,24 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   </View>
                 </TouchableOpacity>
               </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Pause Music With Timer</Text>
+                <TouchableOpacity
+                  style={styles.toggle}
+                  onPress={() => setLocalSettings({...localSettings, pauseMusicWhenIdle: !localSettings.pauseMusicWhenIdle})}
+                >
+                  <View style={[styles.toggleTrack, localSettings.pauseMusicWhenIdle && styles.toggleTrackActive]}>
+                    <View style={[styles.toggleThumb, localSettings.pauseMusicWhenIdle && styles.toggleThumbActive]} />
+                  </View>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Music Library */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Music Library</Text>
+              <MusicLibraryEditor musicLibrary={musicLibrary} />
             </View>
 
             {/* Action Buttons */}
@@ -292,6 +599,39 @@ const styles = StyleSheet.create({
   toggleThumbActive: {
     alignSelf: 'flex-end',
   },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+  },
+  optionsWrap: {
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+  },
+  optionActive: {
+    borderColor: '#4169E1',
+  },
+  optionText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   actions: {
     gap: 15,
     marginTop: 20,
@@ -326,4 +666,3 @@ const styles = StyleSheet.create({
 });
 
 export default SettingsPanel;
-export {DEFAULT_SETTINGS};
@@ -0,0 +1,134 @@
+import React, {useEffect, useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {SimulationController} from '../astronomy/useSimulationClock';
+import {
+  DAY_WARP,
+  getSimulationRate,
+  getSimulationTime,
+  getTimeWarps,
+} from '../astronomy/simulationClock';
+import {formatTime} from '../timer/pomodoroEngine';
+import Slider from './Slider';
+
+interface SimulationControlsProps {
+  controller: SimulationController;
+}
+
+// How often the scrub slider follows a running clock, in milliseconds
+const REFRESH_INTERVAL = 250;
+
+// Time since the simulation started, as T+MM:SS
+const formatElapsed = (ms: number): string =>
+  `T${ms < 0 ? '−' : '+'}${formatTime(Math.round(Math.abs(ms) / 1000))}`;
+
+// Warps of a day or more read as days per second
+const formatWarp = (warp: number): string =>
+  warp >= DAY_WARP ? `${warp / DAY_WARP} d/s` : `${warp}×`;
+
+const getWarpLabel = (warp: number): string => {
+  if (warp === 0) {
+    return 'Pause time';
+  }
+  if (warp >= DAY_WARP) {
+    const days = warp / DAY_WARP;
+    return `Time warp ${days} day${days === 1 ? '' : 's'} per second`;
+  }
+  return `Time warp ${warp} times`;
+};
+
+/**
+ * SimulationControls Component
+ *
+ * Time controls for the solar system, shared by the native and web
+ * screens.
+ *
+ * Features:
+ * - Pause (0×) and time warps of 1×, 10× and 100×; with real dates,
+ *   1×, then 1, 10 and 100 days per second
+ * - Reverse
+ * - Scrub slider around the point the simulation started from
+ * - Elapsed simulation time for the stylized orbits
+ */
+const SimulationControls: React.FC<SimulationControlsProps> = ({controller}) => {
+  const {simulation, origin, span} = controller;
+  const [now, setNow] = useState(Date.now);
+  const running = getSimulationRate(simulation) !== 0;
+
+  // Keep the slider moving with the clock
+  useEffect(() => {
+    setNow(Date.now());
+    if (!running) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [simulation, running]);
+
+  const time = getSimulationTime(simulation, now);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.chip, simulation.reversed && styles.chipActive]}
+          onPress={controller.toggleReverse}
+          accessibilityLabel={simulation.reversed ? 'Run time forwards' : 'Run time backwards'}
+        >
+          <Text style={styles.chipText}>⇆</Text>
+        </TouchableOpacity>
+        {getTimeWarps(controller.realTime).map(warp => (
+          <TouchableOpacity
+            key={warp}
+            style={[styles.chip, simulation.warp === warp && styles.chipActive]}
+            onPress={() => controller.setWarp(warp)}
+            accessibilityLabel={getWarpLabel(warp)}
+          >
+            <Text style={styles.chipText}>{formatWarp(warp)}</Text>
+          </TouchableOpacity>
+        ))}
+        {!controller.realTime && <Text style={styles.elapsed}>{formatElapsed(time - origin)}</Text>}
+      </View>
+      <Slider
+        value={(time - origin + span) / (2 * span)}
+        onChange={value => controller.scrubTo(origin + (value * 2 - 1) * span)}
+        accessibilityLabel="Scrub time"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: 260,
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+    borderRadius: 4,
+  },
+  chipActive: {
+    borderColor: '#4169E1',
+  },
+  chipText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  elapsed: {
+    color: '#888888',
+    fontSize: 12,
+    marginLeft: 4,
+  },
+});
+
+export default SimulationControls;
@@ -0,0 +1,94 @@
+import React, {useState} from 'react';
+import {View, StyleSheet, GestureResponderEvent, LayoutChangeEvent} from 'react-native';
+
+interface SliderProps {
+  value: number; // 0 to 1
+  onChange: (value: number) => void; // While dragging
+  onComplete?: (value: number) => void; // When released
+  disabled?: boolean;
+  accessibilityLabel?: string;
+}
+
+const THUMB_SIZE = 14;
+
+/**
+ * Slider Component
+ *
+ * Minimal horizontal slider built from views, so it works the same on
+ * native and web without a slider dependency.
+ *
+ * Features:
+ * - Tap or drag anywhere on the track
+ * - Fill and thumb follow the value
+ * - Accessible as an adjustable control
+ */
+const Slider: React.FC<SliderProps> = ({
+  value,
+  onChange,
+  onComplete,
+  disabled = false,
+  accessibilityLabel,
+}) => {
+  const [width, setWidth] = useState(0);
+  const clamped = Math.max(0, Math.min(1, value));
+
+  const handleLayout = (e: LayoutChangeEvent) => {
+    setWidth(e.nativeEvent.layout.width);
+  };
+
+  const valueAt = (e: GestureResponderEvent): number =>
+    width > 0 ? Math.max(0, Math.min(1, e.nativeEvent.locationX / width)) : clamped;
+
+  return (
+    <View
+      style={[styles.container, disabled && styles.disabled]}
+      onLayout={handleLayout}
+      onStartShouldSetResponder={() => !disabled}
+      onMoveShouldSetResponder={() => !disabled}
+      onResponderGrant={e => onChange(valueAt(e))}
+      onResponderMove={e => onChange(valueAt(e))}
+      onResponderRelease={e => onComplete?.(valueAt(e))}
+      accessibilityRole="adjustable"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityValue={{min: 0, max: 100, now: Math.round(clamped * 100)}}
+    >
+      {/* Children ignore touches so locationX is relative to the track */}
+      <View style={styles.track} pointerEvents="none">
+        <View style={[styles.fill, {width: `${clamped * 100}%`}]} />
+      </View>
+      <View
+        style={[styles.thumb, {left: Math.max(0, clamped * width - THUMB_SIZE / 2)}]}
+        pointerEvents="none"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    height: 28,
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+    backgroundColor: '#4169E1',
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: '#FFFFFF',
+  },
+});
+
+export default Slider;
@@ -0,0 +1,100 @@
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import {formatStopwatch, formatTime} from '../timer/pomodoroEngine';
+
+// Only the most recent laps are listed, newest first
+const MAX_VISIBLE_LAPS = 5;
+
+interface StopwatchProps {
+  elapsed: number; // in seconds
+  laps: number[]; // Elapsed seconds at each lap, oldest first
+  earnedBreak: number; // in seconds
+}
+
+/**
+ * Stopwatch Component
+ *
+ * Count-up display for flowtime sessions, shown by PomodoroTimer in place
+ * of the countdown.
+ *
+ * Features:
+ * - Chronograph display with centiseconds
+ * - Break earned so far
+ * - Lap list with split and total times
+ */
+const Stopwatch: React.FC<StopwatchProps> = ({elapsed, laps, earnedBreak}) => {
+  const recentLaps = laps
+    .map((total, index) => ({
+      number: index + 1,
+      split: total - (index > 0 ? laps[index - 1] : 0),
+      total,
+    }))
+    .slice(-MAX_VISIBLE_LAPS)
+    .reverse();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.time}>{formatStopwatch(elapsed)}</Text>
+      <Text style={styles.earned}>BREAK EARNED {formatTime(earnedBreak)}</Text>
+
+      {recentLaps.length > 0 && (
+        <View style={styles.laps}>
+          {recentLaps.map(lap => (
+            <View key={lap.number} style={styles.lap}>
+              <Text style={styles.lapLabel}>LAP {lap.number}</Text>
+              <Text style={styles.lapTime}>{formatStopwatch(lap.split)}</Text>
+              <Text style={styles.lapTotal}>{formatStopwatch(lap.total)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  time: {
+    color: '#FFFFFF',
+    fontSize: 64,
+    fontWeight: '300',
+    fontFamily: 'monospace',
+    letterSpacing: 2,
+  },
+  earned: {
+    color: '#4CAF50',
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  laps: {
+    marginTop: 6,
+    gap: 2,
+  },
+  lap: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 14,
+  },
+  lapLabel: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  lapTime: {
+    color: '#CCCCCC',
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  lapTotal: {
+    color: '#888888',
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+});
+
+export default Stopwatch;
@@ -0,0 +1,254 @@
+import React, {useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Modal} from 'react-native';
+import {TasksController} from '../tasks/useTasks';
+
+interface TaskPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  tasks: TasksController;
+}
+
+/**
+ * TaskPanel Component
+ *
+ * Features:
+ * - Add tasks with an estimated number of pomodoros
+ * - Pick the active task credited with completed work sessions
+ * - Estimated vs actual pomodoros per task
+ * - Mark tasks done or remove them
+ */
+const TaskPanel: React.FC<TaskPanelProps> = ({visible, onClose, tasks}) => {
+  const [titleText, setTitleText] = useState('');
+  const [estimateText, setEstimateText] = useState('1');
+
+  const handleAdd = () => {
+    const estimate = parseInt(estimateText, 10) || 1;
+    tasks.addTask(titleText, Math.max(1, Math.min(20, estimate)));
+    setTitleText('');
+    setEstimateText('1');
+  };
+
+  const isAddDisabled = titleText.trim() === '';
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.panel}>
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title}>Tasks</Text>
+              <TouchableOpacity onPress={onClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Task List */}
+            <View style={styles.section}>
+              {tasks.tasks.length === 0 && (
+                <Text style={styles.emptyText}>No tasks yet. Add one below.</Text>
+              )}
+              {tasks.tasks.map(task => {
+                const isActive = tasks.activeTask?.id === task.id;
+                const totals = tasks.totals[task.id];
+                return (
+                  <View key={task.id} style={[styles.task, isActive && styles.taskActive]}>
+                    <TouchableOpacity
+                      style={styles.taskBody}
+                      onPress={() => tasks.selectTask(isActive ? null : task.id)}
+                      disabled={task.done}
+                      accessibilityLabel={`Select task ${task.title}`}
+                    >
+                      <Text style={[styles.taskTitle, task.done && styles.taskTitleDone]}>
+                        {task.title}
+                      </Text>
+                      <Text style={styles.taskCount}>
+                        {totals ? totals.actualPomodoros : 0} / {task.estimatedPomodoros} pomodoros
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.taskAction}
+                      onPress={() => tasks.toggleTaskDone(task.id)}
+                      accessibilityLabel={task.done ? 'Mark task not done' : 'Mark task done'}
+                    >
+                      <Text style={styles.taskActionText}>{task.done ? '↺' : '✓'}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.taskAction}
+                      onPress={() => tasks.removeTask(task.id)}
+                      accessibilityLabel="Remove task"
+                    >
+                      <Text style={styles.taskActionText}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+
+            {/* Add Task */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>New Task</Text>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Title</Text>
+                <TextInput
+                  style={styles.input}
+                  value={titleText}
+                  onChangeText={setTitleText}
+                  placeholder="What are you working on?"
+                  placeholderTextColor="#666666"
+                />
+              </View>
+
+              <View style={styles.setting}>
+                <Text style={styles.label}>Estimated Pomodoros</Text>
+                <TextInput
+                  style={styles.input}
+                  value={estimateText}
+                  onChangeText={setEstimateText}
+                  keyboardType="numeric"
+                  maxLength={2}
+                  placeholder="1-20"
+                />
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, isAddDisabled && styles.disabledButton]}
+                onPress={handleAdd}
+                disabled={isAddDisabled}
+              >
+                <Text style={styles.primaryButtonText}>Add Task</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  panel: {
+    position: 'absolute',
+    right: 0,
+    top: 0,
+    bottom: 0,
+    width: 400,
+    maxWidth: '90%',
+    backgroundColor: '#1a1a1a',
+  },
+  content: {
+    padding: 30,
+    gap: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  closeButton: {
+    color: '#FFFFFF',
+    fontSize: 32,
+    fontWeight: '300',
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  emptyText: {
+    color: '#888888',
+    fontSize: 14,
+  },
+  task: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+  },
+  taskActive: {
+    borderColor: '#4169E1',
+  },
+  taskBody: {
+    flex: 1,
+    padding: 12,
+    gap: 4,
+  },
+  taskTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  taskTitleDone: {
+    color: '#666666',
+    textDecorationLine: 'line-through',
+  },
+  taskCount: {
+    color: '#888888',
+    fontSize: 12,
+  },
+  taskAction: {
+    padding: 12,
+  },
+  taskActionText: {
+    color: '#CCCCCC',
+    fontSize: 18,
+  },
+  setting: {
+    gap: 8,
+  },
+  label: {
+    color: '#CCCCCC',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderWidth: 1,
+    borderColor: '#444444',
+    color: '#FFFFFF',
+    padding: 12,
+    fontSize: 16,
+    borderRadius: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#4169E1',
+    padding: 16,
+    alignItems: 'center',
+    borderRadius: 4,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  disabledButton: {
+    backgroundColor: '#666666',
+    opacity: 0.5,
+  },
+});
+
+export default TaskPanel;
@@ -0,0 +1,91 @@
+import {loadItem, saveItem} from '../utils/storage';
+import {SessionOutcome, SessionRecord, SessionType} from '../timer/pomodoroEngine';
+
+const JOURNAL_STORAGE_KEY = 'motivationWatchJournal';
+
+export interface JournalEntry extends SessionRecord {
+  id: string;
+  taskId?: string; // Task the work session was credited to
+}
+
+export interface JournalQuery {
+  from?: number; // Timestamp (ms), inclusive, matched against startedAt
+  to?: number; // Timestamp (ms), exclusive, matched against startedAt
+  sessionType?: SessionType;
+  outcome?: SessionOutcome;
+  taskId?: string;
+}
+
+/**
+ * Session Journal
+ *
+ * Persisted history of every work and break session, written whenever a
+ * session ends. Stored through the storage helpers, so it lives in
+ * localStorage on web and in device storage on native. Screens read it
+ * through the query helpers below.
+ */
+export const loadJournal = (): JournalEntry[] =>
+  (loadItem<JournalEntry[]>(JOURNAL_STORAGE_KEY) ?? []).map(entry => ({
+    ...entry,
+    // Entries journaled before extensions and interruptions were tracked
+    extendedBy: entry.extendedBy ?? 0,
+    interruptions: entry.interruptions ?? [],
+  }));
+
+/**
+ * Append an ended session to the journal and persist it. Work sessions
+ * can be credited to a task.
+ */
+export const recordSession = (record: SessionRecord, taskId?: string): JournalEntry[] => {
+  const entry: JournalEntry = {
+    ...record,
+    id: `${record.startedAt}-${record.sessionType}`,
+  };
+  if (taskId && record.sessionType === 'work') {
+    entry.taskId = taskId;
+  }
+  const journal = [...loadJournal(), entry];
+  saveItem(JOURNAL_STORAGE_KEY, journal);
+  return journal;
+};
+
+export const querySessions = (
+  entries: JournalEntry[],
+  {from, to, sessionType, outcome, taskId}: JournalQuery = {},
+): JournalEntry[] =>
+  entries.filter(
+    entry =>
+      (from === undefined || entry.startedAt >= from) &&
+      (to === undefined || entry.startedAt < to) &&
+      (sessionType === undefined || entry.sessionType === sessionType) &&
+      (outcome === undefined || entry.outcome === outcome) &&
+      (taskId === undefined || entry.taskId === taskId),
+  );
+
+/**
+ * A clean session ran to the end as planned: not extended, not interrupted
+ */
+export const isCleanSession = (entry: JournalEntry): boolean =>
+  entry.outcome === 'completed' && entry.extendedBy === 0 && entry.interruptions.length === 0;
+
+// Total time actually spent in the given sessions, in seconds
+export const getTotalDuration = (entries: JournalEntry[]): number =>
+  entries.reduce((total, entry) => total + entry.actualDuration, 0);
+
+// Local calendar day of a timestamp as YYYY-MM-DD
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Group entries by the local day they started on
+ */
+export const groupByDay = (entries: JournalEntry[]): Record<string, JournalEntry[]> =>
+  entries.reduce<Record<string, JournalEntry[]>>((groups, entry) => {
+    const key = getDayKey(entry.startedAt);
+    (groups[key] = groups[key] || []).push(entry);
+    return groups;
+  }, {});
@@ -0,0 +1,184 @@
+import {JournalEntry, getDayKey, isCleanSession, querySessions} from './sessionJournal';
+
+export interface DayTotal {
+  day: string; // YYYY-MM-DD
+  minutes: number;
+}
+
+export interface InterruptionCounts {
+  internal: number;
+  external: number;
+}
+
+export interface Streaks {
+  current: number; // in days
+  best: number; // in days
+}
+
+/**
+ * Statistics
+ *
+ * Pure aggregations over the session journal for the stats screen.
+ * Focus time counts every work session by the time actually spent,
+ * completed pomodoros only count work sessions that ran to the end.
+ */
+
+// Local midnight of the day containing the timestamp
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Local midnight of the Monday starting the week containing the timestamp
+export const startOfWeek = (timestamp: number): number => {
+  const date = new Date(startOfDay(timestamp));
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+};
+
+// Shift a local midnight by whole days, staying on midnight across DST changes
+const addDays = (timestamp: number, days: number): number => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+const getFocusMinutesByDay = (entries: JournalEntry[]): Record<string, number> =>
+  querySessions(entries, {sessionType: 'work'}).reduce<Record<string, number>>(
+    (totals, entry) => {
+      const key = getDayKey(entry.startedAt);
+      totals[key] = (totals[key] || 0) + entry.actualDuration / 60;
+      return totals;
+    },
+    {},
+  );
+
+/**
+ * Focus minutes for each of the last `days` days, oldest first
+ */
+export const getDailyFocus = (
+  entries: JournalEntry[],
+  days: number,
+  now: number,
+): DayTotal[] => {
+  const byDay = getFocusMinutesByDay(entries);
+  const today = startOfDay(now);
+  const totals: DayTotal[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = getDayKey(addDays(today, -i));
+    totals.push({day, minutes: Math.round(byDay[day] || 0)});
+  }
+  return totals;
+};
+
+/**
+ * Focus minutes for each of the last `weeks` weeks (Monday to Sunday),
+ * oldest first. `day` is the Monday starting the week.
+ */
+export const getWeeklyFocus = (
+  entries: JournalEntry[],
+  weeks: number,
+  now: number,
+): DayTotal[] => {
+  const work = querySessions(entries, {sessionType: 'work'});
+  const thisWeek = startOfWeek(now);
+  const totals: DayTotal[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const from = addDays(thisWeek, -7 * i);
+    const to = addDays(from, 7);
+    const seconds = querySessions(work, {from, to}).reduce(
+      (total, entry) => total + entry.actualDuration,
+      0,
+    );
+    totals.push({day: getDayKey(from), minutes: Math.round(seconds / 60)});
+  }
+  return totals;
+};
+
+export const getCompletedPomodoros = (entries: JournalEntry[]): number =>
+  querySessions(entries, {sessionType: 'work', outcome: 'completed'}).length;
+
+// Completed pomodoros that were neither extended nor interrupted
+export const getCleanPomodoros = (entries: JournalEntry[]): number =>
+  querySessions(entries, {sessionType: 'work'}).filter(isCleanSession).length;
+
+export const getInterruptionCounts = (entries: JournalEntry[]): InterruptionCounts =>
+  querySessions(entries, {sessionType: 'work'}).reduce<InterruptionCounts>(
+    (counts, entry) => {
+      entry.interruptions.forEach(interruption => {
+        counts[interruption.kind] += 1;
+      });
+      return counts;
+    },
+    {internal: 0, external: 0},
+  );
+
+/**
+ * Consecutive days with at least one completed pomodoro. The current
+ * streak is still alive if today has none yet but yesterday did.
+ */
+export const getStreaks = (entries: JournalEntry[], now: number): Streaks => {
+  const days = new Set(
+    querySessions(entries, {sessionType: 'work', outcome: 'completed'}).map(entry =>
+      startOfDay(entry.startedAt),
+    ),
+  );
+
+  let best = 0;
+  days.forEach(day => {
+    // Only count from the first day of each run
+    if (days.has(startOfDay(addDays(day, -1)))) {
+      return;
+    }
+    let length = 1;
+    let next = addDays(day, 1);
+    while (days.has(next)) {
+      length += 1;
+      next = addDays(next, 1);
+    }
+    best = Math.max(best, length);
+  });
+
+  let current = 0;
+  let day = startOfDay(now);
+  if (!days.has(day)) {
+    day = addDays(day, -1);
+  }
+  while (days.has(day)) {
+    current += 1;
+    day = addDays(day, -1);
+  }
+
+  return {current, best};
+};
+
+/**
+ * Calendar heatmap of focus minutes: one column per week (Monday first),
+ * covering the last `weeks` weeks up to the current one. Days after
+ * today are null.
+ */
+export const getHeatmap = (
+  entries: JournalEntry[],
+  weeks: number,
+  now: number,
+): (DayTotal | null)[][] => {
+  const byDay = getFocusMinutesByDay(entries);
+  const firstWeek = addDays(startOfWeek(now), -7 * (weeks - 1));
+  const columns: (DayTotal | null)[][] = [];
+  for (let w = 0; w < weeks; w++) {
+    const column: (DayTotal | null)[] = [];
+    for (let d = 0; d < 7; d++) {
+      const date = addDays(firstWeek, w * 7 + d);
+      if (date > now) {
+        column.push(null);
+      } else {
+        const day = getDayKey(date);
+        column.push({day, minutes: Math.round(byDay[day] || 0)});
+      }
+    }
+    columns.push(column);
+  }
+  return columns;
+};
@@ -0,0 +1,77 @@
+import {
+  PomodoroState,
+  SessionType,
+  getCurrentSegment,
+  pomodoroReducer,
+} from '../timer/pomodoroEngine';
+
+export interface SessionNotification {
+  title: string;
+  body: string;
+}
+
+export interface ScheduledSessionNotification extends SessionNotification {
+  timestamp: number; // When the session ends, in ms since the epoch
+}
+
+const END_TITLES: Record<SessionType, string> = {
+  work: 'Work session complete',
+  break: 'Break is over',
+  longBreak: 'Long break is over',
+};
+
+// Type of the session that follows the current one
+const getNextSessionType = (state: PomodoroState): SessionType => {
+  const {program} = state.config;
+  if (program && program.segments.length > 0) {
+    return program.segments[(state.segmentIndex + 1) % program.segments.length].type;
+  }
+  if (state.sessionType !== 'work') {
+    return 'work';
+  }
+  return state.cycleCount + 1 >= state.config.sessionsBeforeLongBreak ? 'longBreak' : 'break';
+};
+
+/**
+ * Session Notifications
+ *
+ * Content of the notification shown when the running session ends, or
+ * null when there is no scheduled end (not running, or counting up).
+ * Platform notifiers schedule it for `state.endsAt`.
+ */
+export const getSessionEndNotification = (state: PomodoroState): SessionNotification | null => {
+  if (state.timerState !== 'running' || state.endsAt === null) {
+    return null;
+  }
+  const segment = getCurrentSegment(state);
+  const nextType = getNextSessionType(state);
+  const autoStart = nextType === 'work' ? state.config.autoStartWork : state.config.autoStartBreaks;
+  const next = nextType === 'work' ? 'Time to focus.' : 'Time for a break.';
+  return {
+    title: segment ? `${segment.label} complete` : END_TITLES[state.sessionType],
+    body: autoStart ? next : `${next} Start the next session when you are ready.`,
+  };
+};
+
+/**
+ * Notifications for the next `count` session ends, starting with the
+ * running session. Sessions that auto-start are followed through the
+ * engine, so a notifier can schedule them all up front; the chain stops
+ * at a session that waits to be started or counts up.
+ */
+export const getUpcomingNotifications = (
+  state: PomodoroState,
+  count: number,
+): ScheduledSessionNotification[] => {
+  const upcoming: ScheduledSessionNotification[] = [];
+  let session = state;
+  while (upcoming.length < count) {
+    const notification = getSessionEndNotification(session);
+    if (!notification || session.endsAt === null) {
+      break;
+    }
+    upcoming.push({...notification, timestamp: session.endsAt});
+    session = pomodoroReducer(session, {type: 'tick', now: session.endsAt});
+  }
+  return upcoming;
+};
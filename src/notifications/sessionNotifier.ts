@@ -0,0 +1,77 @@
+import {useEffect, useRef} from 'react';
+import notifee, {AuthorizationStatus, TriggerType} from '@notifee/react-native';
+import {PomodoroState} from '../timer/pomodoroEngine';
+import {ScheduledSessionNotification, getUpcomingNotifications} from './sessionNotifications';
+
+// Session ends scheduled ahead, for auto-started sessions while suspended
+const UPCOMING_SESSIONS = 4;
+// Pending notifications, all replaced whenever the schedule changes
+const NOTIFICATION_IDS = Array.from({length: UPCOMING_SESSIONS}, (_, index) => `session-end-${index}`);
+const CHANNEL_ID = 'session-end';
+
+/**
+ * Ask for permission to show notifications. Resolves to whether
+ * notifications can be shown.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  const settings = await notifee.requestPermission();
+  return settings.authorizationStatus >= AuthorizationStatus.AUTHORIZED;
+};
+
+// Schedule changes, applied one after another so a cancel never runs
+// between the creates of an earlier schedule
+let pendingUpdate: Promise<void> = Promise.resolve();
+
+// Replace the pending notifications with the ones still in the future
+const replaceNotifications = async (notifications: ScheduledSessionNotification[]) => {
+  await notifee.cancelTriggerNotifications(NOTIFICATION_IDS);
+  const pending = notifications.filter(({timestamp}) => timestamp > Date.now());
+  if (pending.length === 0) {
+    return;
+  }
+  const channelId = await notifee.createChannel({id: CHANNEL_ID, name: 'Session end'});
+  await Promise.all(
+    pending.map(({title, body, timestamp}, index) =>
+      notifee.createTriggerNotification(
+        {id: NOTIFICATION_IDS[index], title, body, android: {channelId}},
+        {type: TriggerType.TIMESTAMP, timestamp},
+      ),
+    ),
+  );
+};
+
+/**
+ * useSessionNotifications Hook (native)
+ *
+ * Schedules local notifications at the running session's end timestamp
+ * and at the ends of the sessions that auto-start after it, so they fire
+ * even while the app is suspended. Pausing, skipping, extending,
+ * resetting or changing settings reschedules or cancels them; ticks do
+ * not.
+ */
+export const useSessionNotifications = (state: PomodoroState, enabled: boolean): void => {
+  // Read the latest state when the session boundaries change
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const {timerState, endsAt, sessionType, segmentIndex, cycleCount, config} = state;
+
+  useEffect(() => {
+    const notifications = enabled
+      ? getUpcomingNotifications(stateRef.current, UPCOMING_SESSIONS)
+      : [];
+    let replaced = false;
+    pendingUpdate = pendingUpdate
+      .then(() => {
+        // A newer schedule is queued behind this one
+        if (!replaced) {
+          return replaceNotifications(notifications);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to schedule notifications:', err);
+      });
+    return () => {
+      replaced = true;
+    };
+  }, [enabled, timerState, endsAt, sessionType, segmentIndex, cycleCount, config]);
+};
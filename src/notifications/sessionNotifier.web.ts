@@ -0,0 +1,51 @@
+import {useEffect} from 'react';
+import {PomodoroState} from '../timer/pomodoroEngine';
+import {getSessionEndNotification} from './sessionNotifications';
+
+/**
+ * Ask for permission to show notifications. Resolves to whether
+ * notifications can be shown.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (typeof Notification === 'undefined') {
+    return false;
+  }
+  if (Notification.permission === 'granted') {
+    return true;
+  }
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+/**
+ * useSessionNotifications Hook (web)
+ *
+ * Shows a Notification API notification when the running session ends,
+ * so it is noticed while the tab is in the background.
+ */
+export const useSessionNotifications = (state: PomodoroState, enabled: boolean): void => {
+  const notification = enabled ? getSessionEndNotification(state) : null;
+  const {endsAt} = state;
+  const title = notification?.title ?? null;
+  const body = notification?.body ?? null;
+
+  useEffect(() => {
+    if (
+      title === null ||
+      body === null ||
+      endsAt === null ||
+      typeof Notification === 'undefined' ||
+      Notification.permission !== 'granted'
+    ) {
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      const shown = new Notification(title, {body, tag: 'session-end'});
+      // Bring the timer tab back to the front
+      shown.onclick = () => {
+        window.focus();
+        shown.close();
+      };
+    }, Math.max(0, endsAt - Date.now()));
+    return () => clearTimeout(timeoutId);
+  }, [endsAt, title, body]);
+};
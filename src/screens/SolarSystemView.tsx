@@ -1,4 +1,4 @@
-import React, {useMemo, useState, useEffect} from 'react';
+import React, {useMemo, useState} from 'react';
 import {
   View,
   StyleSheet,
@@ -13,25 +13,38 @@ import Animated, {
   useSharedValue,
   useAnimatedStyle,
   withSpring,
+  runOnJS,
 } from 'react-native-reanimated';
 import Planet from '../components/Planet';
 import OrbitPath from '../components/OrbitPath';
+import AsteroidBelt from '../components/AsteroidBelt';
+import Comet from '../components/Comet';
 import PomodoroTimer from '../components/PomodoroTimer';
-import SettingsPanel, {Settings, DEFAULT_SETTINGS} from '../components/SettingsPanel';
+import {usePomodoroEngine} from '../timer/usePomodoroEngine';
+import {PomodoroProvider} from '../timer/PomodoroContext';
+import {storedTimerPersistence} from '../timer/timerPersistence';
+import {useTasks} from '../tasks/useTasks';
+import SettingsPanel from '../components/SettingsPanel';
+import {Settings, loadSettings} from '../settings/settings';
+import {getAllPrograms} from '../timer/intervalPrograms';
 import BackgroundMusic from '../components/BackgroundMusic';
+import StatsView from './StatsView';
+import TaskPanel from '../components/TaskPanel';
+import CalendarPanel from '../components/CalendarPanel';
+import {useFocusBlocks} from '../calendar/useFocusBlocks';
+import {useSessionNotifications} from '../notifications/sessionNotifier';
+import {useSessionChimes} from '../audio/useSessionChimes';
+import {useMusicLibrary} from '../audio/useMusicLibrary';
+import {useEphemeris} from '../astronomy/useEphemeris';
+import {useSimulationClock} from '../astronomy/useSimulationClock';
+import {SimulationTimeProvider} from '../astronomy/SimulationTime';
+import SimulationControls from '../components/SimulationControls';
+import {PLANETS, SATELLITE_ZOOM} from '../astronomy/bodies';
+import {BELTS} from '../astronomy/belts';
+import {COMETS} from '../astronomy/comets';
 
-// Planet data: name, size, color, distance from sun, orbital period (seconds)
-// Distances and speeds are scaled for mobile screen visualization
-const PLANETS = [
-  {name: 'Mercury', size: 8, color: '#8C7853', distance: 40, speed: 12},
-  {name: 'Venus', size: 12, color: '#FFC870', distance: 55, speed: 18},
-  {name: 'Earth', size: 13, color: '#4169E1', distance: 70, speed: 24},
-  {name: 'Mars', size: 10, color: '#CD5C5C', distance: 85, speed: 30},
-  {name: 'Jupiter', size: 28, color: '#DAA520', distance: 115, speed: 48},
-  {name: 'Saturn', size: 24, color: '#F4A460', distance: 145, speed: 60},
-  {name: 'Uranus', size: 16, color: '#4FD5D5', distance: 170, speed: 72},
-  {name: 'Neptune', size: 16, color: '#4169E1', distance: 190, speed: 84},
-];
+// Date readout for the ephemeris mode
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {year: 'numeric', month: 'short', day: 'numeric'};
 
 /**
  * SolarSystemView is the main screen component featuring an animated Solar System
@@ -40,17 +53,76 @@ const PLANETS = [
  * Features:
  * - Sun at center with glow effect
  * - 8 planets orbiting at different speeds and distances
- * - Orbital paths shown as thin circular lines
+ * - Shared simulation clock with pause, time warp, reverse and scrubbing
+ * - Ephemeris mode placing the planets where they really are today
+ * - Moons orbiting their planets, shown when zoomed in
+ * - Shaded, banded planet discs with rings and a day/night terminator
+ * - Asteroid and Kuiper belts and periodic comets, each with a settings toggle
+ * - Elliptical orbits solved with Kepler's equation, drawn as thin lines
  * - Dark space background with stars
  * - Pinch gesture for zoom control (0.5x to 3x)
  * - Pomodoro timer with customizable durations
  * - Settings panel accessible via gear icon
+ * - Statistics screen accessible via chart icon
+ * - Calendar import/export of focus blocks via calendar icon
  * - Smooth animations at 60fps using react-native-reanimated
  */
 const SolarSystemView: React.FC = () => {
   // Settings state
-  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
   const [settingsPanelVisible, setSettingsPanelVisible] = useState(false);
+  const [statsVisible, setStatsVisible] = useState(false);
+  const [taskPanelVisible, setTaskPanelVisible] = useState(false);
+  const [calendarPanelVisible, setCalendarPanelVisible] = useState(false);
+
+  // Persisted task list; completed work sessions are credited to the active task
+  const tasks = useTasks();
+  const activeTaskTotals = tasks.activeTask ? tasks.totals[tasks.activeTask.id] : null;
+
+  // Interval program replacing the classic cycle, if one is selected
+  const activeProgram = useMemo(
+    () =>
+      getAllPrograms(settings.programs).find(program => program.id === settings.activeProgramId) ??
+      null,
+    [settings.programs, settings.activeProgramId],
+  );
+
+  // Pomodoro session logic, rendered by PomodoroTimer.
+  // An in-progress session is resumed from persisted state on mount.
+  const pomodoro = usePomodoroEngine({
+    workDuration: settings.workDuration,
+    breakDuration: settings.breakDuration,
+    longBreakDuration: settings.longBreakDuration,
+    sessionsBeforeLongBreak: settings.sessionsBeforeLongBreak,
+    autoStartBreaks: settings.autoStartBreaks,
+    autoStartWork: settings.autoStartWork,
+    program: activeProgram,
+    flowtime: settings.flowtime,
+    flowtimeBreakRatio: settings.flowtimeBreakRatio,
+    // Credit work to the task that was active when the session started
+    onSessionStart: tasks.startSession,
+    // Journal every ended session (completed, skipped or reset)
+    onSessionEnd: tasks.recordSession,
+    persistence: storedTimerPersistence,
+  });
+
+  // Focus blocks imported from a calendar start a work session when they begin
+  const focusBlocks = useFocusBlocks(pomodoro);
+
+  // Notify when the running session ends, even from the background
+  useSessionNotifications(pomodoro.state, settings.notifications);
+
+  // User-imported tracks for the focus and break playlists
+  const musicLibrary = useMusicLibrary();
+
+  // Transition chimes; background music is ducked while one plays
+  const chimePlaying = useSessionChimes(pomodoro.state, settings);
+
+  // One clock for every orbiting body; in ephemeris mode its time is a date
+  const simulation = useSimulationClock(settings.ephemeris);
+
+  // Real planet positions for the simulation date, when the ephemeris mode is on
+  const ephemeris = useEphemeris(settings.ephemeris, simulation.simulation);
 
   // Dynamic dimensions state - will be set by onLayout
   const [dimensions, setDimensions] = useState({width: 0, height: 0});
@@ -66,24 +138,13 @@ const SolarSystemView: React.FC = () => {
   const bottomPadding = 40; // Bottom padding for timer
   const timerHeight = 200; // Approximate height of timer component
 
-  // Load settings from localStorage on mount
-  useEffect(() => {
-    if (typeof localStorage !== 'undefined') {
-      const savedSettings = localStorage.getItem('motivationWatchSettings');
-      if (savedSettings) {
-        try {
-          setSettings(JSON.parse(savedSettings));
-        } catch (e) {
-          console.error('Failed to load settings:', e);
-        }
-      }
-    }
-  }, []);
-
   // Shared values for pinch-to-zoom gesture
   const scale = useSharedValue(1);
   const savedScale = useSharedValue(1);
 
+  // Moons are mounted only once a pinch ends zoomed in past the threshold
+  const [showSatellites, setShowSatellites] = useState(false);
+
   // Pinch gesture handler
   // Users can pinch to zoom in/out while maintaining focus on the Sun at center
   const pinchGesture = Gesture.Pinch()
@@ -95,6 +156,7 @@ const SolarSystemView: React.FC = () => {
     .onEnd(() => {
       // Save the final scale value for next gesture
       savedScale.value = scale.value;
+      runOnJS(setShowSatellites)(scale.value >= SATELLITE_ZOOM);
     });
 
   // Animated style for the zoom container
@@ -142,97 +204,212 @@ const SolarSystemView: React.FC = () => {
   };
 
   return (
-    <SafeAreaView style={styles.container} onLayout={handleLayout}>
-      {typeof StatusBar !== 'undefined' && <StatusBar barStyle="light-content" backgroundColor="#000000" />}
-
-      {/* Background stars */}
-      <View style={styles.starsContainer}>{stars}</View>
-
-      {/* Header text */}
-      <View style={styles.header}>
-        <Text style={styles.title}>DeepZen</Text>
-      </View>
-
-      {/* Solar System with pinch-to-zoom gesture */}
-      <GestureDetector gesture={pinchGesture}>
-        <Animated.View style={[styles.gestureContainer]}>
-          <Animated.View
-            style={[
-              styles.solarSystemContainer,
-              {
-                left: isLandscape
-                  ? (dimensions.width - timerWidth) / 2  // In landscape, center with timer on right
-                  : dimensions.width / 2,  // In portrait, simple horizontal center
-                top: isLandscape
-                  ? dimensions.height / 2  // In landscape, simple vertical center
-                  : topControlsHeight + (dimensions.height - topControlsHeight - bottomPadding - timerHeight) / 2, // In portrait, center in available space
-              },
-              animatedStyle,
-            ]}>
-            {/* Sun at center with glow effect */}
-            <View style={styles.sunGlow}>
-              <View style={styles.sun} />
+    <PomodoroProvider value={pomodoro}>
+      <SafeAreaView style={styles.container} onLayout={handleLayout}>
+        {typeof StatusBar !== 'undefined' && <StatusBar barStyle="light-content" backgroundColor="#000000" />}
+
+        {/* Background stars */}
+        <View style={styles.starsContainer}>{stars}</View>
+
+        {/* Header text */}
+        <View style={styles.header}>
+          <Text style={styles.title}>DeepZen</Text>
+          {ephemeris && (
+            <Text style={styles.subtitle}>
+              Planets on {ephemeris.date.toLocaleDateString(undefined, DATE_FORMAT)}
+            </Text>
+          )}
+        </View>
+
+        {/* Solar System with pinch-to-zoom gesture */}
+        <SimulationTimeProvider simulation={simulation.simulation}>
+          <GestureDetector gesture={pinchGesture}>
+            <Animated.View style={[styles.gestureContainer]}>
+              <Animated.View
+                style={[
+                  styles.solarSystemContainer,
+                  {
+                    left: isLandscape
+                      ? (dimensions.width - timerWidth) / 2  // In landscape, center with timer on right
+                      : dimensions.width / 2,  // In portrait, simple horizontal center
+                    top: isLandscape
+                      ? dimensions.height / 2  // In landscape, simple vertical center
+                      : topControlsHeight + (dimensions.height - topControlsHeight - bottomPadding - timerHeight) / 2, // In portrait, center in available space
+                  },
+                  animatedStyle,
+                ]}>
+                {/* Sun at center with glow effect */}
+                <View style={styles.sunGlow}>
+                  <View style={styles.sun} />
+                </View>
+
+                {/* Render orbital paths */}
+                {settings.showOrbits && PLANETS.map(planet => (
+                  <OrbitPath
+                    key={`orbit-${planet.name}`}
+                    distance={planet.distance}
+                    eccentricity={planet.eccentricity}
+                    perihelionArgument={planet.perihelionArgument}
+                    ascendingNode={planet.ascendingNode}
+                  />
+                ))}
+
+                {/* Belts of small bodies, behind the planets */}
+                {settings.asteroidBelt && <AsteroidBelt belt={BELTS.main} />}
+                {settings.kuiperBelt && <AsteroidBelt belt={BELTS.kuiper} />}
+
+                {/* Render planets */}
+                {PLANETS.map((planet, index) => (
+                  <Planet
+                    key={planet.name}
+                    name={planet.name}
+                    size={planet.size}
+                    color={planet.color}
+                    distance={planet.distance}
+                    speed={planet.speed}
+                    initialAngle={(index * Math.PI) / 4} // Distribute planets initially
+                    eccentricity={planet.eccentricity}
+                    perihelionArgument={planet.perihelionArgument}
+                    ascendingNode={planet.ascendingNode}
+                    bands={planet.bands}
+                    rings={planet.rings}
+                    longitude={ephemeris?.longitudes[planet.name]}>
+                    {/* Satellites orbit the planet once zoomed in far enough to tell them apart */}
+                    {showSatellites &&
+                      planet.satellites.map((satellite, satelliteIndex) => (
+                        <React.Fragment key={satellite.name}>
+                          {settings.showOrbits && <OrbitPath distance={satellite.distance} />}
+                          <Planet
+                            kind="moon"
+                            name={satellite.name}
+                            size={satellite.size}
+                            color={satellite.color}
+                            distance={satellite.distance}
+                            speed={satellite.speed}
+                            initialAngle={(satelliteIndex * Math.PI * 2) / planet.satellites.length}
+                          />
+                        </React.Fragment>
+                      ))}
+                  </Planet>
+                ))}
+
+                {/* Periodic comets */}
+                {settings.comets &&
+                  COMETS.map((comet, index) => (
+                    <React.Fragment key={comet.name}>
+                      {settings.showOrbits && (
+                        <OrbitPath
+                          distance={comet.distance}
+                          eccentricity={comet.eccentricity}
+                          perihelionArgument={comet.perihelionArgument}
+                          ascendingNode={comet.ascendingNode}
+                        />
+                      )}
+                      {/* Start out near aphelion */}
+                      <Comet comet={comet} initialAngle={Math.PI + index} />
+                    </React.Fragment>
+                  ))}
+              </Animated.View>
+            </Animated.View>
+          </GestureDetector>
+        </SimulationTimeProvider>
+
+        {/* Simulation time controls */}
+        <View style={styles.simulationControls}>
+          <SimulationControls controller={simulation} />
+        </View>
+
+        {/* Top Right Controls */}
+        <View style={styles.topRightControls}>
+          {/* Settings Icon */}
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setSettingsPanelVisible(true)}
+            accessibilityLabel="Open settings"
+          >
+            <View style={styles.settingsIcon}>
+              <View style={styles.settingsLine} />
+              <View style={styles.settingsLine} />
+              <View style={styles.settingsLine} />
+            </View>
+          </TouchableOpacity>
+
+          {/* Statistics Icon */}
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setStatsVisible(true)}
+            accessibilityLabel="Open statistics"
+          >
+            <View style={styles.statsIcon}>
+              <View style={[styles.statsBar, styles.statsBarShort]} />
+              <View style={[styles.statsBar, styles.statsBarTall]} />
+              <View style={[styles.statsBar, styles.statsBarMedium]} />
+            </View>
+          </TouchableOpacity>
+
+          {/* Calendar Icon */}
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setCalendarPanelVisible(true)}
+            accessibilityLabel="Open calendar"
+          >
+            <View style={styles.calendarIcon}>
+              <View style={styles.calendarHeader} />
             </View>
+          </TouchableOpacity>
 
-            {/* Render orbital paths */}
-            {settings.showOrbits && PLANETS.map(planet => (
-              <OrbitPath key={`orbit-${planet.name}`} radius={planet.distance} />
-            ))}
-
-            {/* Render planets */}
-            {PLANETS.map((planet, index) => (
-              <Planet
-                key={planet.name}
-                name={planet.name}
-                size={planet.size}
-                color={planet.color}
-                distance={planet.distance}
-                speed={planet.speed}
-                initialAngle={(index * Math.PI) / 4} // Distribute planets initially
-              />
-            ))}
-          </Animated.View>
-        </Animated.View>
-      </GestureDetector>
-
-      {/* Top Right Controls */}
-      <View style={styles.topRightControls}>
-        {/* Settings Icon */}
-        <TouchableOpacity
-          style={styles.iconButton}
-          onPress={() => setSettingsPanelVisible(true)}
-          accessibilityLabel="Open settings"
-        >
-          <View style={styles.settingsIcon}>
-            <View style={styles.settingsLine} />
-            <View style={styles.settingsLine} />
-            <View style={styles.settingsLine} />
-          </View>
-        </TouchableOpacity>
-
-        {/* Background Music Controls */}
-        <BackgroundMusic enabled={settings.backgroundMusic} volume={0.3} />
-      </View>
-
-      {/* Pomodoro Timer - Bottom Right */}
-      <View style={styles.timerContainer}>
-        <PomodoroTimer
-          workDuration={settings.workDuration}
-          breakDuration={settings.breakDuration}
-          onComplete={() => {
-            console.log('Timer completed!');
-          }}
+          {/* Background Music Controls */}
+          <BackgroundMusic
+            enabled={settings.backgroundMusic}
+            volume={musicLibrary.library.volume}
+            onVolumeChange={musicLibrary.setVolume}
+            ducked={chimePlaying}
+            pauseWhenIdle={settings.pauseMusicWhenIdle}
+            library={musicLibrary.library}
+          />
+        </View>
+
+        {/* Pomodoro Timer - Bottom Right */}
+        <View style={styles.timerContainer}>
+          <PomodoroTimer
+            activeTask={
+              tasks.activeTask && {
+                title: tasks.activeTask.title,
+                actualPomodoros: activeTaskTotals ? activeTaskTotals.actualPomodoros : 0,
+                estimatedPomodoros: tasks.activeTask.estimatedPomodoros,
+              }
+            }
+            onTaskPress={() => setTaskPanelVisible(true)}
+          />
+        </View>
+
+        {/* Settings Panel */}
+        <SettingsPanel
+          visible={settingsPanelVisible}
+          onClose={() => setSettingsPanelVisible(false)}
+          settings={settings}
+          onSettingsChange={setSettings}
+          musicLibrary={musicLibrary}
+        />
+
+        {/* Task Panel */}
+        <TaskPanel
+          visible={taskPanelVisible}
+          onClose={() => setTaskPanelVisible(false)}
+          tasks={tasks}
         />
-      </View>
-
-      {/* Settings Panel */}
-      <SettingsPanel
-        visible={settingsPanelVisible}
-        onClose={() => setSettingsPanelVisible(false)}
-        settings={settings}
-        onSettingsChange={setSettings}
-      />
-    </SafeAreaView>
+
+        {/* Calendar Panel */}
+        <CalendarPanel
+          visible={calendarPanelVisible}
+          onClose={() => setCalendarPanelVisible(false)}
+          focusBlocks={focusBlocks}
+        />
+
+        {/* Statistics Screen */}
+        <StatsView visible={statsVisible} onClose={() => setStatsVisible(false)} />
+      </SafeAreaView>
+    </PomodoroProvider>
   );
 };
 
@@ -301,6 +478,12 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.8,
     shadowRadius: 30,
   },
+  simulationControls: {
+    position: 'absolute',
+    top: 116,
+    left: 20,
+    zIndex: 10,
+  },
   topRightControls: {
     position: 'absolute',
     top: 60,
@@ -329,6 +512,38 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFFFFF',
     borderRadius: 1.25,
   },
+  statsIcon: {
+    width: 20,
+    height: 16,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  statsBar: {
+    width: 4,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 1,
+  },
+  statsBarShort: {
+    height: 7,
+  },
+  statsBarMedium: {
+    height: 11,
+  },
+  statsBarTall: {
+    height: 16,
+  },
+  calendarIcon: {
+    width: 18,
+    height: 16,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    borderRadius: 2,
+  },
+  calendarHeader: {
+    height: 3,
+    backgroundColor: '#FFFFFF',
+  },
   timerContainer: {
     position: 'absolute',
     bottom: 40,
@@ -1,4 +1,4 @@
-import React, {useMemo, useState, useEffect} from 'react';
+import React, {useMemo, useState, useEffect, useRef} from 'react';
 import {
   View,
   StyleSheet,
@@ -9,21 +9,34 @@ import {
 } from 'react-native';
 import PlanetWeb from '../components/Planet.web';
 import OrbitPath from '../components/OrbitPath';
+import AsteroidBeltWeb from '../components/AsteroidBelt.web';
+import CometWeb from '../components/Comet.web';
 import PomodoroTimer from '../components/PomodoroTimer';
-import SettingsPanel, {Settings, DEFAULT_SETTINGS} from '../components/SettingsPanel.web';
-import BackgroundMusic from '../components/BackgroundMusic';
-
-// Planet data: name, size, color, distance from sun, orbital period (seconds)
-const PLANETS = [
-  {name: 'Mercury', size: 8, color: '#8C7853', distance: 40, speed: 12},
-  {name: 'Venus', size: 12, color: '#FFC870', distance: 55, speed: 18},
-  {name: 'Earth', size: 13, color: '#4169E1', distance: 70, speed: 24},
-  {name: 'Mars', size: 10, color: '#CD5C5C', distance: 85, speed: 30},
-  {name: 'Jupiter', size: 28, color: '#DAA520', distance: 115, speed: 48},
-  {name: 'Saturn', size: 24, color: '#F4A460', distance: 145, speed: 60},
-  {name: 'Uranus', size: 16, color: '#4FD5D5', distance: 170, speed: 72},
-  {name: 'Neptune', size: 16, color: '#4169E1', distance: 190, speed: 84},
-];
+import {usePomodoroEngine} from '../timer/usePomodoroEngine';
+import {PomodoroProvider} from '../timer/PomodoroContext';
+import {storedTimerPersistence} from '../timer/timerPersistence';
+import {useTasks} from '../tasks/useTasks';
+import SettingsPanel from '../components/SettingsPanel.web';
+import {Settings, loadSettings} from '../settings/settings';
+import {getAllPrograms} from '../timer/intervalPrograms';
+import BackgroundMusic from '../components/BackgroundMusic.web';
+import StatsView from './StatsView';
+import TaskPanel from '../components/TaskPanel';
+import CalendarPanel from '../components/CalendarPanel';
+import {useFocusBlocks} from '../calendar/useFocusBlocks';
+import {useSessionNotifications} from '../notifications/sessionNotifier';
+import {useSessionChimes} from '../audio/useSessionChimes';
+import {useMusicLibrary} from '../audio/useMusicLibrary';
+import {useEphemeris} from '../astronomy/useEphemeris';
+import {useSimulationClock} from '../astronomy/useSimulationClock';
+import {SimulationTimeProvider} from '../astronomy/SimulationTime.web';
+import SimulationControls from '../components/SimulationControls';
+import {PLANETS, SATELLITE_ZOOM} from '../astronomy/bodies';
+import {BELTS} from '../astronomy/belts';
+import {COMETS} from '../astronomy/comets';
+
+// Date readout for the ephemeris mode
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {year: 'numeric', month: 'short', day: 'numeric'};
 
 /**
  * SolarSystemView - Web optimized version
@@ -31,15 +44,76 @@ const PLANETS = [
  * Features:
  * - Sun at center with glow effect
  * - 8 planets orbiting at different speeds and distances
+ * - Shared simulation clock with pause, time warp, reverse and scrubbing
+ * - Ephemeris mode placing the planets where they really are today
+ * - Moons orbiting their planets, shown when zoomed in
+ * - Shaded, banded planet discs with rings and a day/night terminator
+ * - Asteroid and Kuiper belts and periodic comets, each with a settings toggle
+ * - Elliptical orbits solved with Kepler's equation
  * - Dark space background with stars
  * - Pomodoro timer with customizable durations
  * - Settings panel accessible via gear icon
+ * - Statistics screen accessible via chart icon
+ * - Calendar import/export of focus blocks via calendar icon
  * - Mouse wheel zoom (web-friendly)
+ * - Keyboard shortcuts for timer controls
  */
 const SolarSystemView: React.FC = () => {
   // Settings state
-  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
   const [settingsPanelVisible, setSettingsPanelVisible] = useState(false);
+  const [statsVisible, setStatsVisible] = useState(false);
+  const [taskPanelVisible, setTaskPanelVisible] = useState(false);
+  const [calendarPanelVisible, setCalendarPanelVisible] = useState(false);
+
+  // Persisted task list; completed work sessions are credited to the active task
+  const tasks = useTasks();
+  const activeTaskTotals = tasks.activeTask ? tasks.totals[tasks.activeTask.id] : null;
+
+  // Interval program replacing the classic cycle, if one is selected
+  const activeProgram = useMemo(
+    () =>
+      getAllPrograms(settings.programs).find(program => program.id === settings.activeProgramId) ??
+      null,
+    [settings.programs, settings.activeProgramId],
+  );
+
+  // Pomodoro session logic, rendered by PomodoroTimer.
+  // An in-progress session is resumed from persisted state on mount.
+  const pomodoro = usePomodoroEngine({
+    workDuration: settings.workDuration,
+    breakDuration: settings.breakDuration,
+    longBreakDuration: settings.longBreakDuration,
+    sessionsBeforeLongBreak: settings.sessionsBeforeLongBreak,
+    autoStartBreaks: settings.autoStartBreaks,
+    autoStartWork: settings.autoStartWork,
+    program: activeProgram,
+    flowtime: settings.flowtime,
+    flowtimeBreakRatio: settings.flowtimeBreakRatio,
+    // Credit work to the task that was active when the session started
+    onSessionStart: tasks.startSession,
+    // Journal every ended session (completed, skipped or reset)
+    onSessionEnd: tasks.recordSession,
+    persistence: storedTimerPersistence,
+  });
+
+  // Focus blocks imported from a calendar start a work session when they begin
+  const focusBlocks = useFocusBlocks(pomodoro);
+
+  // Notify when the running session ends, even from the background
+  useSessionNotifications(pomodoro.state, settings.notifications);
+
+  // User-imported tracks for the focus and break playlists
+  const musicLibrary = useMusicLibrary();
+
+  // Transition chimes; background music is ducked while one plays
+  const chimePlaying = useSessionChimes(pomodoro.state, settings);
+
+  // One clock for every orbiting body; in ephemeris mode its time is a date
+  const simulation = useSimulationClock(settings.ephemeris);
+
+  // Real planet positions for the simulation date, when the ephemeris mode is on
+  const ephemeris = useEphemeris(settings.ephemeris, simulation.simulation);
   const [scale, setScale] = useState(1);
 
   // Dynamic dimensions state
@@ -48,20 +122,6 @@ const SolarSystemView: React.FC = () => {
     return {width, height};
   });
 
-  // Load settings from localStorage on mount
-  useEffect(() => {
-    if (typeof localStorage !== 'undefined') {
-      const savedSettings = localStorage.getItem('motivationWatchSettings');
-      if (savedSettings) {
-        try {
-          setSettings(JSON.parse(savedSettings));
-        } catch (e) {
-          console.error('Failed to load settings:', e);
-        }
-      }
-    }
-  }, []);
-
   // Handle window resize
   useEffect(() => {
     const handleResize = () => {
@@ -75,13 +135,84 @@ const SolarSystemView: React.FC = () => {
     }
   }, []);
 
-  // Mouse wheel zoom handler
-  const handleWheel = (e: any) => {
-    e.preventDefault();
-    const delta = e.deltaY * -0.001;
-    const newScale = Math.min(Math.max(scale + delta, 0.5), 3);
-    setScale(newScale);
-  };
+  // Keyboard shortcuts for the timer:
+  // Space start/pause, N skip, + add 5 min, I / E internal / external interruption,
+  // L lap and F finish in flowtime sessions
+  const {state: timerEngineState, start, pause, skip, extend, interrupt, finish, lap} = pomodoro;
+  const isTimerRunning = timerEngineState.timerState === 'running';
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (
+        e.metaKey ||
+        e.ctrlKey ||
+        e.altKey ||
+        (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA'))
+      ) {
+        return;
+      }
+
+      switch (e.key) {
+        case ' ':
+          if (isTimerRunning) {
+            pause();
+          } else {
+            start();
+          }
+          break;
+        case 'n':
+        case 'N':
+          skip();
+          break;
+        case '+':
+        case '=':
+          extend(5);
+          break;
+        case 'i':
+        case 'I':
+          interrupt('internal');
+          break;
+        case 'e':
+        case 'E':
+          interrupt('external');
+          break;
+        case 'l':
+        case 'L':
+          lap();
+          break;
+        case 'f':
+        case 'F':
+          finish();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isTimerRunning, start, pause, skip, extend, interrupt, finish, lap]);
+
+  // Mouse wheel zoom. View has no wheel prop, but on web its ref is the
+  // underlying element; the listener is not passive so it can stop the
+  // page from scrolling.
+  const solarSystemRef = useRef<View>(null);
+  useEffect(() => {
+    const element = solarSystemRef.current as unknown as HTMLElement | null;
+    if (!element) {
+      return;
+    }
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const delta = e.deltaY * -0.001;
+      setScale(prev => Math.min(Math.max(prev + delta, 0.5), 3));
+    };
+    element.addEventListener('wheel', handleWheel, {passive: false});
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, []);
 
   // Render stars in the background
   const stars = useMemo(() => {
@@ -112,96 +243,201 @@ const SolarSystemView: React.FC = () => {
   }, [dimensions]);
 
   return (
-    <View style={styles.container}>
-      {/* Background stars */}
-      <View style={styles.starsContainer}>{stars}</View>
-
-      {/* Header text */}
-      <View style={styles.header}>
-        <Text style={styles.title}>Motivation Watch 🚀⏱️</Text>
-        <Text style={styles.subtitle}>Scroll to zoom</Text>
-      </View>
+    <PomodoroProvider value={pomodoro}>
+      <View style={styles.container}>
+        {/* Background stars */}
+        <View style={styles.starsContainer}>{stars}</View>
 
-      {/* Solar System - scrollable container for zoom */}
-      <ScrollView
-        style={styles.scrollContainer}
-        contentContainerStyle={styles.scrollContent}
-        onScroll={(e: any) => {
-          // Handle wheel event for zoom
-          if (e.nativeEvent && e.nativeEvent.deltaY) {
-            handleWheel(e.nativeEvent);
-          }
-        }}
-        scrollEnabled={false}
-      >
-        <View
-          style={[
-            styles.solarSystemContainer,
-            {
-              transform: [{scale}],
-              left: dimensions.width / 2,
-              top: dimensions.height / 2,
-            },
-          ]}
-          onWheel={handleWheel}
-        >
-          {/* Sun at center with glow effect */}
-          <View style={styles.sunGlow}>
-            <View style={styles.sun} />
+        {/* Header text */}
+        <View style={styles.header}>
+          <Text style={styles.title}>Motivation Watch 🚀⏱️</Text>
+          <Text style={styles.subtitle}>Scroll to zoom</Text>
+          {ephemeris && (
+            <Text style={styles.subtitle}>
+              Planets on {ephemeris.date.toLocaleDateString(undefined, DATE_FORMAT)}
+            </Text>
+          )}
+          <View style={styles.simulationControls}>
+            <SimulationControls controller={simulation} />
           </View>
+        </View>
+
+        {/* Solar System - scrollable container for zoom */}
+        <SimulationTimeProvider simulation={simulation.simulation}>
+          <ScrollView
+            style={styles.scrollContainer}
+            contentContainerStyle={styles.scrollContent}
+            scrollEnabled={false}
+          >
+            <View
+              ref={solarSystemRef}
+              style={[
+                styles.solarSystemContainer,
+                {
+                  transform: [{scale}],
+                  left: dimensions.width / 2,
+                  top: dimensions.height / 2,
+                },
+              ]}
+            >
+              {/* Sun at center with glow effect */}
+              <View style={styles.sunGlow}>
+                <View style={styles.sun} />
+              </View>
+
+              {/* Render orbital paths */}
+              {settings.showOrbits &&
+                PLANETS.map(planet => (
+                  <OrbitPath
+                    key={`orbit-${planet.name}`}
+                    distance={planet.distance}
+                    eccentricity={planet.eccentricity}
+                    perihelionArgument={planet.perihelionArgument}
+                    ascendingNode={planet.ascendingNode}
+                  />
+                ))}
+
+              {/* Belts of small bodies, behind the planets */}
+              {settings.asteroidBelt && <AsteroidBeltWeb belt={BELTS.main} />}
+              {settings.kuiperBelt && <AsteroidBeltWeb belt={BELTS.kuiper} />}
+
+              {/* Render planets */}
+              {PLANETS.map((planet, index) => (
+                <PlanetWeb
+                  key={planet.name}
+                  name={planet.name}
+                  size={planet.size}
+                  color={planet.color}
+                  distance={planet.distance}
+                  speed={planet.speed}
+                  initialAngle={(index * Math.PI) / 4}
+                  eccentricity={planet.eccentricity}
+                  perihelionArgument={planet.perihelionArgument}
+                  ascendingNode={planet.ascendingNode}
+                  bands={planet.bands}
+                  rings={planet.rings}
+                  longitude={ephemeris?.longitudes[planet.name]}
+                >
+                  {/* Satellites orbit the planet once zoomed in far enough to tell them apart */}
+                  {scale >= SATELLITE_ZOOM &&
+                    planet.satellites.map((satellite, satelliteIndex) => (
+                      <React.Fragment key={satellite.name}>
+                        {settings.showOrbits && <OrbitPath distance={satellite.distance} />}
+                        <PlanetWeb
+                          kind="moon"
+                          name={satellite.name}
+                          size={satellite.size}
+                          color={satellite.color}
+                          distance={satellite.distance}
+                          speed={satellite.speed}
+                          initialAngle={(satelliteIndex * Math.PI * 2) / planet.satellites.length}
+                        />
+                      </React.Fragment>
+                    ))}
+                </PlanetWeb>
+              ))}
 
-          {/* Render orbital paths */}
-          {settings.showOrbits &&
-            PLANETS.map(planet => (
-              <OrbitPath key={`orbit-${planet.name}`} radius={planet.distance} />
-            ))}
-
-          {/* Render planets */}
-          {PLANETS.map((planet, index) => (
-            <PlanetWeb
-              key={planet.name}
-              name={planet.name}
-              size={planet.size}
-              color={planet.color}
-              distance={planet.distance}
-              speed={planet.speed}
-              initialAngle={(index * Math.PI) / 4}
-            />
-          ))}
+              {/* Periodic comets */}
+              {settings.comets &&
+                COMETS.map((comet, index) => (
+                  <React.Fragment key={comet.name}>
+                    {settings.showOrbits && (
+                      <OrbitPath
+                        distance={comet.distance}
+                        eccentricity={comet.eccentricity}
+                        perihelionArgument={comet.perihelionArgument}
+                        ascendingNode={comet.ascendingNode}
+                      />
+                    )}
+                    {/* Start out near aphelion */}
+                    <CometWeb comet={comet} initialAngle={Math.PI + index} />
+                  </React.Fragment>
+                ))}
+            </View>
+          </ScrollView>
+        </SimulationTimeProvider>
+
+        {/* Settings Gear Icon - Bottom Left */}
+        <TouchableOpacity
+          style={styles.settingsIcon}
+          onPress={() => setSettingsPanelVisible(true)}
+          accessibilityLabel="Open settings"
+        >
+          <Text style={styles.gearIcon}>⚙️</Text>
+        </TouchableOpacity>
+
+        {/* Top Right Controls */}
+        <View style={styles.topRightControls}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setStatsVisible(true)}
+            accessibilityLabel="Open statistics"
+          >
+            <Text style={styles.statsIcon}>📊</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setCalendarPanelVisible(true)}
+            accessibilityLabel="Open calendar"
+          >
+            <Text style={styles.statsIcon}>📅</Text>
+          </TouchableOpacity>
         </View>
-      </ScrollView>
-
-      {/* Settings Gear Icon - Bottom Left */}
-      <TouchableOpacity
-        style={styles.settingsIcon}
-        onPress={() => setSettingsPanelVisible(true)}
-        accessibilityLabel="Open settings"
-      >
-        <Text style={styles.gearIcon}>⚙️</Text>
-      </TouchableOpacity>
-
-      {/* Background Music Controls */}
-      <BackgroundMusic enabled={settings.backgroundMusic} volume={0.3} />
-
-      {/* Pomodoro Timer - Bottom Right */}
-      <View style={styles.timerContainer}>
-        <PomodoroTimer
-          workDuration={settings.workDuration}
-          breakDuration={settings.breakDuration}
-          onComplete={() => {
-            console.log('Timer completed!');
-          }}
+
+        {/* Background Music Controls */}
+        <BackgroundMusic
+          enabled={settings.backgroundMusic}
+          volume={musicLibrary.library.volume}
+          onVolumeChange={musicLibrary.setVolume}
+          ducked={chimePlaying}
+          pauseWhenIdle={settings.pauseMusicWhenIdle}
+          trackCrossfade={settings.trackCrossfade}
+          library={musicLibrary.library}
+          source={settings.musicSource}
+          ambientMix={settings.ambientMix}
+        />
+
+        {/* Pomodoro Timer - Bottom Right */}
+        <View style={styles.timerContainer}>
+          <PomodoroTimer
+            activeTask={
+              tasks.activeTask && {
+                title: tasks.activeTask.title,
+                actualPomodoros: activeTaskTotals ? activeTaskTotals.actualPomodoros : 0,
+                estimatedPomodoros: tasks.activeTask.estimatedPomodoros,
+              }
+            }
+            onTaskPress={() => setTaskPanelVisible(true)}
+          />
+        </View>
+
+        {/* Settings Panel */}
+        <SettingsPanel
+          visible={settingsPanelVisible}
+          onClose={() => setSettingsPanelVisible(false)}
+          settings={settings}
+          onSettingsChange={setSettings}
+          musicLibrary={musicLibrary}
         />
-      </View>
 
-      {/* Settings Panel */}
-      <SettingsPanel
-        visible={settingsPanelVisible}
-        onClose={() => setSettingsPanelVisible(false)}
-        settings={settings}
-        onSettingsChange={setSettings}
-      />
-    </View>
+        {/* Task Panel */}
+        <TaskPanel
+          visible={taskPanelVisible}
+          onClose={() => setTaskPanelVisible(false)}
+          tasks={tasks}
+        />
+
+        {/* Calendar Panel */}
+        <CalendarPanel
+          visible={calendarPanelVisible}
+          onClose={() => setCalendarPanelVisible(false)}
+          focusBlocks={focusBlocks}
+        />
+
+        {/* Statistics Screen */}
+        <StatsView visible={statsVisible} onClose={() => setStatsVisible(false)} />
+      </View>
+    </PomodoroProvider>
   );
 };
 
@@ -224,6 +460,9 @@ const styles = StyleSheet.create({
     left: 20,
     zIndex: 10,
   },
+  simulationControls: {
+    marginTop: 12,
+  },
   title: {
     color: '#FFFFFF',
     fontSize: 20,
@@ -276,6 +515,24 @@ const styles = StyleSheet.create({
   gearIcon: {
     fontSize: 40,
   },
+  topRightControls: {
+    position: 'absolute',
+    top: 40,
+    right: 40,
+    flexDirection: 'row',
+    gap: 12,
+    zIndex: 100,
+  },
+  iconButton: {
+    width: 50,
+    height: 50,
+    opacity: 0.7,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  statsIcon: {
+    fontSize: 32,
+  },
   timerContainer: {
     position: 'absolute',
     bottom: 40,
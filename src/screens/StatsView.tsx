@@ -0,0 +1,343 @@
+import React, {useMemo} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet, ScrollView, Modal} from 'react-native';
+import {loadJournal} from '../history/sessionJournal';
+import {
+  getCleanPomodoros,
+  getCompletedPomodoros,
+  getInterruptionCounts,
+  getDailyFocus,
+  getHeatmap,
+  getStreaks,
+  getWeeklyFocus,
+} from '../history/statistics';
+
+interface StatsViewProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const DAILY_DAYS = 7;
+const WEEKLY_WEEKS = 4;
+const HEATMAP_WEEKS = 15;
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+// Heatmap color for a day's focus minutes
+const getHeatColor = (minutes: number): string => {
+  if (minutes === 0) {
+    return '#2a2a2a';
+  }
+  if (minutes < 30) {
+    return '#1e3a5f';
+  }
+  if (minutes < 60) {
+    return '#2c5aa0';
+  }
+  if (minutes < 120) {
+    return '#4169E1';
+  }
+  return '#7FA7FF';
+};
+
+// Format minutes as "1h 25m" or "25m"
+const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+/**
+ * StatsView Screen
+ *
+ * Full-screen statistics dashboard built on the session journal.
+ * Shared by the native and web entry points.
+ *
+ * Features:
+ * - Focus minutes per day (last 7 days) and per week (last 4 weeks)
+ * - Completed pomodoros, clean ones and interruptions
+ * - Current and best streak
+ * - Calendar heatmap of focus time
+ */
+const StatsView: React.FC<StatsViewProps> = ({visible, onClose}) => {
+  // Reload the journal every time the screen is opened
+  const stats = useMemo(() => {
+    if (!visible) {
+      return null;
+    }
+    const entries = loadJournal();
+    const now = Date.now();
+    return {
+      daily: getDailyFocus(entries, DAILY_DAYS, now),
+      weekly: getWeeklyFocus(entries, WEEKLY_WEEKS, now),
+      completed: getCompletedPomodoros(entries),
+      clean: getCleanPomodoros(entries),
+      interruptions: getInterruptionCounts(entries),
+      streaks: getStreaks(entries, now),
+      heatmap: getHeatmap(entries, HEATMAP_WEEKS, now),
+    };
+  }, [visible]);
+
+  if (!stats) {
+    return null;
+  }
+
+  const today = stats.daily[stats.daily.length - 1];
+  const thisWeek = stats.weekly[stats.weekly.length - 1];
+  const maxDaily = Math.max(1, ...stats.daily.map(day => day.minutes));
+  const maxWeekly = Math.max(1, ...stats.weekly.map(week => week.minutes));
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Statistics</Text>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close statistics">
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Summary */}
+          <View style={styles.summary}>
+            <View style={styles.card}>
+              <Text style={styles.cardValue}>{formatMinutes(today.minutes)}</Text>
+              <Text style={styles.cardLabel}>Focus today</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardValue}>{formatMinutes(thisWeek.minutes)}</Text>
+              <Text style={styles.cardLabel}>Focus this week</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardValue}>{stats.completed}</Text>
+              <Text style={styles.cardLabel}>Pomodoros</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardValue}>{stats.clean}</Text>
+              <Text style={styles.cardLabel}>Clean pomodoros</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardValue}>
+                {stats.interruptions.internal} / {stats.interruptions.external}
+              </Text>
+              <Text style={styles.cardLabel}>Interruptions (int / ext)</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardValue}>{stats.streaks.current}d</Text>
+              <Text style={styles.cardLabel}>Current streak</Text>
+            </View>
+            <View style={styles.card}>
+              <Text style={styles.cardValue}>{stats.streaks.best}d</Text>
+              <Text style={styles.cardLabel}>Best streak</Text>
+            </View>
+          </View>
+
+          {/* Focus per day */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Focus per day</Text>
+            <View style={styles.barChart}>
+              {stats.daily.map(day => (
+                <View key={day.day} style={styles.barColumn}>
+                  <Text style={styles.barValue}>{day.minutes}</Text>
+                  <View style={styles.barTrack}>
+                    <View
+                      style={[styles.bar, {height: `${(day.minutes / maxDaily) * 100}%`}]}
+                    />
+                  </View>
+                  <Text style={styles.barLabel}>{day.day.slice(5)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          {/* Focus per week */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Focus per week</Text>
+            {stats.weekly.map(week => (
+              <View key={week.day} style={styles.weekRow}>
+                <Text style={styles.weekLabel}>{week.day.slice(5)}</Text>
+                <View style={styles.weekTrack}>
+                  <View
+                    style={[styles.weekBar, {width: `${(week.minutes / maxWeekly) * 100}%`}]}
+                  />
+                </View>
+                <Text style={styles.weekValue}>{formatMinutes(week.minutes)}</Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Calendar heatmap */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Calendar</Text>
+            <View style={styles.heatmap}>
+              <View style={styles.heatmapColumn}>
+                {WEEKDAY_LABELS.map((label, index) => (
+                  <Text key={index} style={styles.heatmapLabel}>
+                    {label}
+                  </Text>
+                ))}
+              </View>
+              {stats.heatmap.map((week, weekIndex) => (
+                <View key={weekIndex} style={styles.heatmapColumn}>
+                  {week.map((day, dayIndex) => (
+                    <View
+                      key={dayIndex}
+                      style={[
+                        styles.heatmapCell,
+                        day
+                          ? {backgroundColor: getHeatColor(day.minutes)}
+                          : styles.heatmapCellEmpty,
+                      ]}
+                      accessibilityLabel={
+                        day ? `${day.day}: ${day.minutes} focus minutes` : undefined
+                      }
+                    />
+                  ))}
+                </View>
+              ))}
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  content: {
+    padding: 30,
+    paddingTop: 60,
+    gap: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  closeButton: {
+    color: '#FFFFFF',
+    fontSize: 32,
+    fontWeight: '300',
+  },
+  summary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  card: {
+    minWidth: 130,
+    flexGrow: 1,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    gap: 4,
+  },
+  cardValue: {
+    color: '#FFFFFF',
+    fontSize: 24,
+    fontWeight: '600',
+  },
+  cardLabel: {
+    color: '#888888',
+    fontSize: 12,
+    fontWeight: '500',
+    letterSpacing: 0.5,
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  barChart: {
+    flexDirection: 'row',
+    gap: 8,
+    height: 160,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  barValue: {
+    color: '#888888',
+    fontSize: 11,
+  },
+  barTrack: {
+    flex: 1,
+    width: '100%',
+    justifyContent: 'flex-end',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  bar: {
+    width: '100%',
+    backgroundColor: '#4169E1',
+  },
+  barLabel: {
+    color: '#888888',
+    fontSize: 11,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  weekLabel: {
+    color: '#888888',
+    fontSize: 12,
+    width: 44,
+  },
+  weekTrack: {
+    flex: 1,
+    height: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  weekBar: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  weekValue: {
+    color: '#CCCCCC',
+    fontSize: 12,
+    width: 60,
+    textAlign: 'right',
+  },
+  heatmap: {
+    flexDirection: 'row',
+    gap: 3,
+  },
+  heatmapColumn: {
+    gap: 3,
+  },
+  heatmapLabel: {
+    color: '#666666',
+    fontSize: 9,
+    height: 14,
+    lineHeight: 14,
+    width: 12,
+  },
+  heatmapCell: {
+    width: 14,
+    height: 14,
+    borderRadius: 2,
+  },
+  heatmapCellEmpty: {
+    backgroundColor: 'transparent',
+  },
+});
+
+export default StatsView;
@@ -0,0 +1,104 @@
+import {IntervalProgram, isPresetProgram} from '../timer/intervalPrograms';
+import {ChimeId} from '../audio/chimes';
+import {MusicSource} from '../audio/musicSession';
+import {AmbientMix, DEFAULT_AMBIENT_MIX} from '../audio/ambientGenerators';
+import {loadItem, saveItem} from '../utils/storage';
+
+const SETTINGS_KEY = 'motivationWatchSettings';
+
+export interface Settings {
+  workDuration: number; // in minutes
+  breakDuration: number; // in minutes
+  longBreakDuration: number; // in minutes
+  sessionsBeforeLongBreak: number; // work sessions per cycle
+  autoStartBreaks: boolean;
+  autoStartWork: boolean;
+  programs: IntervalProgram[]; // User-defined interval programs, without the presets
+  activeProgramId: string | null; // null runs the classic Pomodoro cycle
+  flowtime: boolean; // Work sessions count up until finished
+  flowtimeBreakRatio: number; // Flowtime break as a fraction of the time worked
+  notifications: boolean; // Notify when a session ends
+  workEndChime: ChimeId; // Played when a work session ends
+  breakEndChime: ChimeId; // Played when a break ends
+  warningChime: ChimeId; // Played shortly before a session ends
+  warningMinutes: number; // Minutes before the end to warn, 0 for no warning
+  chimeVolume: number; // 0 to 1, 0 silences chimes
+  showOrbits: boolean;
+  ephemeris: boolean; // Planets at their real positions for today's date
+  asteroidBelt: boolean; // Main belt between Mars and Jupiter
+  kuiperBelt: boolean; // Icy belt past Neptune
+  comets: boolean;
+  starDensity: number; // 0-100
+  backgroundMusic: boolean;
+  pauseMusicWhenIdle: boolean; // Music plays only while the timer runs
+  trackCrossfade: number; // Seconds tracks overlap, 0 for gapless
+  musicSource: MusicSource; // Playlist tracks or ambient generators
+  ambientMix: AmbientMix; // Ambient layer volumes and binaural tuning
+}
+
+/**
+ * Settings
+ *
+ * User preferences shared by both screens and edited in the settings
+ * panel (native and web). Options only one platform offers are kept on
+ * the other too, so saved settings stay the same across both.
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  workDuration: 25,
+  breakDuration: 5,
+  longBreakDuration: 15,
+  sessionsBeforeLongBreak: 4,
+  autoStartBreaks: true,
+  autoStartWork: true,
+  programs: [],
+  activeProgramId: null,
+  flowtime: false,
+  flowtimeBreakRatio: 0.2,
+  notifications: false,
+  workEndChime: 'bell',
+  breakEndChime: 'bowl',
+  warningChime: 'chirp',
+  warningMinutes: 0,
+  chimeVolume: 0.8,
+  showOrbits: true,
+  ephemeris: false,
+  asteroidBelt: true,
+  kuiperBelt: false,
+  comets: true,
+  starDensity: 100,
+  backgroundMusic: false,
+  pauseMusicWhenIdle: false,
+  trackCrossfade: 3,
+  musicSource: 'playlist',
+  ambientMix: DEFAULT_AMBIENT_MIX,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Saved values over the defaults, object by object, so fields added since
+// the settings were saved get their defaults at any depth
+const mergeDefaults = (defaults: unknown, saved: unknown): unknown => {
+  if (saved === undefined) {
+    return defaults;
+  }
+  if (!isPlainObject(defaults) || !isPlainObject(saved)) {
+    return saved;
+  }
+  const merged: Record<string, unknown> = {...saved};
+  Object.keys(defaults).forEach(key => {
+    merged[key] = mergeDefaults(defaults[key], saved[key]);
+  });
+  return merged;
+};
+
+// Read synchronously so the first render, and the timer it configures,
+// already sees the saved interval program
+export const loadSettings = (): Settings => {
+  const saved = loadItem<unknown>(SETTINGS_KEY) ?? {};
+  const settings = mergeDefaults(DEFAULT_SETTINGS, saved) as Settings;
+  // Older versions saved the presets along with the user's programs
+  return {...settings, programs: settings.programs.filter(program => !isPresetProgram(program.id))};
+};
+
+export const saveSettings = (settings: Settings): void => saveItem(SETTINGS_KEY, settings);
@@ -0,0 +1,74 @@
+import {loadItem, saveItem} from '../utils/storage';
+import {JournalEntry, querySessions} from '../history/sessionJournal';
+
+const TASKS_STORAGE_KEY = 'motivationWatchTasks';
+
+export interface Task {
+  id: string;
+  title: string;
+  estimatedPomodoros: number;
+  done: boolean;
+  createdAt: number; // Timestamp (ms)
+}
+
+export interface TaskList {
+  tasks: Task[];
+  activeTaskId: string | null; // Task credited with the next work sessions
+  session?: SessionTask; // Task that was active when the current session started
+}
+
+export interface SessionTask {
+  startedAt: number; // Timestamp (ms) of the session start
+  taskId: string | null;
+}
+
+export interface TaskTotals {
+  taskId: string;
+  estimatedPomodoros: number;
+  actualPomodoros: number; // Completed work sessions credited to the task
+  focusMinutes: number; // Time spent in all work sessions credited to the task
+}
+
+/**
+ * Task Store
+ *
+ * Persisted task list. Work sessions are credited to a task through the
+ * `taskId` of their journal entry, so per-task totals are always derived
+ * from the session journal rather than stored twice.
+ */
+export const loadTaskList = (): TaskList =>
+  loadItem<TaskList>(TASKS_STORAGE_KEY) ?? {tasks: [], activeTaskId: null};
+
+export const saveTaskList = (taskList: TaskList): void => {
+  saveItem(TASKS_STORAGE_KEY, taskList);
+};
+
+export const createTask = (title: string, estimatedPomodoros: number, now: number): Task => ({
+  id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+  title: title.trim(),
+  estimatedPomodoros,
+  done: false,
+  createdAt: now,
+});
+
+/**
+ * Task to credit with an ended session: the one active when it started.
+ * Sessions whose start was not seen (e.g. several rolled over while the
+ * app was closed) go to the active task.
+ */
+export const getSessionTaskId = (taskList: TaskList, startedAt: number): string | null =>
+  taskList.session && taskList.session.startedAt === startedAt
+    ? taskList.session.taskId
+    : taskList.activeTaskId;
+
+export const getTaskTotals = (task: Task, entries: JournalEntry[]): TaskTotals => {
+  const work = querySessions(entries, {sessionType: 'work', taskId: task.id});
+  return {
+    taskId: task.id,
+    estimatedPomodoros: task.estimatedPomodoros,
+    actualPomodoros: querySessions(work, {outcome: 'completed'}).length,
+    focusMinutes: Math.round(
+      work.reduce((total, entry) => total + entry.actualDuration, 0) / 60,
+    ),
+  };
+};
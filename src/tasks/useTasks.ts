@@ -0,0 +1,115 @@
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {SessionRecord} from '../timer/pomodoroEngine';
+import {JournalEntry, loadJournal, recordSession} from '../history/sessionJournal';
+import {
+  Task,
+  TaskList,
+  TaskTotals,
+  createTask,
+  getSessionTaskId,
+  getTaskTotals,
+  loadTaskList,
+  saveTaskList,
+} from './taskStore';
+
+export interface TasksController {
+  tasks: Task[];
+  activeTask: Task | null;
+  totals: Record<string, TaskTotals>;
+  selectTask: (taskId: string | null) => void;
+  addTask: (title: string, estimatedPomodoros: number) => void;
+  removeTask: (taskId: string) => void;
+  toggleTaskDone: (taskId: string) => void;
+  startSession: (startedAt: number) => void;
+  recordSession: (record: SessionRecord) => void;
+}
+
+/**
+ * useTasks Hook
+ *
+ * Owns the persisted task list and the active task. `startSession` notes
+ * the active task as a session starts; ended sessions are journaled
+ * through `recordSession`, which credits work sessions to that task and
+ * refreshes the per-task totals.
+ */
+export const useTasks = (): TasksController => {
+  const [taskList, setTaskList] = useState<TaskList>(loadTaskList);
+  const [journal, setJournal] = useState<JournalEntry[]>(loadJournal);
+
+  // Persist the task list whenever it changes
+  useEffect(() => {
+    saveTaskList(taskList);
+  }, [taskList]);
+
+  const {tasks, activeTaskId} = taskList;
+  const activeTask = tasks.find(task => task.id === activeTaskId) ?? null;
+
+  const totals = useMemo(
+    () =>
+      tasks.reduce<Record<string, TaskTotals>>((result, task) => {
+        result[task.id] = getTaskTotals(task, journal);
+        return result;
+      }, {}),
+    [tasks, journal],
+  );
+
+  const selectTask = useCallback((taskId: string | null) => {
+    setTaskList(prev => ({...prev, activeTaskId: taskId}));
+  }, []);
+
+  const addTask = useCallback((title: string, estimatedPomodoros: number) => {
+    const task = createTask(title, estimatedPomodoros, Date.now());
+    setTaskList(prev => ({
+      ...prev,
+      tasks: [...prev.tasks, task],
+      // The first task becomes active so it gets credited right away
+      activeTaskId: prev.activeTaskId ?? task.id,
+    }));
+  }, []);
+
+  const removeTask = useCallback((taskId: string) => {
+    setTaskList(prev => ({
+      ...prev,
+      tasks: prev.tasks.filter(task => task.id !== taskId),
+      activeTaskId: prev.activeTaskId === taskId ? null : prev.activeTaskId,
+    }));
+  }, []);
+
+  const toggleTaskDone = useCallback((taskId: string) => {
+    setTaskList(prev => {
+      const task = prev.tasks.find(t => t.id === taskId);
+      const done = task ? !task.done : false;
+      return {
+        ...prev,
+        tasks: prev.tasks.map(t => (t.id === taskId ? {...t, done} : t)),
+        // Finished tasks stop collecting pomodoros
+        activeTaskId: done && prev.activeTaskId === taskId ? null : prev.activeTaskId,
+      };
+    });
+  }, []);
+
+  // Switching tasks mid-session leaves the session with the task it started on
+  const startSession = useCallback((startedAt: number) => {
+    setTaskList(prev => ({...prev, session: {startedAt, taskId: prev.activeTaskId}}));
+  }, []);
+
+  const journalSession = useCallback(
+    (record: SessionRecord) => {
+      const taskId = getSessionTaskId(taskList, record.startedAt);
+      setJournal(recordSession(record, taskId ?? undefined));
+    },
+    [taskList],
+  );
+
+  return {
+    tasks,
+    activeTask,
+    totals,
+    selectTask,
+    addTask,
+    removeTask,
+    toggleTaskDone,
+    startSession,
+    recordSession: journalSession,
+  };
+};
@@ -0,0 +1,18 @@
+import {createContext, useContext} from 'react';
+import {PomodoroController} from './usePomodoroEngine';
+
+const PomodoroContext = createContext<PomodoroController | null>(null);
+
+/**
+ * Shares the screen's Pomodoro controller with every component that
+ * follows the session, such as the timer display and the background music.
+ */
+export const PomodoroProvider = PomodoroContext.Provider;
+
+export const usePomodoro = (): PomodoroController => {
+  const pomodoro = useContext(PomodoroContext);
+  if (!pomodoro) {
+    throw new Error('usePomodoro must be used inside a PomodoroProvider');
+  }
+  return pomodoro;
+};
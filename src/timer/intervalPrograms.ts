@@ -0,0 +1,115 @@
+/**
+ * Interval Programs
+ *
+ * A program is a named, ordered list of segments the timer steps through
+ * in a loop, as an alternative to the classic work/break/long break cycle.
+ * Each segment counts as a work or break session for journaling, tasks
+ * and the auto-start policy.
+ */
+
+export type SegmentType = 'work' | 'break';
+
+export interface ProgramSegment {
+  id: string;
+  label: string;
+  type: SegmentType;
+  duration: number; // in minutes
+  color: string;
+}
+
+export interface IntervalProgram {
+  id: string;
+  name: string;
+  segments: ProgramSegment[];
+}
+
+export const SEGMENT_COLORS = [
+  '#4169E1',
+  '#4CAF50',
+  '#DAA520',
+  '#CD5C5C',
+  '#9370DB',
+  '#4FD5D5',
+];
+
+export const MIN_SEGMENT_DURATION = 1;
+export const MAX_SEGMENT_DURATION = 180;
+
+const segment = (
+  id: string,
+  label: string,
+  type: SegmentType,
+  duration: number,
+  color: string,
+): ProgramSegment => ({id, label, type, duration, color});
+
+export const PRESET_PROGRAMS: IntervalProgram[] = [
+  {
+    id: 'preset-52-17',
+    name: '52 / 17',
+    segments: [
+      segment('focus', 'Focus', 'work', 52, '#4169E1'),
+      segment('rest', 'Rest', 'break', 17, '#4CAF50'),
+    ],
+  },
+  {
+    id: 'preset-ultradian',
+    name: 'Ultradian 90 / 20',
+    segments: [
+      segment('focus', 'Deep Focus', 'work', 90, '#9370DB'),
+      segment('rest', 'Recovery', 'break', 20, '#4CAF50'),
+    ],
+  },
+  {
+    id: 'preset-warm-up',
+    name: 'Warm-up Sequence',
+    segments: [
+      segment('warm-up', 'Warm-up', 'work', 10, '#DAA520'),
+      segment('focus', 'Focus', 'work', 50, '#4169E1'),
+      segment('review', 'Review', 'work', 10, '#4FD5D5'),
+      segment('break', 'Break', 'break', 15, '#4CAF50'),
+    ],
+  },
+];
+
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSegment = (index: number): ProgramSegment =>
+  segment(
+    createId('segment'),
+    `Segment ${index + 1}`,
+    'work',
+    25,
+    SEGMENT_COLORS[index % SEGMENT_COLORS.length],
+  );
+
+export const createProgram = (name: string): IntervalProgram => ({
+  id: createId('program'),
+  name,
+  segments: [createSegment(0)],
+});
+
+// Editable copy of a program, e.g. of a preset
+export const copyProgram = (program: IntervalProgram): IntervalProgram => ({
+  id: createId('program'),
+  name: `${program.name} (copy)`,
+  segments: program.segments.map(s => ({...s})),
+});
+
+// Presets ship with the app and are never saved, so updates to them reach everyone
+export const isPresetProgram = (programId: string): boolean =>
+  PRESET_PROGRAMS.some(program => program.id === programId);
+
+// Programs to choose from: the presets, then the user's own
+export const getAllPrograms = (userPrograms: IntervalProgram[]): IntervalProgram[] => [
+  ...PRESET_PROGRAMS,
+  ...userPrograms,
+];
+
+export const clampSegmentDuration = (minutes: number): number =>
+  Math.max(MIN_SEGMENT_DURATION, Math.min(MAX_SEGMENT_DURATION, minutes));
+
+// Total length of one pass through the program, in minutes
+export const getProgramDuration = (program: IntervalProgram): number =>
+  program.segments.reduce((total, s) => total + s.duration, 0);
@@ -0,0 +1,589 @@
+import {IntervalProgram, ProgramSegment} from './intervalPrograms';
+
+/**
+ * Pomodoro Engine
+ *
+ * Headless session logic for the Pomodoro timer. The engine is a pure
+ * reducer: it never reads the system time itself, every time-dependent
+ * event carries a `now` timestamp taken from an injectable clock. This
+ * keeps the work → break → work loop deterministic and testable.
+ * Every `sessionsBeforeLongBreak` work sessions, the short break is
+ * replaced by a long break and the cycle starts over. When auto-start
+ * is off for the next session type, the engine stops at the boundary in
+ * the `ready` state until the next session is started.
+ *
+ * When an interval program is configured, the engine steps through its
+ * segments in a loop instead of the work/break/long break cycle.
+ *
+ * In flowtime mode, work sessions count up until the user finishes them
+ * and are followed by a break proportional to the time worked. Laps can
+ * be marked along the way.
+ *
+ * A running session is anchored to an absolute end timestamp (`endsAt`),
+ * so the remaining time stays correct no matter how irregularly ticks
+ * arrive (throttled tabs, app backgrounding, relaunch from a snapshot).
+ * Count-up sessions are anchored the same way to `countedFrom`.
+ *
+ * Every session that ends (completed, skipped or reset) is appended to
+ * `log` as a SessionRecord so callers can journal it, together with any
+ * extensions and interruptions logged while it ran.
+ */
+
+export type TimerState = 'idle' | 'running' | 'paused' | 'ready';
+export type SessionType = 'work' | 'break' | 'longBreak';
+
+export type SessionOutcome = 'completed' | 'reset' | 'skipped';
+export type InterruptionKind = 'internal' | 'external';
+
+export interface Interruption {
+  kind: InterruptionKind;
+  at: number; // Timestamp (ms)
+}
+
+export interface SessionRecord {
+  sessionType: SessionType;
+  startedAt: number; // Timestamp (ms)
+  endedAt: number; // Timestamp (ms)
+  plannedDuration: number; // in seconds, 0 for open-ended flowtime sessions
+  actualDuration: number; // in seconds, excluding paused time
+  outcome: SessionOutcome;
+  extendedBy: number; // Seconds added on top of the planned duration
+  interruptions: Interruption[];
+}
+
+export interface PomodoroConfig {
+  workDuration: number; // in minutes
+  breakDuration: number; // in minutes
+  longBreakDuration: number; // in minutes
+  sessionsBeforeLongBreak: number; // Work sessions per cycle
+  autoStartBreaks: boolean; // Roll from work into a break without confirmation
+  autoStartWork: boolean; // Roll from a break into work without confirmation
+  program: IntervalProgram | null; // Segments to step through instead of the classic cycle
+  flowtime: boolean; // Work sessions count up until finished (ignored with a program)
+  flowtimeBreakRatio: number; // Flowtime break length as a fraction of the time worked
+}
+
+export interface PomodoroState {
+  config: PomodoroConfig; // Latest durations, applied to the next session
+  sessionType: SessionType;
+  timerState: TimerState;
+  sessionDuration: number; // Duration of the current session, in minutes
+  timeRemaining: number; // in seconds; frozen remainder while paused or idle
+  endsAt: number | null; // Timestamp (ms) when the running session ends
+  startedAt: number | null; // Timestamp (ms) when the current session started
+  extendedBy: number; // Seconds added to the current session
+  interruptions: Interruption[]; // Interruptions logged in the current session
+  completedSessions: number; // Sessions finished since the last reset
+  cycleCount: number; // Work sessions finished in the current cycle
+  segmentIndex: number; // Current program segment, -1 if the session predates the program
+  countUp: boolean; // Current session is an open-ended flowtime session
+  timeElapsed: number; // in seconds; time worked in a count-up session, frozen while paused
+  countedFrom: number | null; // Timestamp (ms) a running count-up session counts from
+  laps: number[]; // Elapsed seconds at each lap marked in the current session
+  log: SessionRecord[]; // Most recently ended sessions, oldest first
+  logCount: number; // Total sessions ever appended to the log
+}
+
+export type PomodoroEvent =
+  | {type: 'start'; now: number}
+  | {type: 'startFocus'; endsAt: number; now: number} // Work session ending at a set time
+  | {type: 'pause'; now: number}
+  | {type: 'reset'; now: number}
+  | {type: 'tick'; now: number}
+  | {type: 'skip'; now: number}
+  | {type: 'extend'; minutes: number; now: number}
+  | {type: 'interrupt'; kind: InterruptionKind; now: number}
+  | {type: 'finish'; now: number}
+  | {type: 'lap'; now: number}
+  | {type: 'configure'; config: PomodoroConfig}
+  | {type: 'restore'; snapshot: PomodoroSnapshot; now: number};
+
+/**
+ * Persistable subset of the engine state, used to resume a session
+ * after a reload or app restart
+ */
+export type PomodoroSnapshot = Pick<
+  PomodoroState,
+  | 'sessionType'
+  | 'timerState'
+  | 'sessionDuration'
+  | 'timeRemaining'
+  | 'endsAt'
+  | 'startedAt'
+  | 'extendedBy'
+  | 'interruptions'
+  | 'completedSessions'
+  | 'cycleCount'
+  | 'segmentIndex'
+  | 'countUp'
+  | 'timeElapsed'
+  | 'countedFrom'
+  | 'laps'
+>;
+
+/**
+ * Clock abstraction so the engine can be driven by real or fake time
+ */
+export interface Clock {
+  now: () => number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+// Only the latest records are kept in state; callers consume them as they arrive
+const MAX_LOG_LENGTH = 20;
+
+// Shortest break a flowtime session earns, in seconds
+const MIN_FLOWTIME_BREAK = 60;
+
+const getDuration = (config: PomodoroConfig, sessionType: SessionType): number => {
+  switch (sessionType) {
+    case 'work':
+      return config.workDuration;
+    case 'break':
+      return config.breakDuration;
+    case 'longBreak':
+      return config.longBreakDuration;
+  }
+};
+
+const getSegment = (config: PomodoroConfig, segmentIndex: number): ProgramSegment | null =>
+  (config.program && config.program.segments[segmentIndex]) || null;
+
+// Duration of a session, taken from the program segment when there is one
+const getSessionDuration = (
+  config: PomodoroConfig,
+  sessionType: SessionType,
+  segmentIndex: number,
+): number => {
+  const segment = getSegment(config, segmentIndex);
+  return segment ? segment.duration : getDuration(config, sessionType);
+};
+
+const getFirstSessionType = (config: PomodoroConfig): SessionType => {
+  const segment = getSegment(config, 0);
+  return segment ? segment.type : 'work';
+};
+
+// Flowtime applies to work sessions of the classic cycle only
+const isCountUp = (config: PomodoroConfig, sessionType: SessionType): boolean =>
+  config.flowtime && config.program === null && sessionType === 'work';
+
+// Flowtime breaks keep the length earned by the preceding work session
+const isEarnedBreak = (config: PomodoroConfig, sessionType: SessionType): boolean =>
+  config.flowtime && config.program === null && sessionType !== 'work';
+
+// Break earned by working the given number of seconds in flowtime mode
+const getFlowtimeBreak = (config: PomodoroConfig, worked: number): number =>
+  Math.max(MIN_FLOWTIME_BREAK, Math.round(worked * config.flowtimeBreakRatio));
+
+export const createInitialState = (config: PomodoroConfig): PomodoroState => {
+  const sessionType = getFirstSessionType(config);
+  const countUp = isCountUp(config, sessionType);
+  const duration = countUp ? 0 : getSessionDuration(config, sessionType, 0);
+  return {
+    config,
+    sessionType,
+    timerState: 'idle',
+    sessionDuration: duration,
+    timeRemaining: duration * 60,
+    endsAt: null,
+    startedAt: null,
+    extendedBy: 0,
+    interruptions: [],
+    completedSessions: 0,
+    cycleCount: 0,
+    segmentIndex: 0,
+    countUp,
+    timeElapsed: 0,
+    countedFrom: null,
+    laps: [],
+    log: [],
+    logCount: 0,
+  };
+};
+
+// Seconds left in the current session as of the given time
+const getRemainingAt = (state: PomodoroState, now: number): number =>
+  state.endsAt !== null ? Math.max(0, (state.endsAt - now) / 1000) : state.timeRemaining;
+
+// Seconds worked in the current count-up session as of the given time
+const getElapsedAt = (state: PomodoroState, now: number): number =>
+  state.countedFrom !== null ? Math.max(0, (now - state.countedFrom) / 1000) : state.timeElapsed;
+
+/**
+ * Append a record of the current session ending to the log
+ */
+const logSession = (
+  state: PomodoroState,
+  endedAt: number,
+  outcome: SessionOutcome,
+): PomodoroState => {
+  if (state.startedAt === null) {
+    return state;
+  }
+  const plannedDuration = state.sessionDuration * 60;
+  const actualDuration = state.countUp
+    ? getElapsedAt(state, endedAt)
+    : plannedDuration + state.extendedBy - getRemainingAt(state, endedAt);
+  const record: SessionRecord = {
+    sessionType: state.sessionType,
+    startedAt: state.startedAt,
+    endedAt,
+    plannedDuration,
+    actualDuration: Math.round(actualDuration),
+    outcome,
+    extendedBy: state.extendedBy,
+    interruptions: state.interruptions,
+  };
+  return {
+    ...state,
+    log: [...state.log, record].slice(-MAX_LOG_LENGTH),
+    logCount: state.logCount + 1,
+  };
+};
+
+/**
+ * Finish the current session and roll straight into the next one,
+ * picking up the latest configured duration. The next session is
+ * anchored to the given start timestamp. Only completed sessions count
+ * towards the completed total and the long break.
+ */
+const advanceSession = (
+  current: PomodoroState,
+  startsAt: number,
+  outcome: SessionOutcome,
+): PomodoroState => {
+  const state = logSession(current, startsAt, outcome);
+  const completed = outcome === 'completed';
+  const {program} = state.config;
+  let nextType: SessionType = 'work';
+  let cycleCount = state.cycleCount;
+  let segmentIndex = 0;
+  let nextDuration: number | null = null;
+  if (program && program.segments.length > 0) {
+    // Programs loop over their segments
+    segmentIndex = (state.segmentIndex + 1) % program.segments.length;
+    nextType = program.segments[segmentIndex].type;
+  } else if (state.countUp) {
+    // Flowtime earns a break proportional to the time worked, never a long break
+    nextType = 'break';
+    nextDuration = getFlowtimeBreak(state.config, getElapsedAt(state, startsAt)) / 60;
+  } else if (state.sessionType === 'work') {
+    if (completed) {
+      cycleCount += 1;
+    }
+    nextType = cycleCount >= state.config.sessionsBeforeLongBreak ? 'longBreak' : 'break';
+  } else if (state.sessionType === 'longBreak') {
+    // Long break closes the cycle
+    cycleCount = 0;
+  }
+  const countUp = isCountUp(state.config, nextType);
+  if (nextDuration === null) {
+    nextDuration = countUp ? 0 : getSessionDuration(state.config, nextType, segmentIndex);
+  }
+  const autoStart =
+    nextType === 'work' ? state.config.autoStartWork : state.config.autoStartBreaks;
+  const wasRunning = state.timerState === 'running';
+  const running = wasRunning && autoStart;
+
+  return {
+    ...state,
+    // Without auto-start, wait at the boundary for the user to start
+    timerState: wasRunning && !autoStart ? 'ready' : state.timerState,
+    sessionType: nextType,
+    cycleCount,
+    segmentIndex,
+    sessionDuration: nextDuration,
+    timeRemaining: nextDuration * 60,
+    endsAt: running && !countUp ? startsAt + nextDuration * 60 * 1000 : null,
+    startedAt: running ? startsAt : null,
+    extendedBy: 0,
+    interruptions: [],
+    countUp,
+    timeElapsed: 0,
+    countedFrom: running && countUp ? startsAt : null,
+    laps: [],
+    completedSessions: completed ? state.completedSessions + 1 : state.completedSessions,
+  };
+};
+
+export const getSnapshot = (state: PomodoroState): PomodoroSnapshot => ({
+  sessionType: state.sessionType,
+  timerState: state.timerState,
+  sessionDuration: state.sessionDuration,
+  timeRemaining: state.timeRemaining,
+  endsAt: state.endsAt,
+  startedAt: state.startedAt,
+  extendedBy: state.extendedBy,
+  interruptions: state.interruptions,
+  completedSessions: state.completedSessions,
+  cycleCount: state.cycleCount,
+  segmentIndex: state.segmentIndex,
+  countUp: state.countUp,
+  timeElapsed: state.timeElapsed,
+  countedFrom: state.countedFrom,
+  laps: state.laps,
+});
+
+/**
+ * Program segment of the current session, if a program is running
+ */
+export const getCurrentSegment = (state: PomodoroState): ProgramSegment | null =>
+  state.segmentIndex >= 0 ? getSegment(state.config, state.segmentIndex) : null;
+
+/**
+ * Break the current flowtime session would earn if finished now, in seconds
+ */
+export const getEarnedBreak = (state: PomodoroState): number =>
+  state.countUp ? getFlowtimeBreak(state.config, state.timeElapsed) : 0;
+
+/**
+ * Position in the current cycle, e.g. 3 of 4. During a work session this
+ * is the pomodoro being worked on; during a break, the one just finished.
+ * With a program, this is the current segment out of all segments.
+ */
+export const getCycleProgress = (
+  state: PomodoroState,
+): {current: number; total: number} => {
+  const {program} = state.config;
+  if (program && state.segmentIndex >= 0) {
+    return {current: state.segmentIndex + 1, total: program.segments.length};
+  }
+  return {
+    current: state.sessionType === 'work' ? state.cycleCount + 1 : state.cycleCount,
+    total: state.config.sessionsBeforeLongBreak,
+  };
+};
+
+export const pomodoroReducer = (
+  state: PomodoroState,
+  event: PomodoroEvent,
+): PomodoroState => {
+  switch (event.type) {
+    case 'start': {
+      if (state.timerState === 'running') {
+        return state;
+      }
+      // When starting a fresh session, use the latest durations
+      if (state.timerState === 'idle' || state.timerState === 'ready') {
+        if (isCountUp(state.config, state.sessionType)) {
+          return {
+            ...state,
+            timerState: 'running',
+            countUp: true,
+            sessionDuration: 0,
+            timeRemaining: 0,
+            timeElapsed: 0,
+            countedFrom: event.now,
+            endsAt: null,
+            startedAt: event.now,
+          };
+        }
+        const duration = isEarnedBreak(state.config, state.sessionType)
+          ? state.sessionDuration
+          : getSessionDuration(state.config, state.sessionType, state.segmentIndex);
+        return {
+          ...state,
+          timerState: 'running',
+          sessionDuration: duration,
+          timeRemaining: duration * 60,
+          endsAt: event.now + duration * 60 * 1000,
+          startedAt: event.now,
+        };
+      }
+      // Resume: re-anchor the paused remainder to the current time.
+      // A session skipped while paused has not started yet.
+      if (state.countUp) {
+        return {
+          ...state,
+          timerState: 'running',
+          countedFrom: event.now - state.timeElapsed * 1000,
+          startedAt: state.startedAt ?? event.now,
+        };
+      }
+      return {
+        ...state,
+        timerState: 'running',
+        endsAt: event.now + state.timeRemaining * 1000,
+        startedAt: state.startedAt ?? event.now,
+      };
+    }
+
+    case 'startFocus': {
+      // Whatever was in progress ends as if reset, and a work session
+      // runs until the given end instead of the configured length
+      const reset = pomodoroReducer(state, {type: 'reset', now: event.now});
+      const duration = Math.max(0, event.endsAt - event.now) / 60 / 1000;
+      return {
+        ...reset,
+        timerState: 'running',
+        sessionType: 'work',
+        // Outside the program; it starts over after this session
+        segmentIndex: state.config.program ? -1 : reset.segmentIndex,
+        countUp: false,
+        sessionDuration: duration,
+        timeRemaining: duration * 60,
+        endsAt: event.now + duration * 60 * 1000,
+        startedAt: event.now,
+      };
+    }
+
+    case 'pause': {
+      if (state.timerState !== 'running') {
+        return state;
+      }
+      // Freeze the remainder as of the pause time
+      const paused = pomodoroReducer(state, {type: 'tick', now: event.now});
+      return {...paused, timerState: 'paused', endsAt: null, countedFrom: null};
+    }
+
+    case 'reset': {
+      const logged =
+        state.timerState === 'idle' ? state : logSession(state, event.now, 'reset');
+      return {
+        ...createInitialState(state.config),
+        log: logged.log,
+        logCount: logged.logCount,
+      };
+    }
+
+    case 'tick': {
+      if (state.timerState !== 'running') {
+        return state;
+      }
+      // Roll over every session that ended since the last tick. Each next
+      // session starts exactly when the previous one ended, not when the
+      // (possibly late) tick arrived.
+      let next = state;
+      while (next.endsAt !== null && event.now >= next.endsAt) {
+        next = advanceSession(next, next.endsAt, 'completed');
+      }
+      if (next.countedFrom !== null) {
+        return {...next, timeElapsed: getElapsedAt(next, event.now)};
+      }
+      if (next.endsAt === null) {
+        return next;
+      }
+      return {...next, timeRemaining: (next.endsAt - event.now) / 1000};
+    }
+
+    case 'skip':
+      if (state.timerState === 'idle') {
+        return state;
+      }
+      return advanceSession(state, event.now, 'skipped');
+
+    case 'finish':
+      if (!state.countUp || (state.timerState !== 'running' && state.timerState !== 'paused')) {
+        return state;
+      }
+      return advanceSession(state, event.now, 'completed');
+
+    case 'lap':
+      if (!state.countUp || state.timerState !== 'running') {
+        return state;
+      }
+      return {...state, laps: [...state.laps, getElapsedAt(state, event.now)]};
+
+    case 'extend': {
+      // Count-up sessions have no end to push back
+      if (state.countUp || (state.timerState !== 'running' && state.timerState !== 'paused')) {
+        return state;
+      }
+      const seconds = event.minutes * 60;
+      return {
+        ...state,
+        endsAt: state.endsAt !== null ? state.endsAt + seconds * 1000 : null,
+        timeRemaining: getRemainingAt(state, event.now) + seconds,
+        extendedBy: state.extendedBy + seconds,
+      };
+    }
+
+    case 'interrupt':
+      if (state.timerState !== 'running' && state.timerState !== 'paused') {
+        return state;
+      }
+      return {
+        ...state,
+        interruptions: [...state.interruptions, {kind: event.kind, at: event.now}],
+      };
+
+    case 'restore': {
+      const restored = {...state, ...event.snapshot};
+      if (
+        restored.timerState === 'running' &&
+        restored.endsAt === null &&
+        restored.countedFrom === null
+      ) {
+        return state;
+      }
+      // Catch up on whatever happened while the app was not running
+      return pomodoroReducer(restored, {type: 'tick', now: event.now});
+    }
+
+    case 'configure': {
+      const {config} = event;
+      const programChanged =
+        (state.config.program ? state.config.program.id : null) !==
+        (config.program ? config.program.id : null);
+      const next = {...state, config};
+      // Duration changes apply to the next session, except while idle or
+      // ready where the display should reflect the new duration immediately
+      if (state.timerState === 'idle' || state.timerState === 'ready') {
+        // A new program, or an edit that removed the current segment,
+        // starts from the first segment
+        const restart =
+          programChanged ||
+          (config.program !== null && !getSegment(config, state.segmentIndex));
+        const sessionType = restart ? getFirstSessionType(config) : state.sessionType;
+        const segmentIndex = restart ? 0 : state.segmentIndex;
+        const countUp = isCountUp(config, sessionType);
+        let duration = getSessionDuration(config, sessionType, segmentIndex);
+        if (countUp) {
+          duration = 0;
+        } else if (!restart && isEarnedBreak(config, sessionType)) {
+          duration = state.sessionDuration;
+        }
+        return {
+          ...next,
+          sessionType,
+          segmentIndex,
+          countUp,
+          sessionDuration: duration,
+          timeRemaining: duration * 60,
+        };
+      }
+      // The running session finishes as planned; the new program starts
+      // with its first segment right after it
+      if (programChanged) {
+        return {...next, segmentIndex: -1};
+      }
+      return next;
+    }
+
+    default:
+      return state;
+  }
+};
+
+// Format time as MM:SS
+export const formatTime = (seconds: number): string => {
+  const totalSecs = Math.floor(Math.max(0, seconds));
+  const mins = Math.floor(totalSecs / 60);
+  const secs = totalSecs % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Format elapsed time as MM:SS.cc, minutes are not capped at 60
+export const formatStopwatch = (seconds: number): string => {
+  const totalCentis = Math.floor(Math.max(0, seconds) * 100);
+  const mins = Math.floor(totalCentis / 6000);
+  const secs = Math.floor((totalCentis % 6000) / 100);
+  const centis = totalCentis % 100;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${centis
+    .toString()
+    .padStart(2, '0')}`;
+};
@@ -0,0 +1,48 @@
+import {loadItem, removeItem, saveItem} from '../utils/storage';
+import {PomodoroSnapshot} from './pomodoroEngine';
+
+const TIMER_STORAGE_KEY = 'motivationWatchTimer';
+
+/**
+ * Load the persisted in-progress session, if any. Fields added since
+ * older snapshots were saved get their initial values: those saved before
+ * flowtime existed are countdown sessions, and those saved before
+ * extensions, interruptions or programs have none.
+ */
+export const loadTimerSnapshot = (): PomodoroSnapshot | null => {
+  const snapshot = loadItem<PomodoroSnapshot>(TIMER_STORAGE_KEY);
+  if (!snapshot) {
+    return null;
+  }
+  return {
+    ...snapshot,
+    extendedBy: snapshot.extendedBy ?? 0,
+    interruptions: snapshot.interruptions ?? [],
+    segmentIndex: snapshot.segmentIndex ?? 0,
+    countUp: snapshot.countUp ?? false,
+    timeElapsed: snapshot.timeElapsed ?? 0,
+    countedFrom: snapshot.countedFrom ?? null,
+    laps: snapshot.laps ?? [],
+  };
+};
+
+/**
+ * Persist the current session. Idle sessions carry nothing worth
+ * resuming, so they clear the stored snapshot instead.
+ */
+export const saveTimerSnapshot = (snapshot: PomodoroSnapshot): void => {
+  if (snapshot.timerState === 'idle') {
+    removeItem(TIMER_STORAGE_KEY);
+    return;
+  }
+  saveItem(TIMER_STORAGE_KEY, snapshot);
+};
+
+/**
+ * Persistence for usePomodoroEngine, through the storage helpers:
+ * localStorage on web, device storage on native
+ */
+export const storedTimerPersistence = {
+  load: loadTimerSnapshot,
+  save: saveTimerSnapshot,
+};
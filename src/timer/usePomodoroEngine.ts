@@ -0,0 +1,245 @@
+import {useCallback, useEffect, useReducer, useRef} from 'react';
+import {AppState} from 'react-native';
+import {
+  Clock,
+  InterruptionKind,
+  PomodoroSnapshot,
+  PomodoroState,
+  SessionRecord,
+  createInitialState,
+  getSnapshot,
+  pomodoroReducer,
+  systemClock,
+} from './pomodoroEngine';
+import {IntervalProgram} from './intervalPrograms';
+
+export interface TimerPersistence {
+  load: () => PomodoroSnapshot | null;
+  save: (snapshot: PomodoroSnapshot) => void;
+}
+
+interface UsePomodoroEngineOptions {
+  workDuration: number; // in minutes
+  breakDuration: number; // in minutes
+  longBreakDuration: number; // in minutes
+  sessionsBeforeLongBreak: number;
+  autoStartBreaks: boolean;
+  autoStartWork: boolean;
+  program?: IntervalProgram | null; // Replaces the classic cycle when set
+  flowtime?: boolean; // Count work sessions up until finished
+  flowtimeBreakRatio?: number; // Flowtime break as a fraction of the time worked, default 0.2
+  onComplete?: () => void;
+  onSessionStart?: (startedAt: number) => void; // A new session started (not a resume)
+  onSessionEnd?: (record: SessionRecord) => void; // Every ended session, for journaling
+  clock?: Clock;
+  tickInterval?: number; // in milliseconds, default 100
+  persistence?: TimerPersistence; // Resume and save the in-progress session
+}
+
+export interface PomodoroController {
+  state: PomodoroState;
+  start: () => void;
+  startFocus: (endsAt: number) => void; // Work session until the given timestamp, e.g. a focus block
+  pause: () => void;
+  reset: () => void;
+  skip: () => void;
+  extend: (minutes: number) => void;
+  interrupt: (kind: InterruptionKind) => void;
+  finish: () => void; // Ends a count-up session and takes the earned break
+  lap: () => void;
+}
+
+/**
+ * usePomodoroEngine Hook
+ *
+ * Binds the pure Pomodoro engine to React: owns the engine state,
+ * drives `tick` events from an interval while running and reports
+ * session starts through `onSessionStart` and finished sessions through
+ * `onComplete` and `onSessionEnd`. With `persistence`, the
+ * in-progress session is resumed on mount and saved on every change.
+ */
+export const usePomodoroEngine = ({
+  workDuration,
+  breakDuration,
+  longBreakDuration,
+  sessionsBeforeLongBreak,
+  autoStartBreaks,
+  autoStartWork,
+  program = null,
+  flowtime = false,
+  flowtimeBreakRatio = 0.2,
+  onComplete,
+  onSessionStart,
+  onSessionEnd,
+  clock = systemClock,
+  tickInterval = 100,
+  persistence,
+}: UsePomodoroEngineOptions): PomodoroController => {
+  const [state, dispatch] = useReducer(
+    pomodoroReducer,
+    {
+      workDuration,
+      breakDuration,
+      longBreakDuration,
+      sessionsBeforeLongBreak,
+      autoStartBreaks,
+      autoStartWork,
+      program,
+      flowtime,
+      flowtimeBreakRatio,
+    },
+    config => {
+      const initial = createInitialState(config);
+      const snapshot = persistence?.load();
+      return snapshot
+        ? pomodoroReducer(initial, {type: 'restore', snapshot, now: clock.now()})
+        : initial;
+    },
+  );
+
+  // Keep the latest callbacks without restarting the interval
+  const onCompleteRef = useRef(onComplete);
+  const onSessionStartRef = useRef(onSessionStart);
+  const onSessionEndRef = useRef(onSessionEnd);
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+    onSessionStartRef.current = onSessionStart;
+    onSessionEndRef.current = onSessionEnd;
+  }, [onComplete, onSessionStart, onSessionEnd]);
+
+  // Update configured durations when props change
+  useEffect(() => {
+    dispatch({
+      type: 'configure',
+      config: {
+        workDuration,
+        breakDuration,
+        longBreakDuration,
+        sessionsBeforeLongBreak,
+        autoStartBreaks,
+        autoStartWork,
+        program,
+        flowtime,
+        flowtimeBreakRatio,
+      },
+    });
+  }, [
+    workDuration,
+    breakDuration,
+    longBreakDuration,
+    sessionsBeforeLongBreak,
+    autoStartBreaks,
+    autoStartWork,
+    program,
+    flowtime,
+    flowtimeBreakRatio,
+  ]);
+
+  // Timer tick effect
+  useEffect(() => {
+    if (state.timerState !== 'running') {
+      return;
+    }
+    const intervalId = setInterval(() => {
+      dispatch({type: 'tick', now: clock.now()});
+    }, tickInterval);
+
+    return () => clearInterval(intervalId);
+  }, [state.timerState, clock, tickInterval]);
+
+  // Catch up immediately when returning from the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') {
+        dispatch({type: 'tick', now: clock.now()});
+      }
+    });
+    return () => subscription.remove();
+  }, [clock]);
+
+  // Save the session whenever it changes in a way worth resuming
+  // (timeRemaining and timeElapsed change every tick and are derived
+  // from endsAt and countedFrom)
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const {
+    timerState,
+    sessionType,
+    endsAt,
+    extendedBy,
+    interruptions,
+    countedFrom,
+    laps,
+    completedSessions,
+    log,
+    logCount,
+    startedAt,
+  } = state;
+  useEffect(() => {
+    persistence?.save(getSnapshot(stateRef.current));
+  }, [
+    persistence,
+    timerState,
+    sessionType,
+    endsAt,
+    extendedBy,
+    interruptions,
+    countedFrom,
+    laps,
+    completedSessions,
+  ]);
+
+  // Notify once for every session that finished since the last render
+  const completedRef = useRef(completedSessions);
+  useEffect(() => {
+    const finished = completedSessions - completedRef.current;
+    completedRef.current = completedSessions;
+    for (let i = 0; i < finished; i++) {
+      onCompleteRef.current?.();
+    }
+  }, [completedSessions]);
+
+  // Report sessions appended to the log since the last render. Records
+  // produced while restoring on mount are reported too, as they ended
+  // while the app was closed and were never seen.
+  const loggedRef = useRef(0);
+  useEffect(() => {
+    const added = Math.min(logCount - loggedRef.current, log.length);
+    loggedRef.current = logCount;
+    if (added > 0) {
+      log.slice(-added).forEach(record => onSessionEndRef.current?.(record));
+    }
+  }, [log, logCount]);
+
+  // Report each new session start after the previous session's end. A
+  // session resumed on mount already reported its start before the reload.
+  const startedRef = useRef(startedAt);
+  useEffect(() => {
+    if (startedAt !== null && startedAt !== startedRef.current) {
+      onSessionStartRef.current?.(startedAt);
+    }
+    startedRef.current = startedAt;
+  }, [startedAt]);
+
+  const start = useCallback(() => dispatch({type: 'start', now: clock.now()}), [clock]);
+  const startFocus = useCallback(
+    (until: number) => dispatch({type: 'startFocus', endsAt: until, now: clock.now()}),
+    [clock],
+  );
+  const pause = useCallback(() => dispatch({type: 'pause', now: clock.now()}), [clock]);
+  const reset = useCallback(() => dispatch({type: 'reset', now: clock.now()}), [clock]);
+  const skip = useCallback(() => dispatch({type: 'skip', now: clock.now()}), [clock]);
+  const extend = useCallback(
+    (minutes: number) => dispatch({type: 'extend', minutes, now: clock.now()}),
+    [clock],
+  );
+  const interrupt = useCallback(
+    (kind: InterruptionKind) => dispatch({type: 'interrupt', kind, now: clock.now()}),
+    [clock],
+  );
+
+  const finish = useCallback(() => dispatch({type: 'finish', now: clock.now()}), [clock]);
+  const lap = useCallback(() => dispatch({type: 'lap', now: clock.now()}), [clock]);
+
+  return {state, start, startFocus, pause, reset, skip, extend, interrupt, finish, lap};
+};
@@ -0,0 +1,31 @@
+/**
+ * File Input (web)
+ *
+ * A file input's change event never fires when the user closes the
+ * dialog without choosing anything. Browsers that support it fire
+ * `cancel` instead; elsewhere the window getting its focus back with no
+ * files chosen means the same.
+ */
+
+// Wait for change to land after the dialog closes before calling it off
+const FOCUS_GRACE_MS = 500;
+
+export const onFilePickerCancel = (input: HTMLInputElement, onCancel: () => void): void => {
+  let settled = false;
+  const cancel = () => {
+    if (!settled && !(input.files && input.files.length)) {
+      settled = true;
+      onCancel();
+    }
+  };
+  const onFocus = () => {
+    window.removeEventListener('focus', onFocus);
+    setTimeout(cancel, FOCUS_GRACE_MS);
+  };
+  input.addEventListener('cancel', cancel);
+  input.addEventListener('change', () => {
+    settled = true;
+    window.removeEventListener('focus', onFocus);
+  });
+  window.addEventListener('focus', onFocus);
+};
@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {StorageBackend, setStorageBackend} from './storage';
+
+/**
+ * Native Storage
+ *
+ * The storage helpers are synchronous, so the timer can resume and screens
+ * can read their history on first render. AsyncStorage is not, so native
+ * reads every stored item into memory once at startup; from then on reads
+ * come from memory and writes go to both, with AsyncStorage written in
+ * the background.
+ */
+export const createNativeStorage = async (): Promise<StorageBackend> => {
+  const keys = await AsyncStorage.getAllKeys();
+  const entries = await AsyncStorage.multiGet(keys);
+  const cache = new Map<string, string>();
+  entries.forEach(([key, value]) => {
+    if (value !== null) {
+      cache.set(key, value);
+    }
+  });
+
+  return {
+    getItem: key => cache.get(key) ?? null,
+    setItem: (key, value) => {
+      cache.set(key, value);
+      AsyncStorage.setItem(key, value).catch(error => console.error(`Failed to save ${key}:`, error));
+    },
+    removeItem: key => {
+      cache.delete(key);
+      AsyncStorage.removeItem(key).catch(error =>
+        console.error(`Failed to remove ${key}:`, error),
+      );
+    },
+  };
+};
+
+/**
+ * Load native storage and install it behind the storage helpers. Call
+ * before rendering anything that reads stored state.
+ */
+export const installNativeStorage = async (): Promise<void> => {
+  try {
+    setStorageBackend(await createNativeStorage());
+  } catch (error) {
+    // Run without persistence rather than not at all
+    console.error('Failed to load stored data:', error);
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * Storage helpers
+ *
+ * Thin JSON wrapper around a synchronous key-value backend. On web that is
+ * localStorage; native installs an AsyncStorage-backed cache at startup
+ * (see nativeStorage.ts). Without a backend, loads return null and saves
+ * are no-ops.
+ */
+
+export interface StorageBackend {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+let installedBackend: StorageBackend | null = null;
+
+// Replace the backend, e.g. with the native cache once it has loaded
+export const setStorageBackend = (backend: StorageBackend | null): void => {
+  installedBackend = backend;
+};
+
+const getBackend = (): StorageBackend | null => {
+  if (installedBackend) {
+    return installedBackend;
+  }
+  return typeof localStorage === 'undefined' ? null : localStorage;
+};
+
+export const loadItem = <T>(key: string): T | null => {
+  const backend = getBackend();
+  if (!backend) {
+    return null;
+  }
+  const saved = backend.getItem(key);
+  if (!saved) {
+    return null;
+  }
+  try {
+    return JSON.parse(saved) as T;
+  } catch (e) {
+    console.error(`Failed to load ${key}:`, e);
+    return null;
+  }
+};
+
+export const saveItem = <T>(key: string, value: T): void => {
+  getBackend()?.setItem(key, JSON.stringify(value));
+};
+
+export const removeItem = (key: string): void => {
+  getBackend()?.removeItem(key);
+};